@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import Header from './components/Header';
 import InitialView from './components/InitialView';
 import EditControls from './components/EditControls';
@@ -10,14 +10,63 @@ import NextSceneGenerator from './components/NextSceneGenerator';
 import MaskingCanvas from './components/MaskingCanvas';
 import MaskingToolbar from './components/MaskingToolbar';
 import ApiKeyManager from './components/ApiKeyManager';
-import { ImageVersion, Character, ImageSet } from './types';
-import { editImageWithPrompt, generateImageWithPrompt, generateCharacterDefinition, generateTextOverlaySuggestions } from './services/geminiService';
-import { getKeys, addKey, deleteKey } from './services/apiKeyManager';
+import VersionDetails from './components/VersionDetails';
+import CompareView, { CompareTarget } from './components/CompareView';
+import VariantPicker from './components/VariantPicker';
+import CharacterLibrary from './components/CharacterLibrary';
+import ExportDialog from './components/ExportDialog';
+import TextOverlayCanvas from './components/TextOverlayCanvas';
+import TextOverlayPanel from './components/TextOverlayPanel';
+import LayerCanvas from './components/LayerCanvas';
+import ZoomableStage from './components/ZoomableStage';
+import LayerPanel from './components/LayerPanel';
+import MaskRegionPanel from './components/MaskRegionPanel';
+import RegionPassPanel, { RegionPassStatus } from './components/RegionPassPanel';
+import OutpaintPanel from './components/OutpaintPanel';
+import { useImageSize } from './components/useImageSize';
+import { ImageVersion, Character, ImageSet, ProjectSummary, RegionPrompt, RegionPass, RegionMask, MaskEncoding, LibraryCharacter, StyleProfile, TextOverlay, TextSuggestion, Layer, StickerShape, MaskCompositingOptions, Padding } from './types';
+import ModelSettings from './components/ModelSettings';
+import StyleProfileManager from './components/StyleProfileManager';
+import PromptLibrary from './components/PromptLibrary';
+import PromptPreview from './components/PromptPreview';
+import { editImageWithPrompt, buildEditPrompt, generateImageWithPrompt, generateCharacterDefinition, generateTextOverlaySuggestions, runVariants, describeVariantFailures, getModelSelection, setModelChoice, ModelChoice, ModelSelection } from './services/aiService';
+import { buildEditSubmission } from './services/editPrompt';
+import { createInitialCharacters, createCharacter, getNextCharacterSlot, ensureCharacterSlots } from './services/characters';
+import type { ProviderOperation } from './services/imageProvider';
+import { getKeyStats, addKey, deleteKey, setKeyLabel, ApiKeyStats } from './services/apiKeyManager';
+import { validateApiKey } from './services/geminiService';
+import { buildProjectArchive, readProjectArchive } from './services/projectArchive';
+import { createTextOverlay } from './services/textOverlay';
+import { BASE_LAYER_ID, getLayers, createTextLayer, createStickerLayer, createColorLayer, moveLayer, removeLayer, getEditTarget, getEditInput, applyEditToLayers, getFlattenedImage } from './services/layers';
+import { suggestionToPrompt, suggestionToOverlay } from './services/textSuggestions';
+import { DEFAULT_MASK_COMPOSITING, constrainMaskedEdit } from './services/maskCompositing';
+import { DEFAULT_MASK_ENCODING, encodeMask } from './services/maskEncoding';
+import { buildNextScenePrompt, buildOutpaintTask, getPromptLibrary, savePromptLibrary, PromptLibrary as PromptLibraryData } from './services/promptTemplates';
+import { DEFAULT_TARGET_FORMAT_ID, findClosestFormat, getTargetFormat } from './services/targetFormats';
+import { padImage } from './services/outpaint';
+import { listStyleProfiles, saveStyleProfile, deleteStyleProfile, findStyleProfile } from './services/styleProfiles';
+import {
+  Region,
+  MaskTool,
+  MaskHistory,
+  EMPTY_MASK_HISTORY,
+  DEFAULT_REGION_FEATHER,
+  getHistoryRegions,
+  pushHistory,
+  undoHistory,
+  redoHistory,
+  canUndoHistory,
+  canRedoHistory,
+  setRegionFeather,
+  mergeRegions,
+  deleteRegion,
+  moveRegion,
+  RegionTarget,
+} from './components/maskRegions';
+import { listLibraryCharacters, saveLibraryCharacter, deleteLibraryCharacter, toLibraryCharacter, placeLibraryCharacter } from './services/characterLibrary';
+import { listProjects, createProject, loadProject, saveProject, renameProject, deleteProject, getLastProjectId, setLastProjectId, Project, ProjectData } from './services/projectStorage';
 
-const initialCharactersState: Character[] = [
-  { id: 'char1', name: 'Character 1', roleName: undefined, base64: null, mimeType: null, definition: null, isLoading: false, isAnalyzed: false },
-  { id: 'char2', name: 'Character 2', roleName: undefined, base64: null, mimeType: null, definition: null, isLoading: false, isAnalyzed: false },
-];
+const PROJECT_SAVE_DELAY_MS = 800; // Debounce autosave so rapid edits don't re-encode every image each time
 
 const App: React.FC = () => {
   const [imageSets, setImageSets] = useState<ImageSet[]>([]);
@@ -26,37 +75,178 @@ const App: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [textSuggestions, setTextSuggestions] = useState<string[]>([]);
+  const [textSuggestions, setTextSuggestions] = useState<TextSuggestion[]>([]);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('Brewing AI magic...');
   const [error, setError] = useState<string | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [characters, setCharacters] = useState<Character[]>(initialCharactersState);
+  const [characters, setCharacters] = useState<Character[]>(createInitialCharacters);
   const [showNewVersionGenerator, setShowNewVersionGenerator] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  // Candidates awaiting a pick; a null setId means they came from a fresh generation and will form a new set.
+  const [pendingVariants, setPendingVariants] = useState<{ setId: string | null; candidates: ImageVersion[] } | null>(null);
+  const [detailsTarget, setDetailsTarget] = useState<{ setId: string; versionId: string } | null>(null);
+  const [compareTarget, setCompareTarget] = useState<CompareTarget | null>(null);
+  const [exportTarget, setExportTarget] = useState<ImageVersion | null>(null);
   
   // API Key Manager State
   const [isApiKeyManagerOpen, setIsApiKeyManagerOpen] = useState(false);
-  const [apiKeys, setApiKeys] = useState<string[]>([]);
+  const [apiKeys, setApiKeys] = useState<ApiKeyStats[]>([]);
+  const [modelSelection, setModelSelection] = useState<ModelSelection>(getModelSelection);
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibraryData>(getPromptLibrary);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
+  const [previewPrompt, setPreviewPrompt] = useState<string | null>(null);
+  const [styleProfiles, setStyleProfiles] = useState<StyleProfile[]>(listStyleProfiles);
+  const [styleProfileId, setStyleProfileId] = useState<string | null>(null); // The open project's
+  const [isStyleManagerOpen, setIsStyleManagerOpen] = useState(false);
+  const styleProfile = findStyleProfile(styleProfiles, styleProfileId);
+
+  // Project persistence state
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [libraryCharacters, setLibraryCharacters] = useState<LibraryCharacter[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const hasRestoredSession = useRef(false);
+  const skipNextSave = useRef(false);
+  const pendingSave = useRef<{ projectId: string; data: ProjectData } | null>(null); // Waiting out the autosave delay
 
   // Masking state
   const [isMasking, setIsMasking] = useState(false);
   const [compositeImage, setCompositeImage] = useState<string | null>(null); // For user display
   const [maskImage, setMaskImage] = useState<string | null>(null); // For sending to the API
   const [brushSize, setBrushSize] = useState(40);
-  const [undoTrigger, setUndoTrigger] = useState(0);
-  const [redoTrigger, setRedoTrigger] = useState(0);
-  const [clearTrigger, setClearTrigger] = useState(0);
-  const [canUndo, setCanUndo] = useState(false);
-  const [canRedo, setCanRedo] = useState(false);
-  const [regionPrompts, setRegionPrompts] = useState<{ id: number; prompt: string }[]>([]);
+  const [maskCompositing, setMaskCompositing] = useState<MaskCompositingOptions>(DEFAULT_MASK_COMPOSITING);
+  const [maskHistory, setMaskHistory] = useState<MaskHistory>(EMPTY_MASK_HISTORY);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [fillClosedPaths, setFillClosedPaths] = useState(false);
+  const [newRegionFeather, setNewRegionFeather] = useState(DEFAULT_REGION_FEATHER);
+  const [regionPromptTexts, setRegionPromptTexts] = useState<Record<string, string>>({}); // By region key, so prompts follow renumbering
+  const [regionTarget, setRegionTarget] = useState<RegionTarget>('auto');
+  const [editRegionsSeparately, setEditRegionsSeparately] = useState(false);
+  const [regionMasks, setRegionMasks] = useState<RegionMask[]>([]);
+  const [maskEncoding, setMaskEncoding] = useState<MaskEncoding>(DEFAULT_MASK_ENCODING);
+  const [regionPassProgress, setRegionPassProgress] = useState<RegionPassStatus[] | null>(null); // While passes run
+  const [maskSource, setMaskSource] = useState<string | null>(null); // What the edit will see, drawn under the mask
+
+  // Layer state
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+
+  // Text overlay state
+  const [isEditingText, setIsEditingText] = useState(false);
+  const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([]);
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [editingTextLayerId, setEditingTextLayerId] = useState<string | null>(null); // null while adding a new text layer
 
 
   const menuRef = useRef<HTMLDivElement>(null);
 
+  const refreshApiKeys = useCallback(() => setApiKeys(getKeyStats()), []);
+
+  useEffect(() => {
+    refreshApiKeys();
+  }, [refreshApiKeys]);
+
+  const resetEditingState = () => {
+    setPrompt('');
+    setError(null);
+    setTextSuggestions([]);
+    setShowNewVersionGenerator(false);
+    setIsMasking(false);
+    setCompositeImage(null);
+    setMaskImage(null);
+    clearMaskRegions();
+    setIsEditingText(false);
+    setTextOverlays([]);
+    setSelectedOverlayId(null);
+    setEditingTextLayerId(null);
+    setSelectedLayerId(null);
+    setDetailsTarget(null);
+    setExportTarget(null);
+    setPendingVariants(null);
+  };
+
+  /**
+   * Saves the edits still waiting out the autosave delay straight away, to the project they were made in.
+   */
+  const flushPendingSave = useCallback(async () => {
+    const pending = pendingSave.current;
+    if (!pending) return;
+    pendingSave.current = null;
+    try {
+      await saveProject(pending.projectId, pending.data);
+      setProjects(await listProjects());
+    } catch (e: any) {
+      console.error("Failed to save project:", e);
+      setError("Failed to save your project. Your browser may be out of storage space.");
+    }
+  }, []);
+
+  const applyProject = (project: Project) => {
+    flushPendingSave(); // Don't lose the last edits of the project being left
+    skipNextSave.current = true; // The loaded state is already what's stored
+    resetEditingState();
+    setImageSets(project.imageSets);
+    setCharacters(project.characters.length > 0 ? project.characters : createInitialCharacters());
+    setActiveSetId(project.activeSetId);
+    setActiveVersionId(project.activeVersionId);
+    setStyleProfileId(project.styleProfileId);
+    setCurrentProjectId(project.id);
+    setLastProjectId(project.id);
+  };
+
   useEffect(() => {
-    setApiKeys(getKeys());
+    // Guard against StrictMode running this twice and creating two initial projects.
+    if (hasRestoredSession.current) return;
+    hasRestoredSession.current = true;
+
+    const restoreSession = async () => {
+      try {
+        let summaries = await listProjects();
+        if (summaries.length === 0) {
+          summaries = [await createProject('Project 1')];
+        }
+        const lastProjectId = getLastProjectId();
+        const projectToOpen = summaries.find(p => p.id === lastProjectId) || summaries[0];
+        const project = await loadProject(projectToOpen.id);
+        setProjects(summaries);
+        if (project) {
+          applyProject(project);
+        }
+      } catch (e: any) {
+        console.error("Failed to restore saved projects:", e);
+        setError("Could not load your saved projects. Changes made in this session will not be saved.");
+      }
+    };
+    restoreSession();
   }, []);
 
+  useEffect(() => {
+    if (!currentProjectId) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+
+    // The edits stay pending when the timer is cleared, so switching projects or leaving the page can still save them.
+    pendingSave.current = { projectId: currentProjectId, data: { imageSets, characters, activeSetId, activeVersionId, styleProfileId } };
+    const timeoutId = setTimeout(flushPendingSave, PROJECT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [currentProjectId, imageSets, characters, activeSetId, activeVersionId, styleProfileId, flushPendingSave]);
+
+  useEffect(() => {
+    // pagehide alone isn't fired when a mobile browser discards a backgrounded tab, so save when hidden too.
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushPendingSave();
+    };
+    window.addEventListener('pagehide', flushPendingSave);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushPendingSave]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
@@ -72,13 +262,13 @@ const App: React.FC = () => {
       if (isCtrl && e.key.toLowerCase() === 'z') {
         e.preventDefault();
         if (e.shiftKey) {
-          setRedoTrigger(c => c + 1); // Ctrl+Shift+Z for redo
+          setMaskHistory(redoHistory); // Ctrl+Shift+Z for redo
         } else {
-          setUndoTrigger(c => c + 1); // Ctrl+Z for undo
+          setMaskHistory(undoHistory); // Ctrl+Z for undo
         }
       } else if (isCtrl && e.key.toLowerCase() === 'y') {
         e.preventDefault();
-        setRedoTrigger(c => c + 1); // Ctrl+Y for redo
+        setMaskHistory(redoHistory); // Ctrl+Y for redo
       }
     };
     window.addEventListener('keydown', handleKeyDown);
@@ -89,14 +279,138 @@ const App: React.FC = () => {
     };
   }, [isMasking]);
 
-  const handleAddKey = (key: string) => {
-    addKey(key);
-    setApiKeys(getKeys());
+  const handleAddKey = (key: string, label: string) => {
+    addKey(key, label);
+    refreshApiKeys();
   };
 
   const handleDeleteKey = (key: string) => {
     deleteKey(key);
-    setApiKeys(getKeys());
+    refreshApiKeys();
+  };
+
+  const handleRenameKey = (key: string, label: string) => {
+    setKeyLabel(key, label);
+    refreshApiKeys();
+  };
+
+  const handleValidateKey = async (key: string) => {
+    const result = await validateApiKey(key);
+    refreshApiKeys();
+    return result;
+  };
+
+  const handleModelChoiceChange = (operation: ProviderOperation, choice: ModelChoice) => {
+    setModelChoice(operation, choice);
+    setModelSelection(getModelSelection());
+  };
+
+  const handleSaveStyleProfile = (profile: StyleProfile) => {
+    setStyleProfiles(saveStyleProfile(profile));
+  };
+
+  const handleDeleteStyleProfile = (id: string) => {
+    setStyleProfiles(deleteStyleProfile(id));
+    if (id === styleProfileId) setStyleProfileId(null);
+  };
+
+  const handlePromptLibraryChange = (library: PromptLibraryData) => {
+    savePromptLibrary(library);
+    setPromptLibrary(library);
+  };
+
+  const handleSelectProject = async (id: string) => {
+    if (id === currentProjectId || isLoading) return;
+    try {
+      const project = await loadProject(id);
+      if (project) {
+        applyProject(project);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Failed to open the project.');
+    }
+  };
+
+  const handleCreateProject = async () => {
+    if (isLoading) return;
+    try {
+      const summary = await createProject(`Project ${projects.length + 1}`);
+      setProjects(await listProjects());
+      applyProject({ ...summary, imageSets: [], characters: [], activeSetId: null, activeVersionId: null, styleProfileId: null });
+    } catch (e: any) {
+      setError(e.message || 'Failed to create a new project.');
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      setProjects(await listProjects());
+    } catch (e: any) {
+      setError(e.message || 'Failed to rename the project.');
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (isLoading) return;
+    if (pendingSave.current?.projectId === id) {
+      pendingSave.current = null; // Nothing left to save it to
+    }
+    try {
+      await deleteProject(id);
+      let remaining = await listProjects();
+      if (id === currentProjectId) {
+        if (remaining.length === 0) {
+          remaining = [await createProject('Project 1')];
+        }
+        const project = await loadProject(remaining[0].id);
+        if (project) {
+          applyProject(project);
+        }
+      }
+      setProjects(remaining);
+    } catch (e: any) {
+      setError(e.message || 'Failed to delete the project.');
+    }
+  };
+
+  const handleExportProject = async (id: string) => {
+    try {
+      const summary = projects.find(p => p.id === id);
+      // The open project may have unsaved changes, so export what's on screen rather than what's stored.
+      const data = id === currentProjectId
+        ? { imageSets, characters, activeSetId, activeVersionId, styleProfileId }
+        : await loadProject(id);
+      if (!summary || !data) return;
+
+      const archive = buildProjectArchive(summary.name, data);
+      const url = URL.createObjectURL(new Blob([archive], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${summary.name.replace(/[^\w-]+/g, '_') || 'project'}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setError(e.message || 'Failed to export the project.');
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    if (isLoading) return;
+    try {
+      const { name, data } = readProjectArchive(new Uint8Array(await file.arrayBuffer()));
+      const summary = await createProject(name);
+      await saveProject(summary.id, data);
+      const project = await loadProject(summary.id);
+      if (project) {
+        applyProject(project);
+      }
+      setProjects(await listProjects());
+    } catch (e: any) {
+      setError(e.message || 'Failed to import the project.');
+    }
   };
 
   const handleGenerateSuggestions = useCallback(async (image: ImageVersion | null) => {
@@ -107,10 +421,7 @@ const App: React.FC = () => {
     setTextSuggestions([]);
     setError(null);
     try {
-      const suggestions = await generateTextOverlaySuggestions({
-        base64: image.base64,
-        mimeType: image.mimeType,
-      });
+      const suggestions = await generateTextOverlaySuggestions(await getFlattenedImage(image), styleProfile);
       setTextSuggestions(suggestions);
     } catch (e: any) {
       console.error("Failed to get suggestions:", e.message);
@@ -119,10 +430,10 @@ const App: React.FC = () => {
     } finally {
       setIsSuggesting(false);
     }
-  }, []);
+  }, [styleProfile]);
   
   const handleImageUpload = useCallback(async (base64: string, mimeType: string) => {
-    const newVersion: ImageVersion = { id: crypto.randomUUID(), base64, mimeType };
+    const newVersion: ImageVersion = { id: crypto.randomUUID(), parentId: null, base64, mimeType };
     const newSet: ImageSet = {
       id: crypto.randomUUID(),
       name: `Image ${imageSets.length + 1}`,
@@ -135,16 +446,21 @@ const App: React.FC = () => {
     setError(null);
   }, [imageSets.length]);
 
-  const handleImageGenerate = async (generationPrompt: string) => {
+  const handleImageGenerate = async (generationPrompt: string, count: number = 1, formatId: string = DEFAULT_TARGET_FORMAT_ID) => {
     if (!generationPrompt.trim()) return;
 
     setIsLoading(true);
-    setLoadingMessage('Generating your thumbnail...');
+    setLoadingMessage(count > 1 ? `Generating ${count} variants...` : 'Generating your thumbnail...');
     setTextSuggestions([]);
     setError(null);
     try {
-      const { newBase64, newMimeType } = await generateImageWithPrompt(generationPrompt);
-      const newVersion: ImageVersion = { id: crypto.randomUUID(), base64: newBase64, mimeType: newMimeType };
+      if (count > 1) {
+        const run = await runVariants(count, () => createGeneratedVersion('generate', generationPrompt, formatId));
+        setPendingVariants({ setId: null, candidates: run.variants });
+        setError(describeVariantFailures(run, count));
+        return;
+      }
+      const newVersion = await createGeneratedVersion('generate', generationPrompt, formatId);
       const newSet: ImageSet = {
         id: crypto.randomUUID(),
         name: `Image ${imageSets.length + 1}`,
@@ -163,7 +479,7 @@ const App: React.FC = () => {
   const handleCharacterUpload = useCallback(async (id: Character['id'], base64: string, mimeType: string) => {
     setCharacters(prev => 
       prev.map(char => 
-        char.id === id ? { ...char, base64, mimeType, definition: null, isLoading: false, isAnalyzed: false } : char
+        char.id === id ? { ...char, base64, mimeType, definition: null, isLoading: false, isAnalyzed: false, libraryId: undefined, extraPhotos: undefined } : char
       )
     );
     setError(null);
@@ -177,6 +493,62 @@ const App: React.FC = () => {
     );
   };
 
+  const handleAddCharacter = () => {
+    setCharacters(prev => [...prev, createCharacter(getNextCharacterSlot(prev))]);
+  };
+
+  const handleRemoveCharacter = (id: Character['id']) => {
+    setCharacters(prev => prev.filter(c => c.id !== id));
+  };
+
+  const handleEnsureCharacterSlots = useCallback((slots: number[]) => {
+    setCharacters(prev => ensureCharacterSlots(prev, slots));
+  }, []);
+
+  const handleOpenLibrary = async () => {
+    setIsLibraryOpen(true);
+    try {
+      setLibraryCharacters(await listLibraryCharacters());
+    } catch (e: any) {
+      setError(e.message || 'Failed to load the character library.');
+    }
+  };
+
+  const handleSaveCharacterToLibrary = async (character: Character) => {
+    try {
+      const existing = (await listLibraryCharacters()).find(entry => entry.id === character.libraryId);
+      const entry = toLibraryCharacter(character, existing);
+      await saveLibraryCharacter(entry);
+      setCharacters(prev => prev.map(c => c.id === character.id ? { ...c, libraryId: entry.id } : c));
+      setLibraryCharacters(await listLibraryCharacters());
+    } catch (e: any) {
+      setError(e.message || 'Failed to save the character to the library.');
+    }
+  };
+
+  const handleSaveLibraryEntry = async (entry: LibraryCharacter) => {
+    try {
+      await saveLibraryCharacter(entry);
+      setLibraryCharacters(await listLibraryCharacters());
+    } catch (e: any) {
+      setError(e.message || 'Failed to update the character library.');
+    }
+  };
+
+  const handleDeleteLibraryEntry = async (id: string) => {
+    try {
+      await deleteLibraryCharacter(id);
+      setLibraryCharacters(await listLibraryCharacters());
+    } catch (e: any) {
+      setError(e.message || 'Failed to update the character library.');
+    }
+  };
+
+  const handleUseLibraryCharacter = (entry: LibraryCharacter) => {
+    setCharacters(prev => placeLibraryCharacter(prev, entry));
+    setIsLibraryOpen(false);
+  };
+
   const handleAnalyzeCharacters = async () => {
     const toAnalyze = characters.filter(c => c.base64 && !c.isAnalyzed);
     if (toAnalyze.length === 0) return;
@@ -207,28 +579,58 @@ const App: React.FC = () => {
     setIsMasking(false);
     setCompositeImage(null);
     setMaskImage(null);
-    setRegionPrompts([]);
+    clearMaskRegions();
     setTextSuggestions([]);
+    setSelectedLayerId(null);
   }, []);
 
-  const handleRegionsChange = useCallback((regions: { id: number }[]) => {
-    setRegionPrompts(prev => {
-      const newPrompts = regions.map(region => {
-        const existing = prev.find(p => p.id === region.id);
-        return existing || { id: region.id, prompt: '' };
-      });
-      return newPrompts;
+  const maskRegions = getHistoryRegions(maskHistory);
+
+  const regionPrompts: RegionPrompt[] = useMemo(
+    () => [...maskRegions].sort((a, b) => a.id - b.id).map(region => ({ id: region.id, prompt: regionPromptTexts[region.key] ?? '' })),
+    [maskRegions, regionPromptTexts]
+  );
+
+  const clearMaskRegions = () => {
+    setMaskHistory(EMPTY_MASK_HISTORY);
+    setRegionPromptTexts({});
+    setRegionTarget('auto');
+  };
+
+  const updateMaskRegions = (update: (regions: Region[]) => Region[]) => {
+    setMaskHistory(prev => {
+      const regions = getHistoryRegions(prev);
+      const updated = update(regions);
+      return updated === regions ? prev : pushHistory(prev, updated);
     });
-  }, []);
+  };
+
+  const handleMaskRegionsChange = (regions: Region[]) => {
+    setMaskHistory(prev => pushHistory(prev, regions));
+    // After starting a new region, keep drawing into it.
+    if (regionTarget === 'new') {
+      const started = regions.find(region => !maskRegions.some(r => r.key === region.key));
+      if (started) setRegionTarget(started.key);
+    }
+  };
+
+  const handleMergeRegions = (intoKey: string, fromKey: string) => {
+    updateMaskRegions(regions => mergeRegions(regions, intoKey, fromKey));
+    setRegionPromptTexts(prev => {
+      const merged = [prev[intoKey], prev[fromKey]].map(p => p?.trim()).filter(Boolean).join('; ');
+      return { ...prev, [intoKey]: merged };
+    });
+  };
 
   const handleRegionPromptChange = (id: number, newPrompt: string) => {
-    setRegionPrompts(prev => prev.map(p => p.id === id ? { ...p, prompt: newPrompt } : p));
+    const region = maskRegions.find(r => r.id === id);
+    if (region) setRegionPromptTexts(prev => ({ ...prev, [region.key]: newPrompt }));
   };
   
   const handleToggleMasking = () => {
     setIsMasking(prev => {
         if (prev) {
-            setRegionPrompts([]);
+            clearMaskRegions();
             setCompositeImage(null);
             setMaskImage(null);
         }
@@ -236,18 +638,318 @@ const App: React.FC = () => {
     });
   };
 
+  /**
+   * Applies a change to the layer stack of the active version, in place.
+   */
+  const updateActiveLayers = (update: (layers: Layer[]) => Layer[]) => {
+    setImageSets(prev => prev.map(set => set.id !== activeSetId ? set : {
+      ...set,
+      versions: set.versions.map(v => v.id === activeVersionId ? { ...v, layers: update(getLayers(v)) } : v),
+    }));
+  };
+
+  const handleAddLayer = (layer: Layer) => {
+    updateActiveLayers(layers => [...layers, layer]);
+    setSelectedLayerId(layer.id);
+  };
+
+  const handleLayerChange = (layer: Layer) => {
+    updateActiveLayers(layers => layers.map(l => l.id === layer.id ? layer : l));
+  };
+
+  const handleMoveLayer = (id: string, direction: 'up' | 'down') => {
+    updateActiveLayers(layers => moveLayer(layers, id, direction));
+  };
+
+  const handleDeleteLayer = (id: string) => {
+    updateActiveLayers(layers => removeLayer(layers, id));
+    if (selectedLayerId === id) setSelectedLayerId(null);
+  };
+
+  const openTextEditor = (overlays: TextOverlay[], layerId: string | null) => {
+    if (isMasking) handleToggleMasking();
+    setTextOverlays(overlays);
+    setSelectedOverlayId(overlays[overlays.length - 1]?.id ?? null);
+    setEditingTextLayerId(layerId);
+    setIsEditingText(true);
+  };
+
+  // While the text editor is open, new text goes into the layer being edited; otherwise it starts a new layer.
+  const handleAddTextOverlay = () => {
+    openTextEditor([...textOverlays, createTextOverlay('YOUR TEXT HERE')], isEditingText ? editingTextLayerId : null);
+  };
+
+  const handlePlaceSuggestion = (suggestion: TextSuggestion) => {
+    openTextEditor([...textOverlays, suggestionToOverlay(suggestion)], isEditingText ? editingTextLayerId : null);
+  };
+
+  const handleEditTextLayer = (id: string) => {
+    const layer = activeImage && getLayers(activeImage).find(l => l.id === id);
+    if (layer?.kind === 'text') {
+      openTextEditor(layer.overlays, layer.id);
+    }
+  };
+
+  const handleTextOverlayChange = (overlay: TextOverlay) => {
+    setTextOverlays(prev => prev.map(o => o.id === overlay.id ? overlay : o));
+  };
+
+  const handleDeleteTextOverlay = (id: string) => {
+    setTextOverlays(prev => prev.filter(o => o.id !== id));
+    setSelectedOverlayId(null);
+  };
+
+  const handleCancelTextEditing = () => {
+    setIsEditingText(false);
+    setTextOverlays([]);
+    setSelectedOverlayId(null);
+    setEditingTextLayerId(null);
+  };
+
+  const handleApplyTextOverlays = () => {
+    const overlays = textOverlays.filter(o => o.text.trim());
+    if (!activeImage || overlays.length === 0) return;
+
+    if (editingTextLayerId) {
+      updateActiveLayers(layers => layers.map(l => l.id === editingTextLayerId && l.kind === 'text' ? { ...l, overlays } : l));
+    } else {
+      handleAddLayer(createTextLayer(overlays));
+    }
+    handleCancelTextEditing();
+  };
+
+  /**
+   * Generates a brand-new image (no parent) and records how it was produced.
+   * For next scenes, the analyzed character definitions are prepended to the user's request.
+   */
+  const createGeneratedVersion = async (operation: 'generate' | 'next-scene', userPrompt: string, formatId: string): Promise<ImageVersion> => {
+    let requestPrompt = userPrompt;
+    let characterIds: Character['id'][] = [];
+
+    if (operation === 'next-scene') {
+      const analyzedCharacters = characters.filter(c => c.isAnalyzed && c.definition && c.definition !== 'Analysis failed.');
+
+      if (analyzedCharacters.length > 0) {
+          const definitions = analyzedCharacters.map(char => {
+              const characterIdentifier = char.roleName || char.name;
+              return `The character '${characterIdentifier}' is defined as: [${char.definition}].`;
+          }).join(' ');
+          requestPrompt = buildNextScenePrompt(definitions, userPrompt);
+          characterIds = analyzedCharacters.map(c => c.id);
+      }
+    }
+
+    const startedAt = Date.now();
+    const { newBase64, newMimeType, finalPrompt, model } = await generateImageWithPrompt(requestPrompt, styleProfile, getTargetFormat(formatId));
+
+    return {
+      id: crypto.randomUUID(),
+      parentId: null,
+      base64: newBase64,
+      mimeType: newMimeType,
+      provenance: {
+        operation,
+        userPrompt,
+        regionPrompts: [],
+        submissionPrompt: finalPrompt,
+        maskBase64: null,
+        characterIds,
+        model,
+        createdAt: startedAt,
+        durationMs: Date.now() - startedAt,
+        formatId,
+      },
+    };
+  };
+
+  /**
+   * Grows a version's canvas and has the model fill the new area, returning the result as its child.
+   * The parent is flattened first, so its layers become part of the new base, and the fill is added
+   * as a layer masked to the new area.
+   */
+  const createOutpaintedVersion = async (baseVersion: ImageVersion, padding: Padding, label: string, formatId?: string): Promise<ImageVersion> => {
+    const startedAt = Date.now();
+    const padded = await padImage((await getFlattenedImage(baseVersion)).base64, padding);
+    const { newBase64, finalPrompt, model } = await editImageWithPrompt(
+      { base64: padded.base64, mimeType: 'image/png' },
+      buildOutpaintTask(),
+      styleProfile,
+      [],
+      true,
+      await encodeMask(padded.maskBase64, [], DEFAULT_MASK_ENCODING)
+    );
+    const constrained = await constrainMaskedEdit(padded.base64, newBase64, padded.maskBase64, DEFAULT_MASK_COMPOSITING);
+    const paddedVersion: ImageVersion = { id: '', parentId: null, base64: padded.base64, mimeType: 'image/png' };
+
+    return {
+      id: crypto.randomUUID(),
+      parentId: baseVersion.id,
+      ...applyEditToLayers(paddedVersion, BASE_LAYER_ID, { base64: constrained.base64, mimeType: 'image/png' }, constrained.maskBase64, label),
+      provenance: {
+        operation: 'outpaint',
+        userPrompt: label,
+        regionPrompts: [],
+        submissionPrompt: finalPrompt,
+        maskBase64: padded.maskBase64,
+        characterIds: [],
+        model,
+        createdAt: startedAt,
+        durationMs: Date.now() - startedAt,
+        padding,
+        ...(formatId && { formatId }),
+      },
+    };
+  };
+
+  /**
+   * Runs an edit on a base version and returns the result as its child.
+   * Character definitions are injected for any [C1]…[Cn] tags used in the prompt.
+   * Masked edits are fitted back to the mask so nothing outside it can change.
+   */
+  const createEditedVersion = async (
+    baseVersion: ImageVersion,
+    userPrompt: string,
+    validRegionPrompts: RegionPrompt[],
+    maskBase64: string | null,
+    layerId: string,
+    compositing: MaskCompositingOptions,
+    regionMasks: RegionMask[],
+    encoding: MaskEncoding
+  ): Promise<ImageVersion> => {
+    const isMaskedEdit = maskBase64 !== null;
+    const { submissionPrompt, characterImages, characterIds } = buildEditSubmission(userPrompt, validRegionPrompts, characters, isMaskedEdit);
+    const target = getEditTarget(getLayers(baseVersion), layerId);
+
+    const startedAt = Date.now();
+    const input = await getEditInput(baseVersion, target.id);
+    const { newBase64, newMimeType, finalPrompt, model } = await editImageWithPrompt(
+      input,
+      submissionPrompt,
+      styleProfile,
+      characterImages,
+      isMaskedEdit,
+      isMaskedEdit ? await encodeMask(maskBase64, regionMasks, encoding) : null
+    );
+
+    let result = { base64: newBase64, mimeType: newMimeType };
+    let layerMask = maskBase64;
+    if (isMaskedEdit) {
+      const constrained = await constrainMaskedEdit(input.base64, newBase64, maskBase64, compositing);
+      result = { base64: constrained.base64, mimeType: 'image/png' };
+      layerMask = constrained.maskBase64;
+    }
+
+    const layerName = (validRegionPrompts.map(p => p.prompt.trim()).join(', ') || userPrompt).slice(0, 40);
+    return {
+      id: crypto.randomUUID(),
+      // Record which version this edit was made from so the history can show branches.
+      parentId: baseVersion.id,
+      ...applyEditToLayers(baseVersion, target.id, result, layerMask, layerName),
+      provenance: {
+        operation: isMaskedEdit ? 'masked-edit' : 'edit',
+        userPrompt,
+        regionPrompts: validRegionPrompts,
+        submissionPrompt: finalPrompt,
+        maskBase64,
+        characterIds,
+        model,
+        createdAt: startedAt,
+        durationMs: Date.now() - startedAt,
+        layerId: target.id,
+        ...(isMaskedEdit && { maskCompositing: compositing, maskEncoding: encoding, regionMasks }),
+      },
+    };
+  };
+
+  /**
+   * Runs a masked edit one region at a time: each pass sees the previous pass's output and gets only
+   * its own region's clean mask and task, then adds its own layer. A failed pass is recorded and
+   * skipped so the other regions still land, and can be retried later.
+   * @returns The result as a child of the base version.
+   * @throws {Error} If every pass failed.
+   */
+  const createRegionPassVersion = async (
+    baseVersion: ImageVersion,
+    tasks: { regionPrompt: RegionPrompt; maskBase64: string }[],
+    combinedMaskBase64: string | null,
+    layerId: string,
+    compositing: MaskCompositingOptions,
+    encoding: MaskEncoding
+  ): Promise<ImageVersion> => {
+    const startedAt = Date.now();
+    const setPassStatus = (index: number, status: Partial<RegionPassStatus>) =>
+      setRegionPassProgress(prev => prev && prev.map((p, i) => i === index ? { ...p, ...status } : p));
+    setRegionPassProgress(tasks.map(({ regionPrompt }) => ({ regionId: regionPrompt.id, prompt: regionPrompt.prompt.trim(), state: 'pending' })));
+
+    let current = baseVersion;
+    let targetId = layerId;
+    const passes: RegionPass[] = [];
+    const characterIds = new Set<string>();
+    let model = '';
+    for (const [index, { regionPrompt, maskBase64 }] of tasks.entries()) {
+      setPassStatus(index, { state: 'running' });
+      const passStartedAt = Date.now();
+      const prompt = regionPrompt.prompt.trim();
+      try {
+        const next = await createEditedVersion(current, `${regionPrompt.id}: ${prompt}`, [regionPrompt], maskBase64, targetId, compositing, [{ id: regionPrompt.id, maskBase64 }], encoding);
+        const added = getLayers(next).find(layer => !getLayers(current).some(l => l.id === layer.id));
+        passes.push({ regionId: regionPrompt.id, prompt, maskBase64, layerId: added?.id ?? null, submissionPrompt: next.provenance!.submissionPrompt, durationMs: Date.now() - passStartedAt });
+        next.provenance!.characterIds.forEach(id => characterIds.add(id));
+        model = next.provenance!.model;
+        current = next;
+        // The next pass edits on top of this one.
+        if (added) targetId = added.id;
+        setPassStatus(index, { state: 'done' });
+      } catch (e: any) {
+        const error = e.message || 'The edit failed.';
+        passes.push({ regionId: regionPrompt.id, prompt, maskBase64, layerId: null, submissionPrompt: '', error, durationMs: Date.now() - passStartedAt });
+        setPassStatus(index, { state: 'failed', error });
+      }
+    }
+
+    if (current === baseVersion) {
+      throw new Error(`Every region failed to edit. ${passes[passes.length - 1]?.error ?? ''}`.trim());
+    }
+    return {
+      ...current,
+      id: crypto.randomUUID(),
+      parentId: baseVersion.id,
+      provenance: {
+        operation: 'masked-edit',
+        userPrompt: tasks.map(({ regionPrompt }) => `${regionPrompt.id}: ${regionPrompt.prompt.trim()}`).join('\n'),
+        regionPrompts: tasks.map(({ regionPrompt }) => regionPrompt),
+        submissionPrompt: passes.filter(p => p.submissionPrompt).map(p => p.submissionPrompt).join('\n\n'),
+        maskBase64: combinedMaskBase64,
+        characterIds: [...characterIds],
+        model,
+        createdAt: startedAt,
+        durationMs: Date.now() - startedAt,
+        layerId,
+        maskCompositing: compositing,
+        maskEncoding: encoding,
+        passes,
+      },
+    };
+  };
+
+  const appendVersionToSet = (setId: string, newVersion: ImageVersion) => {
+    setImageSets(prev => prev.map(set =>
+      set.id === setId ? { ...set, versions: [...set.versions, newVersion] } : set
+    ));
+    setActiveSetId(setId);
+    setActiveVersionId(newVersion.id);
+  };
+
   const handleSubmitEdit = async () => {
     const activeSet = imageSets.find(s => s.id === activeSetId);
     const currentVersion = activeSet?.versions.find(v => v.id === activeVersionId);
-    if (!currentVersion) return;
+    if (!activeSet || !currentVersion) return;
 
-    let finalPrompt: string;
-    let imageToSend = currentVersion;
-    let finalMaskImage: { base64: string, mimeType: string } | null = null;
-    let characterImages: { base64: string; mimeType: string; }[] = [];
+    let userPrompt: string;
+    let validRegionPrompts: RegionPrompt[] = [];
 
     if (isMasking) {
-      const validRegionPrompts = regionPrompts.filter(p => p.prompt.trim() !== '');
+      validRegionPrompts = regionPrompts.filter(p => p.prompt.trim() !== '');
       if (validRegionPrompts.length === 0) {
         setError("Please enter a description for at least one masked region.");
         return;
@@ -256,70 +958,45 @@ const App: React.FC = () => {
         setError("Masking is enabled, but nothing has been drawn. Please draw on the image or disable masking.");
         return;
       }
-      // For masking, we send the ORIGINAL image and the MASK image.
-      imageToSend = currentVersion;
-      finalMaskImage = { base64: maskImage, mimeType: 'image/png' };
-      finalPrompt = validRegionPrompts
-        .map(p => `- **Region ${p.id}:** ${p.prompt.trim()}`)
-        .join('\n');
+      userPrompt = validRegionPrompts.map(p => `${p.id}: ${p.prompt.trim()}`).join('\n');
     } else {
        if (!prompt.trim()) return;
-       finalPrompt = prompt;
+       userPrompt = prompt;
+    }
+
+    const isRegionPassEdit = isMasking && editRegionsSeparately;
+    const passTasks = validRegionPrompts.flatMap(regionPrompt => {
+      const regionMask = regionMasks.find(m => m.id === regionPrompt.id);
+      return regionMask ? [{ regionPrompt, maskBase64: regionMask.maskBase64 }] : [];
+    });
+    if (isMasking && passTasks.length < validRegionPrompts.length) {
+      setError("The region masks are still being prepared. Please try again in a moment.");
+      return;
     }
 
     setIsLoading(true);
-    setLoadingMessage('Applying your edit...');
+    setLoadingMessage(
+      isRegionPassEdit ? 'Editing one region at a time...'
+        : variantCount > 1 ? `Generating ${variantCount} variants...` : 'Applying your edit...'
+    );
     setError(null);
     
     try {
-      let submissionPrompt = finalPrompt;
-      const usesCharacterTags = /\[C[12]\]/.test(submissionPrompt);
-
-      if (usesCharacterTags) {
-        const relevantCharacters = characters.filter(c => 
-          c.base64 && c.isAnalyzed && submissionPrompt.includes(`[C${c.id.slice(-1)}]`)
-        );
-        
-        if (relevantCharacters.length > 0) {
-            let promptParts = ["The following are character definitions for reference images provided after the main image."];
-            relevantCharacters.forEach(char => {
-                promptParts.push(`Definition for [C${char.id.slice(-1)}]: ${char.definition}`);
-            });
-            characterImages = relevantCharacters.map(char => ({ base64: char.base64!, mimeType: char.mimeType! }));
-            promptParts.push(`\nUser request: "${submissionPrompt}"`);
-            promptParts.push(`\nInstruction: Fulfill the user's request on the primary image. Use the provided character definitions and their corresponding images to replace people when tags like [C1] are mentioned. IMPORTANT: Only change the face and hair to match the reference character. Keep the original pose, clothing, expression, and lighting of the person in the primary image.`);
-            submissionPrompt = promptParts.join('\n');
-        }
+      const mask = isMasking ? maskImage : null;
+      const layerId = getEditTarget(getLayers(currentVersion), selectedLayerId).id;
+      if (isRegionPassEdit) {
+        const newVersion = await createRegionPassVersion(currentVersion, passTasks, mask, layerId, maskCompositing, maskEncoding);
+        appendVersionToSet(activeSet.id, newVersion);
+      } else if (variantCount > 1) {
+        const run = await runVariants(variantCount, () => createEditedVersion(currentVersion, userPrompt, validRegionPrompts, mask, layerId, maskCompositing, regionMasks, maskEncoding));
+        setPendingVariants({ setId: activeSet.id, candidates: run.variants });
+        setError(describeVariantFailures(run, variantCount));
+      } else {
+        const newVersion = await createEditedVersion(currentVersion, userPrompt, validRegionPrompts, mask, layerId, maskCompositing, regionMasks, maskEncoding);
+        appendVersionToSet(activeSet.id, newVersion);
       }
-      
-      if (!isMasking) {
-        const isTextOverlayPrompt = /add text overlay|add the text/i.test(submissionPrompt);
-        if (isTextOverlayPrompt) {
-          submissionPrompt += "\n\nIMPORTANT INSTRUCTION: When adding the text as requested, you MUST ensure it does not cover or obscure the faces or bodies of any people in the image. If necessary, intelligently adjust the image composition, for example by slightly shifting or scaling the subjects or extending the background, to create a clean, non-obtrusive space for the text. The overall scene, characters' expressions, and poses must be preserved.";
-        }
-      }
-
-      const { newBase64, newMimeType } = await editImageWithPrompt(
-        { base64: imageToSend.base64, mimeType: imageToSend.mimeType },
-        submissionPrompt,
-        characterImages,
-        isMasking,
-        finalMaskImage
-      );
-
-      const newVersion: ImageVersion = { id: crypto.randomUUID(), base64: newBase64, mimeType: newMimeType };
-      
-      const newImageSets = imageSets.map(set => {
-        if (set.id === activeSetId) {
-          return { ...set, versions: [...set.versions, newVersion] };
-        }
-        return set;
-      });
-
-      setImageSets(newImageSets);
-      setActiveVersionId(newVersion.id);
       setPrompt('');
-      setRegionPrompts([]);
+      clearMaskRegions();
       setIsMasking(false); 
       setCompositeImage(null);
       setMaskImage(null);
@@ -329,10 +1006,101 @@ const App: React.FC = () => {
       setError(e.message || 'An unknown error occurred.');
     } finally {
       setIsLoading(false);
+      setRegionPassProgress(null);
     }
   };
 
-  const handleGenerateNextScene = async (newScenePrompt: string) => {
+  // Shows the edit's prompt as it would be sent now, with the mask's regions described.
+  const handlePreviewEditPrompt = async () => {
+    const validRegionPrompts = isMasking ? regionPrompts.filter(p => p.prompt.trim() !== '') : [];
+    const { submissionPrompt } = buildEditSubmission(prompt, validRegionPrompts, characters, isMasking);
+    try {
+      const mask = isMasking && maskImage ? await encodeMask(maskImage, regionMasks, maskEncoding) : null;
+      setPreviewPrompt(buildEditPrompt(submissionPrompt, mask, styleProfile));
+    } catch (e: any) {
+      setError(e.message || 'Could not assemble the prompt.');
+    }
+  };
+
+  /**
+   * Redoes one region of a one-region-at-a-time edit, as a sibling of the version it came from.
+   * The retry doesn't see the region's previous attempt, and replaces it in place.
+   */
+  const handleRetryRegionPass = async (passIndex: number) => {
+    const activeSet = imageSets.find(s => s.id === activeSetId);
+    const version = activeSet?.versions.find(v => v.id === activeVersionId);
+    const provenance = version?.provenance;
+    const pass = provenance?.passes?.[passIndex];
+    if (!activeSet || !version || !provenance?.passes || !pass || isLoading) return;
+
+    setIsLoading(true);
+    setLoadingMessage(`Retrying region ${pass.regionId}...`);
+    setError(null);
+    setRegionPassProgress(provenance.passes.map((p, i) => ({
+      regionId: p.regionId,
+      prompt: p.prompt,
+      state: i === passIndex ? 'running' : p.layerId ? 'done' : 'failed',
+      error: i === passIndex ? undefined : p.error,
+    })));
+
+    try {
+      const layers = getLayers(version);
+      const previousAttempt = layers.find(l => l.id === pass.layerId);
+      const inputVersion = previousAttempt ? { ...version, layers: removeLayer(layers, previousAttempt.id) } : version;
+      // Edit on top of the other passes, like the original run did.
+      const otherPassLayers = provenance.passes
+        .filter((p, i) => i !== passIndex && p.layerId && getLayers(inputVersion).some(l => l.id === p.layerId))
+        .map(p => p.layerId!);
+      const targetId = otherPassLayers[otherPassLayers.length - 1] ?? provenance.layerId ?? BASE_LAYER_ID;
+
+      const startedAt = Date.now();
+      const regionPrompt = { id: pass.regionId, prompt: pass.prompt };
+      const next = await createEditedVersion(inputVersion, `${pass.regionId}: ${pass.prompt}`, [regionPrompt], pass.maskBase64, targetId, provenance.maskCompositing ?? DEFAULT_MASK_COMPOSITING, [{ id: pass.regionId, maskBase64: pass.maskBase64 }], provenance.maskEncoding ?? DEFAULT_MASK_ENCODING);
+      const added = getLayers(next).find(layer => !getLayers(inputVersion).some(l => l.id === layer.id));
+      if (!added || added.kind !== 'image') throw new Error("The retry didn't produce an edit layer.");
+
+      const newLayers = previousAttempt
+        ? layers.map(l => l.id === previousAttempt.id ? { ...l, base64: added.base64, mimeType: added.mimeType, maskBase64: added.maskBase64 } as Layer : l)
+        : getLayers(next);
+      const { error: _error, ...retriedPass } = pass;
+      const passes = provenance.passes.map((p, i) => i === passIndex
+        ? { ...retriedPass, layerId: previousAttempt?.id ?? added.id, submissionPrompt: next.provenance!.submissionPrompt, durationMs: Date.now() - startedAt }
+        : p);
+      appendVersionToSet(activeSet.id, {
+        ...version,
+        id: crypto.randomUUID(),
+        // A retry is another take on the same edit, so it sits next to the version it came from.
+        parentId: version.parentId,
+        layers: newLayers,
+        provenance: { ...provenance, createdAt: startedAt, durationMs: Date.now() - startedAt, passes },
+      });
+    } catch (e: any) {
+      setError(e.message || 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+      setRegionPassProgress(null);
+    }
+  };
+
+  const handleOutpaint = async (padding: Padding, label: string, formatId?: string) => {
+    const activeSet = imageSets.find(s => s.id === activeSetId);
+    const currentVersion = activeSet?.versions.find(v => v.id === activeVersionId);
+    if (!activeSet || !currentVersion || isLoading) return;
+
+    setIsLoading(true);
+    setLoadingMessage('Extending the image...');
+    setError(null);
+    setTextSuggestions([]);
+    try {
+      appendVersionToSet(activeSet.id, await createOutpaintedVersion(currentVersion, padding, label, formatId));
+    } catch (e: any) {
+      setError(e.message || 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerateNextScene = async (newScenePrompt: string, formatId: string) => {
     if (!newScenePrompt.trim() || !activeSetId) return;
 
     setIsLoading(true);
@@ -352,20 +1120,7 @@ const App: React.FC = () => {
     const newSceneName = `Scene ${sceneCount + 1}`;
 
     try {
-        let finalPrompt = newScenePrompt;
-        const analyzedCharacters = characters.filter(c => c.isAnalyzed && c.definition && c.definition !== 'Analysis failed.');
-        
-        if (analyzedCharacters.length > 0) {
-            const definitions = analyzedCharacters.map(char => {
-                const characterIdentifier = char.roleName || char.name;
-                return `The character '${characterIdentifier}' is defined as: [${char.definition}].`;
-            }).join(' ');
-            finalPrompt = `${definitions} The setting and background should be consistent with the previous scene unless otherwise specified. \n\nUser request: "${newScenePrompt}"`;
-        }
-        
-        const { newBase64, newMimeType } = await generateImageWithPrompt(finalPrompt);
-        
-        const newVersion: ImageVersion = { id: crypto.randomUUID(), base64: newBase64, mimeType: newMimeType };
+        const newVersion = await createGeneratedVersion('next-scene', newScenePrompt, formatId);
         const newSet: ImageSet = {
           id: crypto.randomUUID(),
           name: newSceneName,
@@ -386,12 +1141,102 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCommitVariants = (selected: ImageVersion[]) => {
+    if (!pendingVariants || selected.length === 0) return;
+    const { setId } = pendingVariants;
+
+    if (setId) {
+      setImageSets(prev => prev.map(set =>
+        set.id === setId ? { ...set, versions: [...set.versions, ...selected] } : set
+      ));
+      setActiveSetId(setId);
+    } else {
+      const newSet: ImageSet = {
+        id: crypto.randomUUID(),
+        name: `Image ${imageSets.length + 1}`,
+        versions: selected
+      };
+      setImageSets(prev => [...prev, newSet]);
+      setActiveSetId(newSet.id);
+    }
+    setActiveVersionId(selected[selected.length - 1].id);
+    setPendingVariants(null);
+  };
+
+  /** Opens the compare view on a version and the one it was made from, or the one before it if it has no parent. */
+  const handleCompareVersion = (setId: string, versionId: string) => {
+    const set = imageSets.find(s => s.id === setId);
+    const index = set ? set.versions.findIndex(v => v.id === versionId) : -1;
+    if (!set || index === -1) return;
+    const version = set.versions[index];
+    const parent = set.versions.find(v => v.id === version.parentId) ?? set.versions[index - 1] ?? version;
+    setCompareTarget({ beforeId: parent.id, afterId: version.id });
+  };
+
+  const handleRerunVersion = async (setId: string, versionId: string) => {
+    const set = imageSets.find(s => s.id === setId);
+    const version = set?.versions.find(v => v.id === versionId);
+    const provenance = version?.provenance;
+    if (!set || !version || !provenance || isLoading) return;
+
+    let baseVersion: ImageVersion | undefined;
+    if (provenance.operation === 'edit' || provenance.operation === 'masked-edit' || provenance.operation === 'text-overlay' || provenance.operation === 'outpaint') {
+      baseVersion = set.versions.find(v => v.id === version.parentId);
+      if (!baseVersion) {
+        setError("The version this edit was made from has been deleted, so it can't be re-run.");
+        return;
+      }
+    }
+
+    if (provenance.operation === 'text-overlay') {
+      // Text is rendered locally, so instead of re-running, reopen the same overlays on the parent for tweaking.
+      setDetailsTarget(null);
+      setActiveSetId(set.id);
+      setActiveVersionId(baseVersion!.id);
+      openTextEditor((provenance.textOverlays ?? []).map(o => ({ ...o, id: crypto.randomUUID() })), null);
+      return;
+    }
+
+    setDetailsTarget(null);
+    setIsLoading(true);
+    setLoadingMessage('Re-running with the same settings...');
+    setError(null);
+    setTextSuggestions([]);
+
+    try {
+      // Edits re-run on the same parent, producing a sibling; generations add a new root to the same set.
+      const compositing = provenance.maskCompositing ?? DEFAULT_MASK_COMPOSITING;
+      const layerId = provenance.layerId ?? BASE_LAYER_ID;
+      const encoding = provenance.maskEncoding ?? DEFAULT_MASK_ENCODING;
+      let newVersion: ImageVersion;
+      if (baseVersion && provenance.operation === 'outpaint') {
+        newVersion = await createOutpaintedVersion(baseVersion, provenance.padding!, provenance.userPrompt, provenance.formatId);
+      } else if (baseVersion && provenance.passes) {
+        const tasks = provenance.passes.map(p => ({ regionPrompt: { id: p.regionId, prompt: p.prompt }, maskBase64: p.maskBase64 }));
+        newVersion = await createRegionPassVersion(baseVersion, tasks, provenance.maskBase64, layerId, compositing, encoding);
+      } else if (baseVersion) {
+        newVersion = await createEditedVersion(baseVersion, provenance.userPrompt, provenance.regionPrompts, provenance.maskBase64, layerId, compositing, provenance.regionMasks ?? [], encoding);
+      } else {
+        newVersion = await createGeneratedVersion(provenance.operation as 'generate' | 'next-scene', provenance.userPrompt, provenance.formatId ?? DEFAULT_TARGET_FORMAT_ID);
+      }
+      appendVersionToSet(set.id, newVersion);
+    } catch (e: any) {
+      setError(e.message || 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
 
   const handleDeleteVersion = (setId: string, versionId: string) => {
     setImageSets(prevSets => {
       const newSets = prevSets.map(set => {
         if (set.id === setId) {
-          const newVersions = set.versions.filter(v => v.id !== versionId);
+          const deletedVersion = set.versions.find(v => v.id === versionId);
+          // Re-attach children of the deleted version to its parent so the lineage stays connected.
+          const newVersions = set.versions
+            .filter(v => v.id !== versionId)
+            .map(v => v.parentId === versionId ? { ...v, parentId: deletedVersion?.parentId ?? null } : v);
           if (newVersions.length === 0) {
             return null; // This set will be filtered out
           }
@@ -423,32 +1268,43 @@ const App: React.FC = () => {
     }
   };
   
-  const handleDownloadVersion = (version: ImageVersion) => {
-    const link = document.createElement('a');
-    link.href = version.base64;
-    link.download = `thumbnail_version_${version.id.substring(0, 6)}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleDownloadVersion = async (version: ImageVersion) => {
+    try {
+      // Layers are only flattened here, at export time.
+      setExportTarget({ ...version, ...await getFlattenedImage(version), layers: undefined });
+    } catch (e: any) {
+      setError(e.message || 'Failed to flatten the layers for export.');
+    }
   };
   
   const handleNewThumbnail = () => {
     setActiveSetId(null);
     setActiveVersionId(null);
-    setPrompt('');
-    setError(null);
-    setTextSuggestions([]);
-    setCharacters(initialCharactersState);
-    setShowNewVersionGenerator(false);
-    setIsMasking(false);
-    setCompositeImage(null);
-    setMaskImage(null);
-    setRegionPrompts([]);
+    setCharacters(createInitialCharacters());
+    resetEditingState();
   };
 
   const activeSet = imageSets.find(s => s.id === activeSetId);
   const activeImage = activeSet?.versions.find(v => v.id === activeVersionId);
+  const activeImageSize = useImageSize(activeImage?.base64);
+  const detailsSet = imageSets.find(s => s.id === detailsTarget?.setId);
+  const detailsVersionIndex = detailsSet ? detailsSet.versions.findIndex(v => v.id === detailsTarget?.versionId) : -1;
   const toAnalyzeCount = characters.filter(c => c.base64 && !c.isAnalyzed).length;
+  const activeLayers = useMemo(() => activeImage ? getLayers(activeImage) : [], [activeImage]);
+  const editTargetId = activeImage ? getEditTarget(activeLayers, selectedLayerId).id : BASE_LAYER_ID;
+
+  useEffect(() => {
+    // Mask over what the model will actually see, which may include AI edit layers.
+    if (!isMasking || !activeImage) {
+      setMaskSource(null);
+      return;
+    }
+    let isCancelled = false;
+    getEditInput(activeImage, editTargetId)
+      .then(input => { if (!isCancelled) setMaskSource(input.base64); })
+      .catch((e: any) => setError(e.message || 'Failed to prepare the layer for masking.'));
+    return () => { isCancelled = true; };
+  }, [isMasking, activeImage, editTargetId]);
 
   return (
     <div className="min-h-screen text-white flex flex-col">
@@ -457,6 +1313,14 @@ const App: React.FC = () => {
         onNewThumbnail={handleNewThumbnail}
         showNewButton={!!activeImage}
         onOpenApiKeyManager={() => setIsApiKeyManagerOpen(true)}
+        projects={projects}
+        currentProjectId={currentProjectId}
+        onSelectProject={handleSelectProject}
+        onCreateProject={handleCreateProject}
+        onRenameProject={handleRenameProject}
+        onDeleteProject={handleDeleteProject}
+        onExportProject={handleExportProject}
+        onImportProject={handleImportProject}
       />
       <ApiKeyManager
         isOpen={isApiKeyManagerOpen}
@@ -464,6 +1328,55 @@ const App: React.FC = () => {
         keys={apiKeys}
         onAddKey={handleAddKey}
         onDeleteKey={handleDeleteKey}
+        onRenameKey={handleRenameKey}
+        onValidateKey={handleValidateKey}
+        onRefresh={refreshApiKeys}
+      />
+      <CharacterLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        entries={libraryCharacters}
+        onUse={handleUseLibraryCharacter}
+        onSave={handleSaveLibraryEntry}
+        onDelete={handleDeleteLibraryEntry}
+      />
+      <VariantPicker
+        candidates={pendingVariants?.candidates ?? []}
+        onCommit={handleCommitVariants}
+        onDiscard={() => setPendingVariants(null)}
+      />
+      <VersionDetails
+        version={detailsSet && detailsVersionIndex !== -1 ? detailsSet.versions[detailsVersionIndex] : null}
+        label={`${detailsSet?.name} - V${detailsVersionIndex + 1}`}
+        characters={characters}
+        isLoading={isLoading}
+        onClose={() => setDetailsTarget(null)}
+        onRerun={() => detailsTarget && handleRerunVersion(detailsTarget.setId, detailsTarget.versionId)}
+      />
+      <PromptLibrary
+        isOpen={isPromptLibraryOpen}
+        onClose={() => setIsPromptLibraryOpen(false)}
+        library={promptLibrary}
+        onChange={handlePromptLibraryChange}
+      />
+      <PromptPreview prompt={previewPrompt} onClose={() => setPreviewPrompt(null)} />
+      <StyleProfileManager
+        isOpen={isStyleManagerOpen}
+        onClose={() => setIsStyleManagerOpen(false)}
+        profiles={styleProfiles}
+        activeId={styleProfile.id}
+        onSave={handleSaveStyleProfile}
+        onDelete={handleDeleteStyleProfile}
+      />
+      <CompareView
+        imageSets={imageSets}
+        target={compareTarget}
+        onClose={() => setCompareTarget(null)}
+      />
+      <ExportDialog
+        version={exportTarget}
+        fileName={`thumbnail_version_${exportTarget?.id.substring(0, 6)}`}
+        onClose={() => setExportTarget(null)}
       />
       <main className="flex-grow pt-20 flex">
         <div className="flex-1 flex flex-col items-center px-4 overflow-y-auto pb-8">
@@ -479,47 +1392,147 @@ const App: React.FC = () => {
 
           {activeImage ? (
             <div className="w-full max-w-4xl mx-auto">
-              <div className="relative aspect-[16/9] w-full bg-gray-900 rounded-lg overflow-hidden shadow-2xl">
-                <img src={isMasking && compositeImage ? compositeImage : activeImage.base64} alt="Active thumbnail" className="w-full h-full object-contain" />
-                {isLoading && <Spinner message={loadingMessage} />}
+              <ZoomableStage
+                imageSrc={activeImage.base64}
+                className="relative mx-auto bg-gray-900 rounded-lg overflow-hidden shadow-2xl"
+                overlay={isLoading && <Spinner message={loadingMessage} />}
+              >
+                {isMasking && compositeImage ? (
+                  <img src={compositeImage} alt="Active thumbnail with mask" className="w-full h-full object-contain" />
+                ) : (
+                  <LayerCanvas
+                    baseSrc={activeImage.base64}
+                    layers={activeLayers}
+                    skipLayerId={isEditingText ? editingTextLayerId : null}
+                    selectedId={selectedLayerId}
+                    isEnabled={!isMasking && !isEditingText}
+                    onSelect={setSelectedLayerId}
+                    onChange={handleLayerChange}
+                  />
+                )}
                 <MaskingCanvas 
-                  imageSrc={activeImage.base64}
+                  imageSrc={isMasking && maskSource ? maskSource : activeImage.base64}
                   isEnabled={isMasking}
+                  tool={maskTool}
                   brushSize={brushSize}
+                  fillClosedPaths={fillClosedPaths}
+                  newRegionFeather={newRegionFeather}
+                  regions={maskRegions}
+                  target={regionTarget}
+                  onRegionsChange={handleMaskRegionsChange}
                   onCompositeImageChange={setCompositeImage}
                   onMaskImageChange={setMaskImage}
-                  onHistoryChange={({ canUndo, canRedo }) => { setCanUndo(canUndo); setCanRedo(canRedo); }}
-                  onRegionsChange={handleRegionsChange}
-                  undoTrigger={undoTrigger}
-                  redoTrigger={redoTrigger}
-                  clearTrigger={clearTrigger}
+                  onRegionMasksChange={setRegionMasks}
                 />
-              </div>
-              <MaskingToolbar 
-                isMasking={isMasking}
-                onToggleMasking={handleToggleMasking}
-                brushSize={brushSize}
-                onBrushSizeChange={setBrushSize}
-                onUndo={() => setUndoTrigger(c => c + 1)}
-                onRedo={() => setRedoTrigger(c => c + 1)}
-                onClear={() => setClearTrigger(c => c + 1)}
-                canUndo={canUndo}
-                canRedo={canRedo}
-              />
-              <EditControls
-                prompt={prompt}
-                setPrompt={setPrompt}
-                regionPrompts={regionPrompts}
-                onRegionPromptChange={handleRegionPromptChange}
-                onSubmit={handleSubmitEdit}
-                isLoading={isLoading}
-                isMasking={isMasking}
-              />
+                <TextOverlayCanvas
+                  imageSrc={activeImage.base64}
+                  isEnabled={isEditingText}
+                  overlays={textOverlays}
+                  selectedId={selectedOverlayId}
+                  onSelect={setSelectedOverlayId}
+                  onChange={handleTextOverlayChange}
+                />
+              </ZoomableStage>
+              {isEditingText ? (
+                <TextOverlayPanel
+                  overlays={textOverlays}
+                  selectedId={selectedOverlayId}
+                  onSelect={setSelectedOverlayId}
+                  onChange={handleTextOverlayChange}
+                  onAdd={handleAddTextOverlay}
+                  onDelete={handleDeleteTextOverlay}
+                  onApply={handleApplyTextOverlays}
+                  onCancel={handleCancelTextEditing}
+                  isLoading={isLoading}
+                />
+) : (
+                <>
+                  <LayerPanel
+                    layers={activeLayers}
+                    selectedId={selectedLayerId}
+                    editTargetId={editTargetId}
+                    onSelect={setSelectedLayerId}
+                    onChange={handleLayerChange}
+                    onMove={handleMoveLayer}
+                    onDelete={handleDeleteLayer}
+                    onAddText={handleAddTextOverlay}
+                    onEditText={handleEditTextLayer}
+                    onAddSticker={(shape: StickerShape) => handleAddLayer(createStickerLayer(shape))}
+                    onAddColor={() => handleAddLayer(createColorLayer())}
+                  />
+                  {!isMasking && (
+                    <OutpaintPanel imageSize={activeImageSize} onOutpaint={handleOutpaint} disabled={isLoading} />
+                  )}
+                  {(regionPassProgress || (!isMasking && activeImage.provenance?.passes)) && (
+                    <RegionPassPanel
+                      passes={regionPassProgress ?? activeImage.provenance!.passes!.map(p => ({
+                        regionId: p.regionId,
+                        prompt: p.prompt,
+                        state: p.layerId ? 'done' : 'failed',
+                        error: p.error,
+                      }))}
+                      onRetry={regionPassProgress ? undefined : handleRetryRegionPass}
+                      disabled={isLoading}
+                    />
+                  )}
+                  <MaskingToolbar 
+                    isMasking={isMasking}
+                    onToggleMasking={handleToggleMasking}
+                    brushSize={brushSize}
+                    tool={maskTool}
+                    onToolChange={setMaskTool}
+                    onBrushSizeChange={setBrushSize}
+                    fillClosedPaths={fillClosedPaths}
+                    onFillClosedPathsChange={setFillClosedPaths}
+                    newRegionFeather={newRegionFeather}
+                    onNewRegionFeatherChange={setNewRegionFeather}
+                    maskCompositing={maskCompositing}
+                    onMaskCompositingChange={setMaskCompositing}
+                    onUndo={() => setMaskHistory(undoHistory)}
+                    onRedo={() => setMaskHistory(redoHistory)}
+                    onClear={() => setMaskHistory(EMPTY_MASK_HISTORY)}
+                    canUndo={canUndoHistory(maskHistory)}
+                    canRedo={canRedoHistory(maskHistory)}
+                    onAddText={handleAddTextOverlay}
+                  />
+                  {isMasking && (
+                    <MaskRegionPanel
+                      regions={maskRegions}
+                      regionPrompts={regionPrompts}
+                      target={regionTarget}
+                      onTargetChange={setRegionTarget}
+                      onMerge={handleMergeRegions}
+                      onDelete={(key) => updateMaskRegions(regions => deleteRegion(regions, key))}
+                      onMove={(key, direction) => updateMaskRegions(regions => moveRegion(regions, key, direction))}
+                      onFeatherChange={(key, feather) => updateMaskRegions(regions => setRegionFeather(regions, key, feather))}
+                      editSeparately={editRegionsSeparately}
+                      onEditSeparatelyChange={setEditRegionsSeparately}
+                      maskEncoding={maskEncoding}
+                      onMaskEncodingChange={setMaskEncoding}
+                      disabled={isLoading}
+                    />
+                  )}
+                  <EditControls
+                    prompt={prompt}
+                    setPrompt={setPrompt}
+                    regionPrompts={regionPrompts}
+                    onRegionPromptChange={handleRegionPromptChange}
+                    onSubmit={handleSubmitEdit}
+                    isLoading={isLoading}
+                    isMasking={isMasking}
+                    variantCount={variantCount}
+                    onVariantCountChange={setVariantCount}
+                    presets={promptLibrary.presets}
+                    onPreviewPrompt={handlePreviewEditPrompt}
+                  />
+                </>
+              )}
               <SuggestionBox
                 suggestions={textSuggestions}
                 isLoading={isSuggesting}
-                onSelectSuggestion={(suggestion) => setPrompt(suggestion)}
-                selectedSuggestion={prompt}
+                onSelectSuggestion={(suggestion) => setPrompt(suggestionToPrompt(suggestion))}
+                selectedSuggestion={textSuggestions.find(suggestion => suggestionToPrompt(suggestion) === prompt)}
+                onPlaceSuggestion={handlePlaceSuggestion}
               />
                <VersionHistory
                   imageSets={imageSets}
@@ -528,6 +1541,8 @@ const App: React.FC = () => {
                   onDeleteSet={handleDeleteSet}
                   onDeleteVersion={handleDeleteVersion}
                   onDownloadVersion={handleDownloadVersion}
+                  onShowDetails={(setId, versionId) => setDetailsTarget({ setId, versionId })}
+                  onCompare={handleCompareVersion}
               />
             </div>
           ) : (
@@ -539,9 +1554,14 @@ const App: React.FC = () => {
               onCharacterUpload={handleCharacterUpload}
               onAnalyzeCharacters={handleAnalyzeCharacters}
               onSetCharacterDefinition={handleSetCharacterDefinition}
+              onEnsureCharacterSlots={handleEnsureCharacterSlots}
+              onSaveCharacterToLibrary={handleSaveCharacterToLibrary}
+              onOpenCharacterLibrary={handleOpenLibrary}
               isAnalyzing={isAnalyzing}
               analyzeCount={toAnalyzeCount}
               setError={setError}
+              presets={promptLibrary.presets}
+              styleProfile={styleProfile}
             />
           )}
         </div>
@@ -585,8 +1605,42 @@ const App: React.FC = () => {
                 onAnalyze={handleAnalyzeCharacters}
                 isAnalyzing={isAnalyzing}
                 analyzeCount={toAnalyzeCount}
+                onAdd={handleAddCharacter}
+                onRemove={handleRemoveCharacter}
+                onSaveToLibrary={handleSaveCharacterToLibrary}
+                onOpenLibrary={handleOpenLibrary}
             />
 
+            <div className="mt-6 bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-400 mb-3 uppercase tracking-wider">Channel Style</h3>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={styleProfile.id}
+                  onChange={(e) => setStyleProfileId(e.target.value)}
+                  className="flex-grow bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  aria-label="Channel style for this project"
+                >
+                  {styleProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <button onClick={() => setIsStyleManagerOpen(true)} className="text-sm text-blue-400 hover:text-blue-300 px-2">
+                  Manage
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <ModelSettings selection={modelSelection} onChange={handleModelChoiceChange} />
+            </div>
+
+            <div className="mt-4">
+              <button
+                onClick={() => setIsPromptLibraryOpen(true)}
+                className="w-full bg-gray-800/50 hover:bg-gray-700 text-gray-200 font-semibold px-4 py-2 rounded-lg transition-colors text-sm"
+              >
+                Prompt Library
+              </button>
+            </div>
+
             {activeImage && (
                 <div className="mt-8 border-t border-gray-700 pt-6">
                     <button
@@ -601,6 +1655,7 @@ const App: React.FC = () => {
                     {showNewVersionGenerator && (
                         <NextSceneGenerator
                             onSubmit={handleGenerateNextScene}
+                            defaultFormatId={activeImage?.provenance?.formatId ?? (activeImageSize ? findClosestFormat(activeImageSize.width, activeImageSize.height).id : DEFAULT_TARGET_FORMAT_ID)}
                             isLoading={isLoading}
                             onCancel={() => setShowNewVersionGenerator(false)}
                         />
@@ -1,20 +1,74 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { ApiKeyStats, KeyHealth, KeyOutcome } from '../services/apiKeyManager';
 
 interface ApiKeyManagerProps {
   isOpen: boolean;
   onClose: () => void;
-  keys: string[];
-  onAddKey: (key: string) => void;
+  keys: ApiKeyStats[];
+  onAddKey: (key: string, label: string) => void;
   onDeleteKey: (key: string) => void;
+  onRenameKey: (key: string, label: string) => void;
+  onValidateKey: (key: string) => Promise<{ outcome: KeyOutcome; message: string }>;
+  onRefresh: () => void; // Re-reads the stats, which change with every request
 }
 
+const REFRESH_INTERVAL_MS = 1000;
+
+const HEALTH_LABELS: Record<KeyHealth, string> = {
+  'unused': 'Not used yet',
+  'healthy': 'Healthy',
+  'cooling-down': 'Cooling down',
+  'invalid': 'Invalid key',
+  'failing': 'Last request failed',
+};
+
+const HEALTH_DOTS: Record<KeyHealth, string> = {
+  'unused': 'bg-gray-500',
+  'healthy': 'bg-green-500',
+  'cooling-down': 'bg-yellow-400',
+  'invalid': 'bg-red-500',
+  'failing': 'bg-orange-500',
+};
+
 const maskKey = (key: string) => {
   if (key.length < 10) return '***';
   return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
 };
 
-const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ isOpen, onClose, keys, onAddKey, onDeleteKey }) => {
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatAgo = (time: number, now: number) => {
+  const seconds = Math.max(0, Math.round((now - time) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(time).toLocaleDateString();
+};
+
+/**
+ * Lists the API keys with their health, cooldown and usage, and adds, labels, checks and deletes them.
+ */
+const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ isOpen, onClose, keys, onAddKey, onDeleteKey, onRenameKey, onValidateKey, onRefresh }) => {
   const [newKey, setNewKey] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [renaming, setRenaming] = useState<{ key: string; label: string } | null>(null);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [checkResults, setCheckResults] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
+
+  // Keep countdowns and counters live while open, as requests can run in the background.
+  useEffect(() => {
+    if (!isOpen) return;
+    onRefresh();
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      onRefresh();
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, onRefresh]);
 
   if (!isOpen) {
     return null;
@@ -22,29 +76,57 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ isOpen, onClose, keys, on
 
   const handleAddClick = () => {
     if (newKey.trim()) {
-      onAddKey(newKey.trim());
+      onAddKey(newKey.trim(), newLabel.trim());
       setNewKey('');
+      setNewLabel('');
     }
   };
 
+  const handleRename = () => {
+    if (!renaming) return;
+    onRenameKey(renaming.key, renaming.label);
+    setRenaming(null);
+  };
+
+  const handleValidate = async (key: string) => {
+    setChecking(key);
+    try {
+      const result = await onValidateKey(key);
+      setCheckResults(prev => ({ ...prev, [key]: result.outcome === 'ok' ? result.message : `Check failed: ${result.message}` }));
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const countByHealth = (health: KeyHealth) => keys.filter(k => k.health === health).length;
+  const usableCount = keys.length - countByHealth('cooling-down') - countByHealth('invalid');
+
   return (
-    <div 
+    <div
         className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
         onClick={onClose}
         role="dialog"
         aria-modal="true"
         aria-labelledby="api-key-manager-title"
     >
-      <div 
-        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-md p-6 border border-gray-700"
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl p-6 border border-gray-700"
         onClick={e => e.stopPropagation()}
       >
         <h2 id="api-key-manager-title" className="text-2xl font-bold text-white mb-2">API Key Manager</h2>
         <p className="text-sm text-gray-400 mb-6">
-          Add one or more Gemini API keys. The app will automatically rotate between them if one reaches its rate limit.
+          Add one or more Gemini API keys. The app will automatically rotate between them, and a key that reaches its rate limit
+          rests for as long as the API asks, or for longer each time it's limited again.
         </p>
 
-        <div className="flex space-x-2 mb-6">
+        <div className="flex space-x-2 mb-4">
+          <input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Label (optional)"
+            className="w-40 bg-gray-900 border border-gray-600 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            aria-label="New key label"
+          />
           <input
             type="password"
             value={newKey}
@@ -61,20 +143,73 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ isOpen, onClose, keys, on
             Add Key
           </button>
         </div>
-        
-        <div className="space-y-2 max-h-60 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+
+        {keys.length > 0 && (
+          <p className="text-xs text-gray-400 mb-2">
+            {keys.length} {keys.length === 1 ? 'key' : 'keys'}, {usableCount} ready to use
+            {countByHealth('cooling-down') > 0 && `, ${countByHealth('cooling-down')} cooling down`}
+            {countByHealth('invalid') > 0 && `, ${countByHealth('invalid')} invalid`}
+          </p>
+        )}
+
+        <div className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
             {keys.length === 0 ? (
                 <p className="text-center text-gray-500 text-sm py-4">No API keys added yet.</p>
             ) : (
-                keys.map((key) => (
-                    <div key={key} className="flex justify-between items-center bg-gray-700/50 p-2 rounded-md">
-                        <span className="font-mono text-sm text-gray-300">{maskKey(key)}</span>
-                        <button
-                            onClick={() => onDeleteKey(key)}
-                            className="text-red-400 hover:text-red-300 font-semibold text-xs px-2 py-1 rounded hover:bg-red-900/50 transition-colors"
-                        >
-                            Delete
-                        </button>
+                keys.map((stats) => (
+                    <div key={stats.key} className="bg-gray-700/50 p-2 rounded-md space-y-1">
+                        <div className="flex items-center space-x-2">
+                            <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${HEALTH_DOTS[stats.health]}`} aria-hidden="true" />
+                            {renaming?.key === stats.key ? (
+                                <input
+                                    autoFocus
+                                    value={renaming.label}
+                                    onChange={(e) => setRenaming({ ...renaming, label: e.target.value })}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setRenaming(null); }}
+                                    onBlur={handleRename}
+                                    className="flex-grow min-w-0 bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-0.5 text-sm"
+                                    aria-label="Key label"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => setRenaming({ key: stats.key, label: stats.label })}
+                                    className="flex-grow min-w-0 text-left truncate text-sm text-white hover:text-blue-300"
+                                    title="Rename"
+                                >
+                                    {stats.label || <span className="text-gray-400 italic">Unlabeled</span>}
+                                </button>
+                            )}
+                            <span className="font-mono text-xs text-gray-400 flex-shrink-0">{maskKey(stats.key)}</span>
+                            <button
+                                onClick={() => handleValidate(stats.key)}
+                                disabled={checking !== null}
+                                className="text-blue-400 hover:text-blue-300 font-semibold text-xs px-2 py-1 rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+                            >
+                                {checking === stats.key ? 'Checking...' : 'Check'}
+                            </button>
+                            <button
+                                onClick={() => onDeleteKey(stats.key)}
+                                className="text-red-400 hover:text-red-300 font-semibold text-xs px-2 py-1 rounded hover:bg-red-900/50 transition-colors"
+                            >
+                                Delete
+                            </button>
+                        </div>
+                        <div className="flex flex-wrap gap-x-3 text-xs text-gray-400 pl-4">
+                            <span className="text-gray-200">
+                                {HEALTH_LABELS[stats.health]}
+                                {stats.health === 'cooling-down' && ` · ${formatWait(stats.cooldownUntil - now)} left`}
+                            </span>
+                            <span>{stats.requests} {stats.requests === 1 ? 'request' : 'requests'}, {stats.failures} failed</span>
+                            {stats.lastUsedAt && <span>Last used {formatAgo(stats.lastUsedAt, now)}</span>}
+                        </div>
+                        {stats.lastError && stats.health !== 'healthy' && (
+                            <p className="text-xs text-red-300 pl-4 truncate" title={stats.lastError}>
+                                {stats.lastErrorAt && `${formatAgo(stats.lastErrorAt, now)}: `}{stats.lastError}
+                            </p>
+                        )}
+                        {checkResults[stats.key] && checking !== stats.key && (
+                            <p className="text-xs text-gray-300 pl-4 truncate" title={checkResults[stats.key]}>{checkResults[stats.key]}</p>
+                        )}
                     </div>
                 ))
             )}
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { LibraryCharacter, ReferencePhoto } from '../types';
+
+interface CharacterLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: LibraryCharacter[];
+  onUse: (entry: LibraryCharacter) => void;
+  onSave: (entry: LibraryCharacter) => void;
+  onDelete: (id: string) => void;
+}
+
+const readPhoto = (file: File): Promise<ReferencePhoto> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve({ base64: reader.result as string, mimeType: file.type });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const parseTags = (value: string): string[] =>
+  [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+const LibraryEntryCard: React.FC<{
+  entry: LibraryCharacter;
+  onUse: (entry: LibraryCharacter) => void;
+  onSave: (entry: LibraryCharacter) => void;
+  onDelete: (id: string) => void;
+}> = ({ entry, onUse, onSave, onDelete }) => {
+  const [draft, setDraft] = useState(entry);
+  const [tagsText, setTagsText] = useState(entry.tags.join(', '));
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    setDraft(entry);
+    setTagsText(entry.tags.join(', '));
+  }, [entry]);
+
+  const updatePhotos = (photos: ReferencePhoto[]) => setDraft(prev => ({ ...prev, photos }));
+
+  const handleAddPhotos = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const photos = await Promise.all(files.map(readPhoto));
+    setDraft(prev => ({ ...prev, photos: [...prev.photos, ...photos] }));
+  };
+
+  const handleSave = () => {
+    onSave({ ...draft, name: draft.name.trim() || entry.name, tags: parseTags(tagsText), updatedAt: Date.now() });
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setDraft(entry);
+    setTagsText(entry.tags.join(', '));
+    setIsEditing(false);
+  };
+
+  const primary = draft.photos[0];
+
+  return (
+    <div className="bg-gray-700/50 p-3 rounded-lg">
+      <div className="flex items-start space-x-3">
+        <div className="w-16 h-16 rounded-full bg-gray-600 overflow-hidden flex-shrink-0">
+          {primary && <img src={primary.base64} alt={draft.name} className="w-full h-full object-cover" />}
+        </div>
+        <div className="flex-1 min-w-0">
+          {isEditing ? (
+            <div className="space-y-2">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Character name"
+              />
+              <input
+                value={draft.roleName ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, roleName: e.target.value || undefined }))}
+                placeholder="Role (e.g., Host)"
+                className="w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Role name"
+              />
+              <input
+                value={tagsText}
+                onChange={(e) => setTagsText(e.target.value)}
+                placeholder="Tags, separated by commas"
+                className="w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Tags"
+              />
+              <textarea
+                rows={3}
+                value={draft.definition ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, definition: e.target.value || null }))}
+                placeholder="Character definition"
+                className="w-full bg-gray-900 text-xs text-gray-300 p-2 rounded-md border border-gray-600 focus:ring-blue-500 focus:border-blue-500"
+                aria-label="Definition"
+              />
+            </div>
+          ) : (
+            <>
+              <h4 className="font-semibold text-white truncate">
+                {draft.name}
+                {draft.roleName && <span className="ml-2 text-xs text-gray-400">{draft.roleName}</span>}
+              </h4>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {draft.tags.map(tag => (
+                  <span key={tag} className="text-xs bg-gray-600 text-gray-200 px-1.5 py-0.5 rounded">{tag}</span>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-1 line-clamp-2">{draft.definition || 'No definition yet.'}</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {draft.photos.map((photo, index) => (
+          <div key={index} className={`relative w-12 h-12 rounded-md overflow-hidden border-2 ${index === 0 ? 'border-blue-500' : 'border-gray-600'}`}>
+            <img src={photo.base64} alt={`${draft.name} reference ${index + 1}`} className="w-full h-full object-cover" />
+            {isEditing && (
+              <div className="absolute inset-0 bg-black/60 opacity-0 hover:opacity-100 flex items-center justify-center space-x-1 transition-opacity">
+                {index > 0 && (
+                  <button
+                    onClick={() => updatePhotos([photo, ...draft.photos.filter((_, i) => i !== index)])}
+                    className="text-xs text-white"
+                    title="Make primary photo"
+                    aria-label="Make primary photo"
+                  >
+                    ★
+                  </button>
+                )}
+                <button
+                  onClick={() => updatePhotos(draft.photos.filter((_, i) => i !== index))}
+                  className="text-xs text-red-300"
+                  title="Remove photo"
+                  aria-label="Remove photo"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {isEditing && (
+          <label className="w-12 h-12 rounded-md border-2 border-dashed border-gray-500 flex items-center justify-center text-gray-400 hover:text-white hover:border-gray-300 cursor-pointer" title="Add photos">
+            +
+            <input type="file" accept="image/*" multiple className="sr-only" onChange={handleAddPhotos} aria-label="Add reference photos" />
+          </label>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-2 mt-3">
+        {isEditing ? (
+          <>
+            <button onClick={handleCancel} className="text-gray-300 hover:text-white text-xs font-semibold px-2 py-1 rounded hover:bg-gray-600 transition-colors">Cancel</button>
+            <button onClick={handleSave} className="bg-blue-600 hover:bg-blue-500 text-white text-xs font-semibold px-3 py-1 rounded transition-colors">Save</button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => onDelete(entry.id)} className="text-red-400 hover:text-red-300 font-semibold text-xs px-2 py-1 rounded hover:bg-red-900/50 transition-colors">Delete</button>
+            <button onClick={() => setIsEditing(true)} className="text-gray-300 hover:text-white text-xs font-semibold px-2 py-1 rounded hover:bg-gray-600 transition-colors">Edit</button>
+            <button
+              onClick={() => onUse(entry)}
+              disabled={entry.photos.length === 0 && !entry.definition}
+              className="bg-green-600 hover:bg-green-500 text-white text-xs font-semibold px-3 py-1 rounded transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Use in Project
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CharacterLibrary: React.FC<CharacterLibraryProps> = ({ isOpen, onClose, entries, onUse, onSave, onDelete }) => {
+  const [query, setQuery] = useState('');
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleEntries = normalizedQuery
+    ? entries.filter(entry =>
+        entry.name.toLowerCase().includes(normalizedQuery) ||
+        entry.roleName?.toLowerCase().includes(normalizedQuery) ||
+        entry.tags.some(tag => tag.includes(normalizedQuery))
+      )
+    : entries;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="character-library-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl p-6 border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="character-library-title" className="text-2xl font-bold text-white mb-2">Character Library</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Characters saved here are available in every project, with their photos and definitions, so they don't need to be analyzed again.
+        </p>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, role or tag"
+          className="w-full bg-gray-900 border border-gray-600 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none mb-4"
+          aria-label="Search the character library"
+        />
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+          {visibleEntries.length === 0 ? (
+            <p className="text-center text-gray-500 text-sm py-4">
+              {entries.length === 0 ? 'No characters saved yet. Use "Save to Library" on a reference character.' : 'No characters match your search.'}
+            </p>
+          ) : (
+            visibleEntries.map(entry => (
+              <LibraryEntryCard key={entry.id} entry={entry} onUse={onUse} onSave={onSave} onDelete={onDelete} />
+            ))
+          )}
+        </div>
+
+        <div className="mt-6 text-right">
+          <button
+            onClick={onClose}
+            className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterLibrary;
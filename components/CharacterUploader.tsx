@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { Character } from '../types';
+import { getCharacterTag } from '../services/characters';
 
 interface CharacterUploaderProps {
   characters: Character[];
@@ -11,13 +12,19 @@ interface CharacterUploaderProps {
   analyzeCount: number;
   onInject?: () => void;
   injectableCount?: number;
+  onAdd?: () => void;
+  onRemove?: (id: Character['id']) => void;
+  onSaveToLibrary?: (character: Character) => void;
+  onOpenLibrary?: () => void;
 }
 
 const CharacterCard: React.FC<{
   character: Character;
   onUpload: (id: Character['id'], base64: string, mimeType: string) => void;
   onSetDefinition: (id: Character['id'], definition: string) => void;
-}> = ({ character, onUpload, onSetDefinition }) => {
+  onRemove?: (id: Character['id']) => void;
+  onSaveToLibrary?: (character: Character) => void;
+}> = ({ character, onUpload, onSetDefinition, onRemove, onSaveToLibrary }) => {
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -34,11 +41,22 @@ const CharacterCard: React.FC<{
     onSetDefinition(character.id, e.target.value);
   };
   
-  const characterTag = `[C${character.id.slice(-1)}]`;
+  const characterTag = getCharacterTag(character);
   const displayName = character.roleName || character.name;
 
   return (
-    <div className="flex flex-col items-center space-y-2 flex-1 min-w-0 max-w-xs">
+    <div className="flex flex-col items-center space-y-2 flex-1 min-w-0 max-w-xs relative">
+      {onRemove && (
+        <button
+          onClick={() => onRemove(character.id)}
+          className="absolute top-0 right-0 p-1 text-gray-500 hover:text-red-400 rounded-full hover:bg-red-900/50 transition-colors"
+          aria-label={`Remove ${displayName}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
       <h4 className="font-semibold text-white text-center truncate w-full" title={displayName}>
         {displayName}
         <span className="ml-2 text-xs font-mono bg-gray-600 text-gray-200 px-1.5 py-0.5 rounded">{characterTag}</span>
@@ -51,6 +69,11 @@ const CharacterCard: React.FC<{
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
           </svg>
         )}
+        {!!character.extraPhotos?.length && (
+          <span className="absolute bottom-1 right-1 text-xs bg-gray-900/80 text-gray-200 px-1 rounded" title="Extra reference photos">
+            +{character.extraPhotos.length}
+          </span>
+        )}
         {character.isLoading && (
           <div className="absolute inset-0 bg-black/70 flex justify-center items-center rounded-full">
             <div className="w-8 h-8 border-2 border-t-2 border-gray-500 border-t-blue-400 rounded-full animate-spin"></div>
@@ -78,12 +101,20 @@ const CharacterCard: React.FC<{
        {character.definition === 'Analysis failed.' && (
           <p className="text-xs text-red-300 text-center">Analysis failed. Please try a clearer image or write a definition manually.</p>
        )}
+      {onSaveToLibrary && (character.base64 || character.definition?.trim()) && (
+        <button
+          onClick={() => onSaveToLibrary(character)}
+          className="text-xs font-medium text-gray-400 hover:text-white"
+        >
+          {character.libraryId ? 'Update in Library' : 'Save to Library'}
+        </button>
+      )}
     </div>
   );
 };
 
 
-const CharacterUploader: React.FC<CharacterUploaderProps> = ({ characters, onUpload, onSetDefinition, onAnalyze, isAnalyzing, analyzeCount, onInject, injectableCount = 0 }) => {
+const CharacterUploader: React.FC<CharacterUploaderProps> = ({ characters, onUpload, onSetDefinition, onAnalyze, isAnalyzing, analyzeCount, onInject, injectableCount = 0, onAdd, onRemove, onSaveToLibrary, onOpenLibrary }) => {
   const canAnalyze = analyzeCount > 0 && !isAnalyzing;
   const canInject = injectableCount > 0 && !isAnalyzing;
 
@@ -94,9 +125,29 @@ const CharacterUploader: React.FC<CharacterUploaderProps> = ({ characters, onUpl
         <p className="text-xs text-gray-500 text-center mb-4">Upload images for AI analysis or write definitions manually. Then use tags (e.g., [C1]) in your prompt.</p>
         <div className="flex justify-center items-start flex-wrap gap-y-4 gap-x-8">
           {characters.map(char => (
-            <CharacterCard key={char.id} character={char} onUpload={onUpload} onSetDefinition={onSetDefinition} />
+            <CharacterCard key={char.id} character={char} onUpload={onUpload} onSetDefinition={onSetDefinition} onRemove={onRemove} onSaveToLibrary={onSaveToLibrary} />
           ))}
         </div>
+        {(onAdd || onOpenLibrary) && (
+          <div className="flex justify-center mt-4 space-x-2">
+            {onAdd && (
+              <button
+                onClick={onAdd}
+                className="text-sm font-semibold text-blue-400 hover:text-blue-300 px-3 py-1 rounded-md hover:bg-gray-700 transition-colors"
+              >
+                + Add Character
+              </button>
+            )}
+            {onOpenLibrary && (
+              <button
+                onClick={onOpenLibrary}
+                className="text-sm font-semibold text-blue-400 hover:text-blue-300 px-3 py-1 rounded-md hover:bg-gray-700 transition-colors"
+              >
+                Browse Library
+              </button>
+            )}
+          </div>
+        )}
         <div className="flex justify-center items-center mt-4 space-x-4">
           <button
             onClick={onAnalyze}
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { ImageSet, ImageVersion } from '../types';
+import { getFlattenedImage } from '../services/layers';
+import { renderDifference } from '../services/imageDiff';
+import Spinner from './Spinner';
+import { useImageSize, getFrameStyle } from './useImageSize';
+
+export type CompareMode = 'slider' | 'side-by-side' | 'onion-skin' | 'difference';
+
+export interface CompareTarget {
+  beforeId: string;
+  afterId: string;
+}
+
+interface CompareViewProps {
+  imageSets: ImageSet[];
+  target: CompareTarget | null; // The versions to start with; null when closed
+  onClose: () => void;
+}
+
+const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+  { value: 'slider', label: 'Slider' },
+  { value: 'side-by-side', label: 'Side by side' },
+  { value: 'onion-skin', label: 'Onion skin' },
+  { value: 'difference', label: 'Difference' },
+];
+
+const DIFFERENCE_GAINS = [1, 4, 16];
+
+const findVersion = (imageSets: ImageSet[], id: string): { version: ImageVersion; label: string } | null => {
+  for (const set of imageSets) {
+    const index = set.versions.findIndex(v => v.id === id);
+    if (index !== -1) return { version: set.versions[index], label: `${set.name} - V${index + 1}` };
+  }
+  return null;
+};
+
+// A version as it looks with its layers, flattened once it's picked.
+const useFlattened = (version: ImageVersion | undefined) => {
+  const [src, setSrc] = useState<string | null>(null);
+  useEffect(() => {
+    setSrc(null);
+    if (!version) return;
+    let isCancelled = false;
+    getFlattenedImage(version)
+      .then(image => { if (!isCancelled) setSrc(image.base64); })
+      .catch(e => console.error("Failed to render a version to compare:", e));
+    return () => { isCancelled = true; };
+  }, [version]);
+  return src;
+};
+
+const Caption: React.FC<{ children: React.ReactNode; side: 'left' | 'right' }> = ({ children, side }) => (
+  <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} text-xs font-semibold text-white bg-black/60 px-2 py-0.5 rounded pointer-events-none`}>
+    {children}
+  </span>
+);
+
+/**
+ * Puts two versions over each other to check what an edit really changed: with a split slider,
+ * side by side, faded over each other, or as a difference image.
+ */
+const CompareView: React.FC<CompareViewProps> = ({ imageSets, target, onClose }) => {
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [split, setSplit] = useState(50); // Percent from the left where the after image starts
+  const [afterOpacity, setAfterOpacity] = useState(0.5);
+  const [gain, setGain] = useState(4);
+  const [difference, setDifference] = useState<{ base64: string; changedRatio: number } | null>(null);
+
+  useEffect(() => {
+    if (!target) return;
+    setBeforeId(target.beforeId);
+    setAfterId(target.afterId);
+  }, [target]);
+
+  const before = findVersion(imageSets, beforeId);
+  const after = findVersion(imageSets, afterId);
+  const beforeSrc = useFlattened(before?.version);
+  const afterSrc = useFlattened(after?.version);
+  const afterSize = useImageSize(afterSrc);
+
+  useEffect(() => {
+    setDifference(null);
+    if (mode !== 'difference' || !beforeSrc || !afterSrc) return;
+    let isCancelled = false;
+    renderDifference(beforeSrc, afterSrc, gain)
+      .then(result => { if (!isCancelled) setDifference(result); })
+      .catch(e => console.error("Failed to compare the versions:", e));
+    return () => { isCancelled = true; };
+  }, [mode, beforeSrc, afterSrc, gain]);
+
+  if (!target) {
+    return null;
+  }
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, (e.clientX - rect.left) / rect.width * 100)));
+  };
+
+  const versionSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="flex items-center space-x-2 text-sm text-gray-300">
+      <span>{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm">
+        {imageSets.map(set => (
+          <optgroup key={set.id} label={set.name}>
+            {set.versions.map((version, index) => (
+              <option key={version.id} value={version.id}>V{index + 1}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+
+  const isReady = !!beforeSrc && !!afterSrc;
+  const frameStyle = getFrameStyle(afterSize, '60vh'); // Framed to the newer version; a reframed parent is letterboxed
+  const frameClass = 'relative mx-auto bg-gray-900 rounded-lg overflow-hidden';
+  const imageClass = 'absolute inset-0 w-full h-full object-contain pointer-events-none select-none';
+
+  let view: React.ReactNode;
+  if (!isReady) {
+    view = <div className={frameClass} style={frameStyle}><Spinner message="Preparing the versions..." /></div>;
+  } else if (mode === 'slider') {
+    view = (
+      <div
+        className={`${frameClass} cursor-ew-resize touch-none`}
+        style={frameStyle}
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); moveSplit(e); }}
+        onPointerMove={(e) => { if (e.buttons) moveSplit(e); }}
+      >
+        <img src={beforeSrc} alt="Before" className={imageClass} />
+        <img src={afterSrc} alt="After" className={imageClass} style={{ clipPath: `inset(0 0 0 ${split}%)` }} />
+        <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${split}%` }} />
+        <Caption side="left">{before?.label}</Caption>
+        <Caption side="right">{after?.label}</Caption>
+      </div>
+    );
+  } else if (mode === 'side-by-side') {
+    view = (
+      <div className="grid grid-cols-2 gap-2">
+        <div className={frameClass} style={frameStyle}>
+          <img src={beforeSrc} alt="Before" className={imageClass} />
+          <Caption side="left">{before?.label}</Caption>
+        </div>
+        <div className={frameClass} style={frameStyle}>
+          <img src={afterSrc} alt="After" className={imageClass} />
+          <Caption side="left">{after?.label}</Caption>
+        </div>
+      </div>
+    );
+  } else if (mode === 'onion-skin') {
+    view = (
+      <div className={frameClass} style={frameStyle}>
+        <img src={beforeSrc} alt="Before" className={imageClass} />
+        <img src={afterSrc} alt="After" className={imageClass} style={{ opacity: afterOpacity }} />
+      </div>
+    );
+  } else {
+    view = (
+      <div className={frameClass} style={frameStyle}>
+        {difference ? <img src={difference.base64} alt="Difference between the versions" className={imageClass} /> : <Spinner message="Comparing..." />}
+      </div>
+    );
+  }
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-view-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl p-6 border border-gray-700 max-h-[90vh] overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 id="compare-view-title" className="text-2xl font-bold text-white">Compare</h2>
+          <div className="flex bg-gray-900 rounded-md p-0.5" role="tablist">
+            {COMPARE_MODES.map(m => (
+              <button
+                key={m.value}
+                onClick={() => setMode(m.value)}
+                className={`px-3 py-1 text-sm rounded ${mode === m.value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                role="tab"
+                aria-selected={mode === m.value}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {versionSelect(beforeId, setBeforeId, 'Before')}
+          <button
+            onClick={() => { setBeforeId(afterId); setAfterId(beforeId); }}
+            className="px-2 py-1 text-sm rounded-md text-blue-400 hover:text-blue-300 hover:bg-gray-700"
+            aria-label="Swap the versions"
+          >
+            ⇄
+          </button>
+          {versionSelect(afterId, setAfterId, 'After')}
+        </div>
+
+        {view}
+
+        {mode === 'onion-skin' && (
+          <label className="flex items-center space-x-3 text-sm text-gray-300">
+            <span>{before?.label}</span>
+            <input type="range" min="0" max="1" step="0.01" value={afterOpacity} onChange={(e) => setAfterOpacity(Number(e.target.value))} className="flex-grow" />
+            <span>{after?.label}</span>
+          </label>
+        )}
+        {mode === 'difference' && (
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <label className="flex items-center space-x-2">
+              <span>Brighten</span>
+              <select value={gain} onChange={(e) => setGain(Number(e.target.value))} className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm">
+                {DIFFERENCE_GAINS.map(g => <option key={g} value={g}>{g}×</option>)}
+              </select>
+            </label>
+            {difference && <span>{(difference.changedRatio * 100).toFixed(1)}% of pixels changed</span>}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -1,4 +1,7 @@
 import React from 'react';
+import VariantCountSelector from './VariantCountSelector';
+import PresetPicker from './PresetPicker';
+import { PromptPreset } from '../services/promptTemplates';
 
 interface EditControlsProps {
   prompt: string;
@@ -8,6 +11,10 @@ interface EditControlsProps {
   onSubmit: () => void;
   isLoading: boolean;
   isMasking: boolean;
+  variantCount: number;
+  onVariantCountChange: (count: number) => void;
+  presets: PromptPreset[];
+  onPreviewPrompt: () => void;
 }
 
 const EditControls: React.FC<EditControlsProps> = ({
@@ -18,6 +25,10 @@ const EditControls: React.FC<EditControlsProps> = ({
   onSubmit,
   isLoading,
   isMasking,
+  variantCount,
+  onVariantCountChange,
+  presets,
+  onPreviewPrompt,
 }) => {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -84,6 +95,22 @@ const EditControls: React.FC<EditControlsProps> = ({
           )}
         </div>
       </div>
+      <div className="flex justify-between items-start mt-2 px-2 space-x-2">
+        <div>
+          {!isMasking && <PresetPicker presets={presets} onInsert={(text) => setPrompt(prompt.trim() ? `${prompt.trim()} ${text}` : text)} disabled={isLoading} />}
+        </div>
+        <div className="flex items-center space-x-3 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onPreviewPrompt}
+            disabled={isLoading || !canSubmit}
+            className="text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            Preview prompt
+          </button>
+          <VariantCountSelector value={variantCount} onChange={onVariantCountChange} disabled={isLoading} />
+        </div>
+      </div>
     </form>
   );
 };
@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { ImageVersion } from '../types';
+import {
+  getExportResolutions,
+  EXPORT_FORMATS,
+  YOUTUBE_MAX_BYTES,
+  ExportFormat,
+  ExportResult,
+  FitMode,
+  exportImage,
+  formatBytes,
+  getFileExtension,
+} from '../services/imageExport';
+import { findClosestFormat, getTargetFormat } from '../services/targetFormats';
+import { useImageSize } from './useImageSize';
+
+interface ExportDialogProps {
+  version: ImageVersion | null;
+  fileName: string; // Without an extension
+  onClose: () => void;
+}
+
+const ENCODE_DELAY_MS = 300; // Let slider drags settle before re-encoding
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ version, fileName, onClose }) => {
+  const [resolutionIndex, setResolutionIndex] = useState(0);
+  const [fitMode, setFitMode] = useState<FitMode>('crop');
+  const [format, setFormat] = useState<ExportFormat>('image/jpeg');
+  const [quality, setQuality] = useState(0.92);
+  const [limitSize, setLimitSize] = useState(true);
+  const [maxMegabytes, setMaxMegabytes] = useState(YOUTUBE_MAX_BYTES / (1024 * 1024));
+  const [result, setResult] = useState<ExportResult | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLossy = EXPORT_FORMATS.find(f => f.mimeType === format)?.lossy ?? false;
+
+  // Export in the format the version was made for, or the one closest to its shape if it wasn't generated for one.
+  const imageSize = useImageSize(version?.base64);
+  const targetFormat = version?.provenance?.formatId
+    ? getTargetFormat(version.provenance.formatId)
+    : imageSize ? findClosestFormat(imageSize.width, imageSize.height) : null;
+  const resolutions = targetFormat ? getExportResolutions(targetFormat) : [];
+  const resolution = resolutions[resolutionIndex] ?? resolutions[0];
+
+  useEffect(() => {
+    setResolutionIndex(0);
+  }, [targetFormat?.id]);
+
+  useEffect(() => {
+    if (!version || !resolution) return;
+    let isCancelled = false;
+    const { width, height } = resolution;
+    const maxBytes = limitSize && maxMegabytes > 0 ? Math.round(maxMegabytes * 1024 * 1024) : null;
+
+    setIsEncoding(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const encoded = await exportImage(version.base64, { width, height, fitMode, format, quality, maxBytes });
+        if (!isCancelled) {
+          setResult(encoded);
+          setError(null);
+        }
+      } catch (e: any) {
+        if (!isCancelled) {
+          setResult(null);
+          setError(e.message || 'Failed to encode the image.');
+        }
+      } finally {
+        if (!isCancelled) setIsEncoding(false);
+      }
+    }, ENCODE_DELAY_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [version, resolution?.width, resolution?.height, fitMode, format, quality, limitSize, maxMegabytes]);
+
+  if (!version) {
+    return null;
+  }
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadBlob(result.blob, `${fileName}_${result.width}x${result.height}.${getFileExtension(format)}`);
+  };
+
+  const handleDownloadOriginal = () => {
+    const link = document.createElement('a');
+    link.href = version.base64;
+    link.download = `${fileName}.${getFileExtension(version.mimeType)}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const labelClass = "text-xs font-semibold text-gray-400 uppercase tracking-wider";
+  const selectClass = "w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none mt-1";
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg p-6 border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="export-dialog-title" className="text-2xl font-bold text-white mb-4">Export Thumbnail</h2>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block">
+            <span className={labelClass}>Resolution</span>
+            <select value={resolutionIndex} onChange={(e) => setResolutionIndex(Number(e.target.value))} className={selectClass}>
+              {resolutions.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClass}>Fit to {targetFormat?.aspectRatio ?? 'format'}</span>
+            <select value={fitMode} onChange={(e) => setFitMode(e.target.value as FitMode)} className={selectClass}>
+              <option value="crop">Crop to fill</option>
+              <option value="fit">Fit with black bars</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClass}>Format</span>
+            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+              {EXPORT_FORMATS.map(f => (
+                <option key={f.mimeType} value={f.mimeType}>{f.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClass}>Quality {isLossy ? `(${Math.round(quality * 100)}%)` : '(lossless)'}</span>
+            <input
+              type="range"
+              min="0.3"
+              max="1"
+              step="0.01"
+              value={quality}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              disabled={!isLossy}
+              className="w-full mt-3 disabled:opacity-50"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center space-x-2 mt-4">
+          <input
+            id="export-limit-size"
+            type="checkbox"
+            checked={limitSize}
+            onChange={(e) => setLimitSize(e.target.checked)}
+            className="rounded bg-gray-900 border-gray-600"
+          />
+          <label htmlFor="export-limit-size" className="text-sm text-gray-300">Keep the file under</label>
+          <input
+            type="number"
+            min="0.1"
+            step="0.1"
+            value={maxMegabytes}
+            onChange={(e) => setMaxMegabytes(Number(e.target.value))}
+            disabled={!limitSize}
+            className="w-20 bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+            aria-label="Maximum file size in megabytes"
+          />
+          <span className="text-sm text-gray-300">MB</span>
+        </div>
+        {limitSize && !isLossy && (
+          <p className="text-xs text-gray-500 mt-1">PNG can't be compressed further; choose JPEG or WebP to meet a size limit.</p>
+        )}
+
+        <div className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm min-h-[3rem] flex items-center">
+          {isEncoding ? (
+            <span className="text-gray-400 flex items-center space-x-2">
+              <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></span>
+              <span>Encoding...</span>
+            </span>
+          ) : error ? (
+            <span className="text-red-300">{error}</span>
+          ) : result && (
+            <span className={result.fitsBudget ? 'text-gray-200' : 'text-yellow-300'}>
+              {result.width} × {result.height}, <strong>{formatBytes(result.blob.size)}</strong>
+              {result.quality !== null && ` at ${Math.round(result.quality * 100)}% quality`}
+              {!result.fitsBudget && ' (over the size limit)'}
+            </span>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-between items-center">
+          <button
+            onClick={handleDownloadOriginal}
+            className="text-sm font-semibold text-blue-400 hover:text-blue-300"
+          >
+            Download original
+          </button>
+          <div className="space-x-2">
+            <button
+              onClick={onClose}
+              className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!result || isEncoding}
+              className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
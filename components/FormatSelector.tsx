@@ -0,0 +1,29 @@
+import React from 'react';
+import { TARGET_FORMATS } from '../services/targetFormats';
+
+interface FormatSelectorProps {
+  value: string;
+  onChange: (formatId: string) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+const FormatSelector: React.FC<FormatSelectorProps> = ({ value, onChange, disabled = false, label = 'Format:' }) => {
+  return (
+    <label className="flex items-center space-x-2 text-sm">
+      <span className="text-gray-400">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm disabled:opacity-50"
+      >
+        {TARGET_FORMATS.map(format => (
+          <option key={format.id} value={format.id}>{format.label} ({format.aspectRatio})</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default FormatSelector;
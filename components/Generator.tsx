@@ -1,4 +1,8 @@
 import React from 'react';
+import VariantCountSelector from './VariantCountSelector';
+import PresetPicker from './PresetPicker';
+import FormatSelector from './FormatSelector';
+import { PromptPreset } from '../services/promptTemplates';
 
 interface GeneratorProps {
   prompt: string;
@@ -8,9 +12,15 @@ interface GeneratorProps {
   onSuggest: () => void;
   isSuggesting: boolean;
   hasPrompt: boolean;
+  variantCount: number;
+  onVariantCountChange: (count: number) => void;
+  formatId: string;
+  onFormatChange: (formatId: string) => void;
+  presets: PromptPreset[];
+  onPreviewPrompt: () => void;
 }
 
-const Generator: React.FC<GeneratorProps> = ({ prompt, setPrompt, onSubmit, isLoading, onSuggest, isSuggesting, hasPrompt }) => {
+const Generator: React.FC<GeneratorProps> = ({ prompt, setPrompt, onSubmit, isLoading, onSuggest, isSuggesting, hasPrompt, variantCount, onVariantCountChange, formatId, onFormatChange, presets, onPreviewPrompt }) => {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim() && !isLoading) {
@@ -32,6 +42,21 @@ const Generator: React.FC<GeneratorProps> = ({ prompt, setPrompt, onSubmit, isLo
               className="w-full bg-transparent text-white placeholder-gray-400 border-none focus:ring-0 text-base p-2 resize-none"
             />
           </div>
+          <div className="flex justify-between items-start mt-3 space-x-2">
+            <PresetPicker presets={presets} onInsert={(text) => setPrompt(prompt.trim() ? `${prompt.trim()} ${text}` : text)} disabled={isLoading} />
+            <div className="flex items-center space-x-3 flex-shrink-0">
+              <button
+                type="button"
+                onClick={onPreviewPrompt}
+                disabled={isLoading || !prompt.trim()}
+                className="text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Preview prompt
+              </button>
+              <FormatSelector value={formatId} onChange={onFormatChange} disabled={isLoading} />
+              <VariantCountSelector value={variantCount} onChange={onVariantCountChange} disabled={isLoading} />
+            </div>
+          </div>
           <div className="flex justify-center items-center space-x-4 mt-4">
               <button
                 type="button"
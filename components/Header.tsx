@@ -1,18 +1,51 @@
 import React from 'react';
+import ProjectPicker from './ProjectPicker';
+import { ProjectSummary } from '../types';
 
 interface HeaderProps {
   onMenuToggle: () => void;
   onNewThumbnail: () => void;
   showNewButton: boolean;
   onOpenApiKeyManager: () => void;
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onSelectProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
+  onExportProject: (id: string) => void;
+  onImportProject: (file: File) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onMenuToggle, onNewThumbnail, showNewButton, onOpenApiKeyManager }) => {
+const Header: React.FC<HeaderProps> = ({
+  onMenuToggle,
+  onNewThumbnail,
+  showNewButton,
+  onOpenApiKeyManager,
+  projects,
+  currentProjectId,
+  onSelectProject,
+  onCreateProject,
+  onRenameProject,
+  onDeleteProject,
+  onExportProject,
+  onImportProject,
+}) => {
   return (
     <header className="bg-gray-800/50 backdrop-blur-sm p-4 text-white fixed top-0 left-0 right-0 z-20">
       <div className="container mx-auto flex justify-between items-center">
         <div className="flex items-center space-x-4">
            <h1 className="text-xl font-bold tracking-tight">Thumbnail AI Editor</h1>
+           <ProjectPicker
+             projects={projects}
+             currentProjectId={currentProjectId}
+             onSelectProject={onSelectProject}
+             onCreateProject={onCreateProject}
+             onRenameProject={onRenameProject}
+             onDeleteProject={onDeleteProject}
+             onExportProject={onExportProject}
+             onImportProject={onImportProject}
+           />
            {showNewButton && (
              <button
                onClick={onNewThumbnail}
@@ -3,8 +3,12 @@ import ImageUploader from './ImageUploader';
 import Generator from './Generator';
 import CharacterUploader from './CharacterUploader';
 import SuggestionBox from './SuggestionBox';
-import { Character } from '../types';
-import { generateInitialTextSuggestions } from '../services/geminiService';
+import PromptPreview from './PromptPreview';
+import { Character, StyleProfile, TextSuggestion } from '../types';
+import { generateInitialTextSuggestions } from '../services/aiService';
+import { suggestionToPrompt } from '../services/textSuggestions';
+import { DEFAULT_TARGET_FORMAT_ID, getTargetFormat } from '../services/targetFormats';
+import { addTextOverlayToGeneratePrompt, buildGeneratePrompt, getRoleNotes, PromptPreset } from '../services/promptTemplates';
 
 interface Placeholder {
   number: number;
@@ -14,15 +18,20 @@ interface Placeholder {
 
 interface InitialViewProps {
   onImageUpload: (base64: string, mimeType: string) => void;
-  onImageGenerate: (prompt: string) => void;
+  onImageGenerate: (prompt: string, variantCount: number, formatId: string) => void;
   isLoading: boolean;
   characters: Character[];
   onCharacterUpload: (id: Character['id'], base64: string, mimeType: string) => void;
   onAnalyzeCharacters: () => void;
   onSetCharacterDefinition: (id: Character['id'], definition: string) => void;
+  onEnsureCharacterSlots: (slots: number[]) => void;
+  onSaveCharacterToLibrary: (character: Character) => void;
+  onOpenCharacterLibrary: () => void;
   isAnalyzing: boolean;
   analyzeCount: number;
   setError: (error: string | null) => void;
+  presets: PromptPreset[];
+  styleProfile: StyleProfile;
 }
 
 const InitialView: React.FC<InitialViewProps> = ({ 
@@ -33,17 +42,25 @@ const InitialView: React.FC<InitialViewProps> = ({
     onCharacterUpload,
     onAnalyzeCharacters,
     onSetCharacterDefinition,
+    onEnsureCharacterSlots,
+    onSaveCharacterToLibrary,
+    onOpenCharacterLibrary,
     isAnalyzing,
     analyzeCount,
-    setError
+    setError,
+    presets,
+    styleProfile
 }) => {
   const [activeTab, setActiveTab] = useState<'generate' | 'upload'>('generate');
   const [generatePrompt, setGeneratePrompt] = useState('');
+  const [variantCount, setVariantCount] = useState(1);
+  const [formatId, setFormatId] = useState(DEFAULT_TARGET_FORMAT_ID);
   const [detectedPlaceholders, setDetectedPlaceholders] = useState<Placeholder[]>([]);
   
-  const [textSuggestions, setTextSuggestions] = useState<string[]>([]);
+  const [textSuggestions, setTextSuggestions] = useState<TextSuggestion[]>([]);
   const [isSuggesting, setIsSuggesting] = useState(false);
-  const [selectedSuggestion, setSelectedSuggestion] = useState<string | null>(null);
+  const [selectedSuggestion, setSelectedSuggestion] = useState<TextSuggestion | null>(null);
+  const [previewPrompt, setPreviewPrompt] = useState<string | null>(null);
 
   useEffect(() => {
     // Regex to find patterns like "HOA woman (image 1)" or just "(image 2)"
@@ -58,52 +75,51 @@ const InitialView: React.FC<InitialViewProps> = ({
     setDetectedPlaceholders(placeholders);
   }, [generatePrompt]);
 
+  useEffect(() => {
+    // Make sure there is a character slot for every "(image N)" placeholder, however many there are.
+    if (detectedPlaceholders.length > 0) {
+      onEnsureCharacterSlots(detectedPlaceholders.map(p => p.number));
+    }
+  }, [detectedPlaceholders, onEnsureCharacterSlots]);
+
   const handleGenerateTextSuggestions = useCallback(async () => {
     if (!generatePrompt.trim() || isSuggesting) return;
     setIsSuggesting(true);
     setTextSuggestions([]);
     setError(null);
     try {
-      const suggestions = await generateInitialTextSuggestions(generatePrompt);
+      const suggestions = await generateInitialTextSuggestions(generatePrompt, styleProfile);
       setTextSuggestions(suggestions);
     } catch (e: any) {
       setError(e.message || "Failed to get suggestions.");
     } finally {
       setIsSuggesting(false);
     }
-  }, [generatePrompt, isSuggesting, setError]);
+  }, [generatePrompt, isSuggesting, setError, styleProfile]);
 
-  const handleSelectSuggestion = (suggestion: string) => {
+  const handleSelectSuggestion = (suggestion: TextSuggestion) => {
       setSelectedSuggestion(suggestion === selectedSuggestion ? null : suggestion);
   };
 
-  const handleGenerateSubmit = () => {
-    let finalPrompt = generatePrompt;
+  const getFinalPrompt = () => selectedSuggestion
+    ? addTextOverlayToGeneratePrompt(generatePrompt, suggestionToPrompt(selectedSuggestion))
+    : generatePrompt;
 
-    if (selectedSuggestion) {
-      finalPrompt += `\n\n${selectedSuggestion}`;
-      finalPrompt += "\n\nIMPORTANT INSTRUCTION: When generating the image, you MUST include the requested text. Ensure the text does not cover or obscure the faces or bodies of any people. Intelligently adjust the composition, slightly shifting subjects or extending the background, to create a clean, non-obtrusive space for the text while preserving the scene's core elements, characters, and poses.";
-    }
-    
-    onImageGenerate(finalPrompt);
+  const handleGenerateSubmit = () => {
+    onImageGenerate(getFinalPrompt(), variantCount, formatId);
   };
 
   const injectableCount = characters.filter((char) => {
-    const charNum = parseInt(char.id.slice(-1), 10);
-    const placeholder = detectedPlaceholders.find(p => p.number === charNum);
+    const placeholder = detectedPlaceholders.find(p => p.number === char.slot);
     return placeholder && char.isAnalyzed && char.definition !== 'Analysis failed.';
   }).length;
   
   const handleInjectDefinitions = () => {
       let newPrompt = generatePrompt;
       characters.forEach((char) => {
-        const charNum = parseInt(char.id.slice(-1), 10);
-        const placeholder = detectedPlaceholders.find(p => p.number === charNum);
+        const placeholder = detectedPlaceholders.find(p => p.number === char.slot);
         if (placeholder && char.isAnalyzed && char.definition && char.definition !== 'Analysis failed.') {
-          let definition = char.definition;
-          if (placeholder.name.toLowerCase().includes('hoa')) {
-              definition += ' The woman MUST be wearing a prominent, stylish red outfit, like a red blazer or dress suit.';
-          }
+          const definition = [char.definition, ...getRoleNotes(placeholder.name)].join(' ');
           newPrompt = newPrompt.replace(placeholder.fullMatch, `[${definition}]`);
         }
       });
@@ -113,8 +129,7 @@ const InitialView: React.FC<InitialViewProps> = ({
   };
   
   const charactersWithRoles = characters.map(char => {
-      const charNum = parseInt(char.id.slice(-1), 10);
-      const placeholder = detectedPlaceholders.find(p => p.number === charNum);
+      const placeholder = detectedPlaceholders.find(p => p.number === char.slot);
       // Only show up to the number of detected placeholders
       if (placeholder) {
           return { ...char, roleName: placeholder.name };
@@ -125,6 +140,7 @@ const InitialView: React.FC<InitialViewProps> = ({
 
   return (
     <div className="w-full h-full flex flex-col">
+        <PromptPreview prompt={previewPrompt} onClose={() => setPreviewPrompt(null)} />
         <div className="flex justify-center border-b border-gray-700 mb-4">
             <button 
                 onClick={() => setActiveTab('generate')}
@@ -152,6 +168,12 @@ const InitialView: React.FC<InitialViewProps> = ({
                     onSuggest={handleGenerateTextSuggestions}
                     isSuggesting={isSuggesting}
                     hasPrompt={generatePrompt.trim().length > 0}
+                    variantCount={variantCount}
+                    onVariantCountChange={setVariantCount}
+                    formatId={formatId}
+                    onFormatChange={setFormatId}
+                    presets={presets}
+                    onPreviewPrompt={() => setPreviewPrompt(buildGeneratePrompt(getFinalPrompt(), styleProfile, getTargetFormat(formatId)))}
                 />
                 <SuggestionBox
                     suggestions={textSuggestions}
@@ -178,6 +200,8 @@ const InitialView: React.FC<InitialViewProps> = ({
                     analyzeCount={analyzeCount}
                     onInject={handleInjectDefinitions}
                     injectableCount={injectableCount}
+                    onSaveToLibrary={onSaveCharacterToLibrary}
+                    onOpenLibrary={onOpenCharacterLibrary}
                 />
             </div>
         )}
@@ -0,0 +1,153 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Layer, StickerLayer } from '../types';
+import { LayerAssets, loadLayerAssets, renderLayers, getStickerBounds } from '../services/layers';
+
+interface LayerCanvasProps {
+  baseSrc: string;
+  layers: Layer[];
+  skipLayerId: string | null; // A layer drawn by another canvas while it's being edited
+  selectedId: string | null;
+  isEnabled: boolean; // Whether stickers can be picked and dragged
+  onSelect: (id: string) => void;
+  onChange: (layer: Layer) => void;
+}
+
+const HANDLE_SIZE = 14; // In screen pixels
+
+type DragState =
+  | { mode: 'move'; id: string; offsetX: number; offsetY: number }
+  | { mode: 'resize'; id: string; startDistance: number; startSize: number };
+
+/**
+ * The editor stage: composites a version's layers live, and lets stickers be moved and resized.
+ */
+const LayerCanvas: React.FC<LayerCanvasProps> = ({
+  baseSrc,
+  layers,
+  skipLayerId,
+  selectedId,
+  isEnabled,
+  onSelect,
+  onChange,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragState = useRef<DragState | null>(null);
+  const [assets, setAssets] = useState<LayerAssets | null>(null);
+
+  const stickers = layers.filter((l): l is StickerLayer => l.kind === 'sticker' && l.visible);
+  const selectedSticker = stickers.find(s => s.id === selectedId);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadLayerAssets(baseSrc, layers)
+      .then(loaded => { if (!isCancelled) setAssets(loaded); })
+      .catch(e => console.error("Failed to load layers:", e));
+    return () => { isCancelled = true; };
+  }, [baseSrc, layers]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !assets) return;
+
+    if (canvas.width !== assets.base.naturalWidth || canvas.height !== assets.base.naturalHeight) {
+      canvas.width = assets.base.naturalWidth;
+      canvas.height = assets.base.naturalHeight;
+    }
+    renderLayers(ctx, layers, assets, skipLayerId);
+
+    if (isEnabled && selectedSticker) {
+      const bounds = getStickerBounds(canvas, selectedSticker);
+      const screenScale = canvas.width / canvas.getBoundingClientRect().width || 1;
+      const handle = HANDLE_SIZE * screenScale;
+      ctx.save();
+      ctx.strokeStyle = '#3B82F6';
+      ctx.lineWidth = 2 * screenScale;
+      ctx.setLineDash([6 * screenScale, 4 * screenScale]);
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#3B82F6';
+      ctx.fillRect(bounds.x + bounds.width - handle / 2, bounds.y + bounds.height - handle / 2, handle, handle);
+      ctx.restore();
+    }
+  }, [assets, layers, skipLayerId, isEnabled, selectedSticker]);
+
+  const getCanvasCoordinates = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+      scale: canvas.width / rect.width, // Canvas pixels per screen pixel
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || event.button !== 0) return;
+    const { x, y, scale } = getCanvasCoordinates(event);
+
+    if (selectedSticker) {
+      const bounds = getStickerBounds(canvas, selectedSticker);
+      if (Math.abs(x - (bounds.x + bounds.width)) <= HANDLE_SIZE * scale && Math.abs(y - (bounds.y + bounds.height)) <= HANDLE_SIZE * scale) {
+        const distance = Math.hypot(x - selectedSticker.x * canvas.width, y - selectedSticker.y * canvas.height);
+        dragState.current = { mode: 'resize', id: selectedSticker.id, startDistance: distance, startSize: selectedSticker.size };
+        event.currentTarget.setPointerCapture(event.pointerId);
+        return;
+      }
+    }
+
+    // Topmost sticker wins, so search from the top of the stack.
+    const hit = [...stickers].reverse().find(sticker => {
+      const bounds = getStickerBounds(canvas, sticker);
+      return x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+    });
+    if (hit) {
+      onSelect(hit.id);
+      dragState.current = { mode: 'move', id: hit.id, offsetX: x - hit.x * canvas.width, offsetY: y - hit.y * canvas.height };
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragState.current;
+    const canvas = canvasRef.current;
+    const sticker = stickers.find(s => s.id === drag?.id);
+    if (!drag || !canvas || !sticker) return;
+    const { x, y } = getCanvasCoordinates(event);
+
+    if (drag.mode === 'move') {
+      onChange({
+        ...sticker,
+        x: Math.min(1, Math.max(0, (x - drag.offsetX) / canvas.width)),
+        y: Math.min(1, Math.max(0, (y - drag.offsetY) / canvas.height)),
+      });
+    } else {
+      const distance = Math.hypot(x - sticker.x * canvas.width, y - sticker.y * canvas.height);
+      const size = Math.round(drag.startSize * (distance / Math.max(1, drag.startDistance)));
+      onChange({ ...sticker, size: Math.min(720, Math.max(24, size)) });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragState.current) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      dragState.current = null;
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label="Active thumbnail"
+      className={`absolute inset-0 w-full h-full ${isEnabled && stickers.length > 0 ? 'cursor-move touch-none' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  );
+};
+
+export default LayerCanvas;
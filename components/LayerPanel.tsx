@@ -0,0 +1,189 @@
+import React from 'react';
+import { BlendMode, ColorFill, Layer, StickerShape } from '../types';
+import { BLEND_MODES, COLOR_FILLS, STICKER_SHAPES } from '../services/layers';
+import { describeTextOverlays } from '../services/textOverlay';
+
+interface LayerPanelProps {
+  layers: Layer[]; // Bottom to top
+  selectedId: string | null;
+  editTargetId: string; // The layer AI edits and masking work on
+  onSelect: (id: string) => void;
+  onChange: (layer: Layer) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onDelete: (id: string) => void;
+  onAddText: () => void;
+  onEditText: (id: string) => void;
+  onAddSticker: (shape: StickerShape) => void;
+  onAddColor: () => void;
+}
+
+const inputClass = "bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const KIND_LABELS: Record<Layer['kind'], string> = {
+  base: 'Image',
+  image: 'AI edit',
+  text: 'Text',
+  sticker: 'Sticker',
+  color: 'Color',
+};
+
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  layers,
+  selectedId,
+  editTargetId,
+  onSelect,
+  onChange,
+  onMove,
+  onDelete,
+  onAddText,
+  onEditText,
+  onAddSticker,
+  onAddColor,
+}) => {
+  const selected = layers.find(l => l.id === selectedId);
+  const update = (changes: Partial<Layer>) => selected && onChange({ ...selected, ...changes } as Layer);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 mt-4">
+      <div className="bg-gray-800/50 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Layers</h3>
+          <div className="flex flex-wrap gap-1 justify-end">
+            <button onClick={onAddText} className="text-xs px-2 py-1 rounded-md text-blue-400 hover:text-blue-300 hover:bg-gray-700">+ Text</button>
+            {STICKER_SHAPES.map(({ shape, label }) => (
+              <button key={shape} onClick={() => onAddSticker(shape)} className="text-xs px-2 py-1 rounded-md text-blue-400 hover:text-blue-300 hover:bg-gray-700">
+                + {label}
+              </button>
+            ))}
+            <button onClick={onAddColor} className="text-xs px-2 py-1 rounded-md text-blue-400 hover:text-blue-300 hover:bg-gray-700">+ Color</button>
+          </div>
+        </div>
+
+        <ul className="space-y-1">
+          {/* Listed top to bottom, like the stack appears on the image. */}
+          {[...layers].reverse().map((layer, reversedIndex) => {
+            const index = layers.length - 1 - reversedIndex;
+            const isSelected = layer.id === selectedId;
+            return (
+              <li
+                key={layer.id}
+                className={`flex items-center space-x-2 rounded-md px-2 py-1 text-sm ${isSelected ? 'bg-blue-600/40 ring-1 ring-blue-500' : 'bg-gray-900/40 hover:bg-gray-700/50'}`}
+              >
+                <button
+                  onClick={() => onChange({ ...layer, visible: !layer.visible })}
+                  className={`w-6 text-center ${layer.visible ? 'text-white' : 'text-gray-600'}`}
+                  aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                  aria-pressed={layer.visible}
+                >
+                  {layer.visible ? '●' : '○'}
+                </button>
+                <button
+                  onClick={() => onSelect(layer.id)}
+                  className="flex-grow min-w-0 text-left truncate text-gray-200"
+                  title={layer.kind === 'text' ? describeTextOverlays(layer.overlays) : layer.name}
+                >
+                  {layer.name}
+                  <span className="ml-2 text-xs text-gray-500">{KIND_LABELS[layer.kind]}</span>
+                  {layer.id === editTargetId && <span className="ml-2 text-xs text-purple-300">AI edits here</span>}
+                </button>
+                <button onClick={() => onMove(layer.id, 'up')} disabled={index === layers.length - 1} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={`Move ${layer.name} up`}>▲</button>
+                <button onClick={() => onMove(layer.id, 'down')} disabled={index === 0} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={`Move ${layer.name} down`}>▼</button>
+                {layer.kind !== 'base' && (
+                  <button onClick={() => onDelete(layer.id)} className="px-1 text-red-400 hover:text-red-300" aria-label={`Delete ${layer.name}`}>✕</button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {selected && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end border-t border-gray-700 pt-3">
+            <label className="col-span-2 flex flex-col text-xs text-gray-400">
+              Name
+              <input value={selected.name} onChange={(e) => update({ name: e.target.value })} className={`${inputClass} mt-1`} />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Opacity ({Math.round(selected.opacity * 100)}%)
+              <input type="range" min="0" max="100" value={Math.round(selected.opacity * 100)} onChange={(e) => update({ opacity: Number(e.target.value) / 100 })} className="mt-2" />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Blend
+              <select value={selected.blendMode} onChange={(e) => update({ blendMode: e.target.value as BlendMode })} className={`${inputClass} mt-1`}>
+                {BLEND_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+              </select>
+            </label>
+
+            {selected.kind === 'text' && (
+              <div className="col-span-2 md:col-span-4 flex justify-end">
+                <button onClick={() => onEditText(selected.id)} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold px-3 py-1 rounded-md text-sm">
+                  Edit Text
+                </button>
+              </div>
+            )}
+
+            {selected.kind === 'sticker' && (
+              <>
+                <label className="flex flex-col text-xs text-gray-400">
+                  Shape
+                  <select value={selected.shape} onChange={(e) => update({ shape: e.target.value as StickerShape })} className={`${inputClass} mt-1`}>
+                    {STICKER_SHAPES.map(({ shape, label }) => <option key={shape} value={shape}>{label}</option>)}
+                  </select>
+                </label>
+                {selected.shape === 'emoji' ? (
+                  <label className="flex flex-col text-xs text-gray-400">
+                    Emoji
+                    <input value={selected.emoji ?? ''} onChange={(e) => update({ emoji: e.target.value })} className={`${inputClass} mt-1`} />
+                  </label>
+                ) : (
+                  <>
+                    <label className="flex flex-col text-xs text-gray-400">
+                      Color
+                      <input type="color" value={selected.color} onChange={(e) => update({ color: e.target.value.toUpperCase() })} className="mt-1 h-8 w-full bg-transparent cursor-pointer" />
+                    </label>
+                    <label className="flex flex-col text-xs text-gray-400">
+                      Outline
+                      <input type="color" value={selected.outlineColor} onChange={(e) => update({ outlineColor: e.target.value.toUpperCase() })} className="mt-1 h-8 w-full bg-transparent cursor-pointer" />
+                    </label>
+                  </>
+                )}
+                <label className="flex flex-col text-xs text-gray-400">
+                  Size ({selected.size}px)
+                  <input type="range" min="24" max="720" value={selected.size} onChange={(e) => update({ size: Number(e.target.value) })} className="mt-2" />
+                </label>
+                <label className="flex flex-col text-xs text-gray-400">
+                  Rotation ({selected.rotation}°)
+                  <input type="range" min="-180" max="180" value={selected.rotation} onChange={(e) => update({ rotation: Number(e.target.value) })} className="mt-2" />
+                </label>
+              </>
+            )}
+
+            {selected.kind === 'color' && (
+              <>
+                <label className="flex flex-col text-xs text-gray-400">
+                  Color
+                  <input type="color" value={selected.color} onChange={(e) => update({ color: e.target.value.toUpperCase() })} className="mt-1 h-8 w-full bg-transparent cursor-pointer" />
+                </label>
+                <label className="flex flex-col text-xs text-gray-400">
+                  Fill
+                  <select value={selected.fill} onChange={(e) => update({ fill: e.target.value as ColorFill })} className={`${inputClass} mt-1`}>
+                    {COLOR_FILLS.map(({ fill, label }) => <option key={fill} value={fill}>{label}</option>)}
+                  </select>
+                </label>
+              </>
+            )}
+
+            {(selected.kind === 'base' || selected.kind === 'image') && (
+              <p className="col-span-2 md:col-span-4 text-xs text-gray-500">
+                {selected.kind === 'base'
+                  ? 'Edits on the base image see it and every AI edit layer; unmasked edits merge them into a new base.'
+                  : 'Masking and prompts now edit this layer. Masked edits add a new layer above it.'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LayerPanel;
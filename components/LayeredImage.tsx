@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { ImageVersion, Layer } from '../types';
+import { flattenLayers, hasVisibleLayers } from '../services/layers';
+
+// Flattened previews by layer stack, so re-rendering the history doesn't re-flatten every version.
+const previewCache = new WeakMap<Layer[], Promise<string>>();
+
+interface LayeredImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  version: ImageVersion;
+}
+
+/**
+ * Shows a version as it looks with its layers, falling back to its own image until the layers are flattened.
+ */
+const LayeredImage: React.FC<LayeredImageProps> = ({ version, ...imgProps }) => {
+  const [src, setSrc] = useState(version.base64);
+
+  useEffect(() => {
+    if (!version.layers || !hasVisibleLayers(version)) {
+      setSrc(version.base64);
+      return;
+    }
+    let preview = previewCache.get(version.layers);
+    if (!preview) {
+      preview = flattenLayers(version);
+      previewCache.set(version.layers, preview);
+    }
+    let isCancelled = false;
+    preview
+      .then(flattened => { if (!isCancelled) setSrc(flattened); })
+      .catch(e => console.error("Failed to render layers for a preview:", e));
+    return () => { isCancelled = true; };
+  }, [version.base64, version.layers]);
+
+  return <img src={src} {...imgProps} />;
+};
+
+export default LayeredImage;
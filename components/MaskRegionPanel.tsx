@@ -0,0 +1,144 @@
+import React from 'react';
+import { MaskEncoding, RegionPrompt } from '../types';
+import { MASK_ENCODINGS } from '../services/maskEncoding';
+import { Region, RegionTarget, getNextRegionId } from './maskRegions';
+
+interface MaskRegionPanelProps {
+  regions: Region[];
+  regionPrompts: RegionPrompt[];
+  target: RegionTarget; // Where the next shape goes; a region key means that region is selected
+  onTargetChange: (target: RegionTarget) => void;
+  onMerge: (intoKey: string, fromKey: string) => void;
+  onDelete: (key: string) => void;
+  onMove: (key: string, direction: 'up' | 'down') => void;
+  onFeatherChange: (key: string, feather: number) => void;
+  editSeparately: boolean; // Send each region to the model on its own, one after another
+  onEditSeparatelyChange: (editSeparately: boolean) => void;
+  maskEncoding: MaskEncoding; // How the regions are told apart for the model
+  onMaskEncodingChange: (encoding: MaskEncoding) => void;
+  disabled: boolean;
+}
+
+/**
+ * Lists the mask's numbered regions and lets them be picked to draw into, merged, deleted and renumbered.
+ */
+const MaskRegionPanel: React.FC<MaskRegionPanelProps> = ({
+  regions,
+  regionPrompts,
+  target,
+  onTargetChange,
+  onMerge,
+  onDelete,
+  onMove,
+  onFeatherChange,
+  editSeparately,
+  onEditSeparatelyChange,
+  maskEncoding,
+  onMaskEncodingChange,
+  disabled,
+}) => {
+  const sorted = [...regions].sort((a, b) => a.id - b.id);
+  const selected = regions.find(r => r.key === target);
+
+  let hint: string;
+  if (target === 'new') {
+    hint = `Your next shape starts region ${getNextRegionId(regions)}, even next to another region.`;
+  } else if (selected) {
+    hint = `New shapes go into region ${selected.id} wherever you draw, and the eraser only erases from it.`;
+  } else {
+    hint = 'New shapes join a nearby region or start a new one. Select a region to draw only into it.';
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 mt-2">
+      <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Regions</h3>
+          <button
+            onClick={() => onTargetChange(target === 'new' ? 'auto' : 'new')}
+            disabled={disabled}
+            className={`text-xs px-2 py-1 rounded-md ${target === 'new' ? 'bg-blue-600 text-white' : 'text-blue-400 hover:text-blue-300 hover:bg-gray-700'} disabled:opacity-50`}
+            aria-pressed={target === 'new'}
+          >
+            + New Region
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">{hint}</p>
+        <label className="flex items-center space-x-2 text-xs text-gray-300" title="Edit each region with its own mask and prompt, each building on the last. Slower, but one region can't bleed into another.">
+          <input
+            type="checkbox"
+            checked={editSeparately}
+            onChange={(e) => onEditSeparatelyChange(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>One pass per region</span>
+        </label>
+        <label className="flex items-center space-x-2 text-xs text-gray-300" title="The model always gets a plain black and white mask plus each region's bounding box. This picks what tells the regions apart.">
+          <span>Send regions as</span>
+          <select
+            value={maskEncoding}
+            onChange={(e) => onMaskEncodingChange(e.target.value as MaskEncoding)}
+            disabled={disabled}
+            className="bg-gray-900 border border-gray-600 text-white rounded-md px-1 py-0.5 text-xs"
+          >
+            {MASK_ENCODINGS.map(encoding => (
+              <option key={encoding.value} value={encoding.value}>{encoding.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {sorted.length > 0 && (
+          <ul className="space-y-1">
+            {sorted.map((region, index) => {
+              const isSelected = region.key === selected?.key;
+              const prompt = regionPrompts.find(p => p.id === region.id)?.prompt.trim();
+              return (
+                <li
+                  key={region.key}
+                  className={`flex items-center space-x-2 rounded-md px-2 py-1 text-sm ${isSelected ? 'bg-blue-600/40 ring-1 ring-blue-500' : 'bg-gray-900/40 hover:bg-gray-700/50'}`}
+                >
+                  <button
+                    onClick={() => onTargetChange(isSelected ? 'auto' : region.key)}
+                    disabled={disabled}
+                    className="flex-grow min-w-0 flex items-center space-x-2 text-left"
+                    aria-pressed={isSelected}
+                  >
+                    <span className="text-xs font-bold text-white bg-gray-700 w-6 h-6 flex items-center justify-center rounded-full flex-shrink-0">{region.id}</span>
+                    <span className={`truncate ${prompt ? 'text-gray-200' : 'text-gray-500 italic'}`}>{prompt || 'No prompt yet'}</span>
+                  </button>
+                  <label className="flex items-center space-x-1 text-xs text-gray-400 flex-shrink-0" title="How far this region's edit fades in from its edge">
+                    <span>Feather</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="40"
+                      value={region.feather}
+                      onChange={(e) => onFeatherChange(region.key, Math.min(40, Math.max(0, Number(e.target.value) || 0)))}
+                      disabled={disabled}
+                      className="w-14 bg-gray-900 border border-gray-600 text-white rounded-md px-1 py-0.5 text-xs"
+                      aria-label={`Feather for region ${region.id}`}
+                    />
+                  </label>
+                  {selected && !isSelected && (
+                    <button
+                      onClick={() => onMerge(selected.key, region.key)}
+                      disabled={disabled}
+                      className="text-xs px-2 py-0.5 rounded-md text-purple-300 hover:bg-gray-700 flex-shrink-0"
+                    >
+                      Merge into {selected.id}
+                    </button>
+                  )}
+                  <button onClick={() => onMove(region.key, 'up')} disabled={disabled || index === 0} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={`Renumber region ${region.id} down to ${region.id - 1}`}>▲</button>
+                  <button onClick={() => onMove(region.key, 'down')} disabled={disabled || index === sorted.length - 1} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={`Renumber region ${region.id} up`}>▼</button>
+                  <button onClick={() => onDelete(region.key)} disabled={disabled} className="px-1 text-red-400 hover:text-red-300" aria-label={`Delete region ${region.id}`}>✕</button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaskRegionPanel;
@@ -1,95 +1,125 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { RegionMask } from '../types';
+import { Point, Region, RegionTarget, MaskShape, MaskTool, addShapeToRegions, eraseFromRegions, isPathClosed } from './maskRegions';
+import { featherMask } from '../services/maskCompositing';
 
 interface MaskingCanvasProps {
   imageSrc: string;
   isEnabled: boolean;
+  tool: MaskTool;
   brushSize: number;
+  fillClosedPaths: boolean;
+  newRegionFeather: number; // Feather given to regions started from here on
+  regions: Region[];
+  target: RegionTarget; // Where new shapes go; a selected region is also highlighted and the only one erased from
+  onRegionsChange: (regions: Region[]) => void; // Called once per finished shape, as one undoable step
   onCompositeImageChange: (base64: string | null) => void;
-  onMaskImageChange: (base64: string | null) => void; // New callback for the data mask
-  onHistoryChange: (history: { canUndo: boolean; canRedo: boolean }) => void;
-  onRegionsChange: (regions: { id: number }[]) => void;
-  undoTrigger: number;
-  redoTrigger: number;
-  clearTrigger: number;
+  onMaskImageChange: (base64: string | null) => void; // Every region together, white on black
+  onRegionMasksChange: (masks: RegionMask[]) => void; // Each region alone, in id order
 }
 
-type Point = { x: number; y: number };
-type Path = Point[];
-type Bbox = { minX: number; minY: number; maxX: number; maxY: number };
-type Region = { id: number; paths: Path[]; bbox: Bbox };
-
-const MERGE_THRESHOLD_MULTIPLIER = 2.5;
-
-const getPathBbox = (path: Path): Bbox => {
-  return path.reduce(
-    (acc, point) => ({
-      minX: Math.min(acc.minX, point.x),
-      minY: Math.min(acc.minY, point.y),
-      maxX: Math.max(acc.maxX, point.x),
-      maxY: Math.max(acc.maxY, point.y),
-    }),
-    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
-  );
+const REGION_COLOR = 'rgb(239, 68, 68)';
+const SELECTED_REGION_COLOR = 'rgb(59, 130, 246)';
+
+// Adds a shape's outline to the context's path and paints it with the current styles.
+const traceShape = (ctx: CanvasRenderingContext2D, shape: MaskShape) => {
+  const { points } = shape;
+  if (points.length < 1) return;
+  ctx.beginPath();
+  if (shape.tool === 'rectangle' || shape.tool === 'ellipse') {
+    const [start, end = start] = points;
+    if (shape.tool === 'rectangle') {
+      ctx.rect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+    } else {
+      ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+    }
+    ctx.fill();
+    return;
+  }
+
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y);
+  }
+  if (shape.tool === 'lasso') {
+    ctx.closePath();
+    ctx.fill();
+    return;
+  }
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = shape.size;
+  ctx.stroke();
+  if (shape.fill) ctx.fill();
 };
 
-const mergeBboxes = (b1: Bbox, b2: Bbox): Bbox => ({
-  minX: Math.min(b1.minX, b2.minX),
-  minY: Math.min(b1.minY, b2.minY),
-  maxX: Math.max(b1.maxX, b2.maxX),
-  maxY: Math.max(b1.maxY, b2.maxY),
-});
-
-const areBboxesClose = (b1: Bbox, b2: Bbox, threshold: number): boolean => {
-  const expandedB1 = {
-    minX: b1.minX - threshold,
-    minY: b1.minY - threshold,
-    maxX: b1.maxX + threshold,
-    maxY: b1.maxY + threshold,
-  };
-  return (
-    expandedB1.minX <= b2.maxX &&
-    expandedB1.maxX >= b2.minX &&
-    expandedB1.minY <= b2.maxY &&
-    expandedB1.maxY >= b2.minY
-  );
+// Paints one region on its own canvas in a solid color, so its erasers can't cut into anything else.
+const renderRegion = (scratch: HTMLCanvasElement, region: Region, color: string) => {
+  const ctx = scratch.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.clearRect(0, 0, scratch.width, scratch.height);
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  region.shapes.forEach(shape => {
+    ctx.globalCompositeOperation = shape.tool === 'eraser' ? 'destination-out' : 'source-over';
+    traceShape(ctx, shape);
+  });
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+// Fades a rendered region in from its edge, inwards only, so the mask never grows past what was drawn.
+const featherRegion = (scratch: HTMLCanvasElement, feather: number) => {
+  const ctx = scratch.getContext('2d', { willReadFrequently: true });
+  if (!ctx || feather <= 0) return;
+  const pixels = ctx.getImageData(0, 0, scratch.width, scratch.height);
+  const { data } = pixels;
+  const alpha = new Uint8ClampedArray(scratch.width * scratch.height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  const feathered = featherMask(alpha, scratch.width, scratch.height, feather);
+  for (let i = 0; i < alpha.length; i++) data[i * 4 + 3] = feathered[i];
+  ctx.putImageData(pixels, 0, 0);
+};
+
+const createScratch = (width: number, height: number) => {
+  const scratch = document.createElement('canvas');
+  scratch.width = width;
+  scratch.height = height;
+  return scratch;
 };
 
 const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
   imageSrc,
   isEnabled,
+  tool,
   brushSize,
+  fillClosedPaths,
+  newRegionFeather,
+  regions,
+  target,
+  onRegionsChange,
   onCompositeImageChange,
   onMaskImageChange,
-  onHistoryChange,
-  onRegionsChange,
-  undoTrigger,
-  redoTrigger,
-  clearTrigger,
+  onRegionMasksChange,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scratchRef = useRef<HTMLCanvasElement | null>(null);
   const imageRef = useRef<HTMLImageElement | null>(null);
-  const isDrawing = useRef(false);
-  const currentPath = useRef<Path>([]);
-  
-  const [history, setHistory] = useState<Region[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const isDrawing = useRef(false); // While dragging a brush, eraser, rectangle or ellipse
+  const currentShape = useRef<MaskShape | null>(null); // Also holds a lasso between clicks
+  const lassoCursor = useRef<Point | null>(null);
+
   const [cursorPosition, setCursorPosition] = useState({ x: -100, y: -100 });
-  
-  const regions = history[historyIndex] || [];
+  const [cursorScale, setCursorScale] = useState(1); // CSS pixels per image pixel, before any zoom
 
-  const updateHistory = useCallback((newRegions: Region[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newRegions);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  }, [history, historyIndex]);
+  const selectedKey = regions.some(r => r.key === target) ? target : undefined;
 
   const getCanvasCoordinates = (event: MouseEvent | TouchEvent): Point | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
     const rect = canvas.getBoundingClientRect();
-    
+
     let clientX, clientY;
     if (event instanceof MouseEvent) {
       clientX = event.clientX;
@@ -109,31 +139,26 @@ const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
     };
   };
 
-  const drawRegionsOnContext = useCallback((ctx: CanvasRenderingContext2D, color: string, isForMask: boolean) => {
-      ctx.strokeStyle = color;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.lineWidth = brushSize;
-       if (isForMask) {
-           ctx.fillStyle = color;
-       }
+  const getScratch = (width: number, height: number) => {
+    if (!scratchRef.current || scratchRef.current.width !== width || scratchRef.current.height !== height) {
+      scratchRef.current = createScratch(width, height);
+    }
+    return scratchRef.current;
+  };
+
+  const drawRegionsOnContext = useCallback((ctx: CanvasRenderingContext2D, opacity: number, highlightKey?: string) => {
+      const scratch = getScratch(ctx.canvas.width, ctx.canvas.height);
+      ctx.save();
+      ctx.globalAlpha = opacity;
       regions.forEach(region => {
-          region.paths.forEach(path => {
-              if (path.length < 1) return;
-              ctx.beginPath();
-              ctx.moveTo(path[0].x, path[0].y);
-              for (let i = 1; i < path.length; i++) {
-                  ctx.lineTo(path[i].x, path[i].y);
-              }
-              ctx.stroke();
-               if (isForMask) {
-                   ctx.fill(); // Fill the path on the mask
-               }
-          });
+          renderRegion(scratch, region, region.key === highlightKey ? SELECTED_REGION_COLOR : REGION_COLOR);
+          ctx.drawImage(scratch, 0, 0);
       });
-  }, [regions, brushSize]);
+      ctx.restore();
+  }, [regions]);
 
-  const drawRegionNumbersOnContext = useCallback((ctx: CanvasRenderingContext2D, isForMask: boolean) => {
+  // Numbers are only ever drawn for people to see; on a mask the model would take them for part of a region.
+  const drawRegionNumbersOnContext = useCallback((ctx: CanvasRenderingContext2D) => {
       const smallerDim = Math.min(ctx.canvas.width, ctx.canvas.height);
       const baseFontSize = Math.max(24, smallerDim * 0.05);
 
@@ -144,56 +169,62 @@ const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
       regions.forEach(region => {
           const centerX = region.bbox.minX + (region.bbox.maxX - region.bbox.minX) / 2;
           const centerY = region.bbox.minY + (region.bbox.maxY - region.bbox.minY) / 2;
-          
-          if (isForMask) {
-              ctx.fillStyle = '#FFFFFF'; // White text for the mask
-              ctx.fillText(String(region.id), centerX, centerY);
-          } else {
-              ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
-              ctx.lineWidth = baseFontSize * 0.15;
-              ctx.strokeText(String(region.id), centerX, centerY);
-              
-              ctx.fillStyle = '#FFFF00'; // Bright yellow for display
-              ctx.fillText(String(region.id), centerX, centerY);
-          }
+
+          ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+          ctx.lineWidth = baseFontSize * 0.15;
+          ctx.strokeText(String(region.id), centerX, centerY);
+
+          ctx.fillStyle = '#FFFF00'; // Bright yellow for display
+          ctx.fillText(String(region.id), centerX, centerY);
       });
   }, [regions]);
 
-  const drawCurrentPath = useCallback((ctx: CanvasRenderingContext2D) => {
-      const path = currentPath.current;
-      if (path.length < 1) return;
-      ctx.strokeStyle = 'rgba(239, 68, 68, 0.7)';
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.lineWidth = brushSize;
-      ctx.beginPath();
-      ctx.moveTo(path[0].x, path[0].y);
-      for (let i = 1; i < path.length; i++) {
-          ctx.lineTo(path[i].x, path[i].y);
+  const drawCurrentShape = useCallback((ctx: CanvasRenderingContext2D) => {
+      const shape = currentShape.current;
+      if (!shape || shape.points.length < 1) return;
+      const screenScale = ctx.canvas.width / ctx.canvas.getBoundingClientRect().width || 1;
+      ctx.save();
+      ctx.fillStyle = 'rgba(239, 68, 68, 0.5)';
+      ctx.strokeStyle = shape.tool === 'eraser' ? 'rgba(255, 255, 255, 0.6)' : 'rgba(239, 68, 68, 0.7)';
+      if (shape.tool === 'lasso') {
+          // The outline so far, with a rubber band to the pointer and a dot to close on.
+          const points = lassoCursor.current ? [...shape.points, lassoCursor.current] : shape.points;
+          ctx.lineWidth = 2 * screenScale;
+          ctx.beginPath();
+          ctx.moveTo(points[0].x, points[0].y);
+          points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+          ctx.stroke();
+          ctx.fillStyle = '#FFFFFF';
+          ctx.beginPath();
+          ctx.arc(shape.points[0].x, shape.points[0].y, 4 * screenScale, 0, Math.PI * 2);
+          ctx.fill();
+      } else {
+          traceShape(ctx, shape);
       }
-      ctx.stroke();
-  }, [brushSize]);
+      ctx.restore();
+  }, []);
 
   const redrawCanvas = useCallback(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
     if (!ctx) return;
-    
+
     ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
     if (!isEnabled) return;
-    
-    drawRegionsOnContext(ctx, 'rgba(239, 68, 68, 0.7)', false);
-    if (!isDrawing.current) {
-      drawRegionNumbersOnContext(ctx, false);
+
+    drawRegionsOnContext(ctx, 0.7, selectedKey);
+    if (!currentShape.current) {
+      drawRegionNumbersOnContext(ctx);
     } else {
-      drawCurrentPath(ctx);
+      drawCurrentShape(ctx);
     }
-  }, [isEnabled, drawRegionsOnContext, drawRegionNumbersOnContext, drawCurrentPath]);
+  }, [isEnabled, selectedKey, drawRegionsOnContext, drawRegionNumbersOnContext, drawCurrentShape]);
 
   const generateOutputImages = useCallback(async () => {
     if (regions.length === 0) {
       onCompositeImageChange(null);
       onMaskImageChange(null);
+      onRegionMasksChange([]);
       return;
     }
 
@@ -207,12 +238,12 @@ const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
     const compositeCtx = compositeCanvas.getContext('2d');
     if (compositeCtx) {
         compositeCtx.drawImage(image, 0, 0);
-        drawRegionsOnContext(compositeCtx, 'rgba(239, 68, 68, 0.5)', false);
-        drawRegionNumbersOnContext(compositeCtx, false);
+        drawRegionsOnContext(compositeCtx, 0.5);
+        drawRegionNumbersOnContext(compositeCtx);
         onCompositeImageChange(compositeCanvas.toDataURL('image/png'));
     }
 
-    // Create Black and White Mask Image for API
+    // Create Black and White Mask Image for API, with each region's edge faded in by its feather
     const maskCanvas = document.createElement('canvas');
     maskCanvas.width = image.naturalWidth;
     maskCanvas.height = image.naturalHeight;
@@ -220,69 +251,121 @@ const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
     if (maskCtx) {
         maskCtx.fillStyle = '#000000';
         maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-        drawRegionsOnContext(maskCtx, '#FFFFFF', true);
-        drawRegionNumbersOnContext(maskCtx, true);
+        const scratch = createScratch(maskCanvas.width, maskCanvas.height);
+        const regionMasks: RegionMask[] = [];
+        regions.forEach(region => {
+            renderRegion(scratch, region, '#FFFFFF');
+            featherRegion(scratch, region.feather);
+            maskCtx.drawImage(scratch, 0, 0);
+            const regionCanvas = createScratch(maskCanvas.width, maskCanvas.height);
+            const regionCtx = regionCanvas.getContext('2d');
+            if (!regionCtx) return;
+            regionCtx.fillStyle = '#000000';
+            regionCtx.fillRect(0, 0, regionCanvas.width, regionCanvas.height);
+            regionCtx.drawImage(scratch, 0, 0);
+            regionMasks.push({ id: region.id, maskBase64: regionCanvas.toDataURL('image/png') });
+        });
         onMaskImageChange(maskCanvas.toDataURL('image/png'));
+        onRegionMasksChange(regionMasks.sort((a, b) => a.id - b.id));
+    }
+  }, [regions, onCompositeImageChange, onMaskImageChange, onRegionMasksChange, drawRegionsOnContext, drawRegionNumbersOnContext]);
+
+  const commitShape = useCallback((shape: MaskShape) => {
+    if (shape.tool === 'eraser') {
+      const erased = eraseFromRegions(regions, shape, selectedKey);
+      if (erased !== regions) onRegionsChange(erased);
+      return;
+    }
+    const finished = shape.tool === 'brush' ? { ...shape, fill: fillClosedPaths && isPathClosed(shape.points, shape.size) } : shape;
+    onRegionsChange(addShapeToRegions(regions, finished, newRegionFeather, target));
+  }, [regions, selectedKey, target, fillClosedPaths, newRegionFeather, onRegionsChange]);
+
+  const cancelLasso = useCallback(() => {
+    if (currentShape.current?.tool !== 'lasso') return;
+    currentShape.current = null;
+    lassoCursor.current = null;
+    redrawCanvas();
+  }, [redrawCanvas]);
+
+  const finishLasso = useCallback(() => {
+    const lasso = currentShape.current;
+    if (lasso?.tool !== 'lasso') return;
+    currentShape.current = null;
+    lassoCursor.current = null;
+    if (lasso.points.length >= 3) {
+      commitShape(lasso);
+    } else {
+      redrawCanvas();
     }
-  }, [regions, onCompositeImageChange, onMaskImageChange, drawRegionsOnContext, drawRegionNumbersOnContext]);
+  }, [commitShape, redrawCanvas]);
 
   const startDrawing = useCallback((event: MouseEvent | TouchEvent) => {
     if (!isEnabled || (event instanceof MouseEvent && event.button !== 0)) return;
-    isDrawing.current = true;
     const point = getCanvasCoordinates(event);
-    if (point) {
-      currentPath.current = [point];
+    if (!point) return;
+
+    if (tool === 'lasso') {
+      // Each click adds a corner; clicking the first corner again closes the outline.
+      event.preventDefault();
+      const lasso = currentShape.current;
+      if (!lasso) {
+        currentShape.current = { tool, points: [point], size: brushSize, fill: true };
+      } else if (lasso.points.length >= 3 && Math.hypot(point.x - lasso.points[0].x, point.y - lasso.points[0].y) <= brushSize / 2) {
+        finishLasso();
+        return;
+      } else {
+        lasso.points.push(point);
+      }
+      redrawCanvas();
+      return;
     }
-  }, [isEnabled]);
+
+    isDrawing.current = true;
+    currentShape.current = { tool, points: [point], size: brushSize, fill: false };
+  }, [isEnabled, tool, brushSize, finishLasso, redrawCanvas]);
 
   const draw = useCallback((event: MouseEvent | TouchEvent) => {
-    if (!isDrawing.current || !isEnabled) return;
+    const shape = currentShape.current;
+    if (!shape || !isEnabled) return;
     event.preventDefault();
     const point = getCanvasCoordinates(event);
-    if (point) {
-      currentPath.current.push(point);
-      redrawCanvas();
+    if (!point) return;
+
+    if (shape.tool === 'lasso') {
+      lassoCursor.current = point;
+    } else if (!isDrawing.current) {
+      return;
+    } else if (shape.tool === 'rectangle' || shape.tool === 'ellipse') {
+      shape.points = [shape.points[0], point];
+    } else {
+      shape.points.push(point);
     }
+    redrawCanvas();
   }, [isEnabled, redrawCanvas]);
 
   const stopDrawing = useCallback(() => {
     if (!isDrawing.current) return;
     isDrawing.current = false;
-    
-    if (currentPath.current.length > 0) {
-      const newPath = [...currentPath.current];
-      const newPathBbox = getPathBbox(newPath);
-      let merged = false;
-      const newRegions = regions.map(region => {
-        if (!merged && areBboxesClose(region.bbox, newPathBbox, brushSize * MERGE_THRESHOLD_MULTIPLIER)) {
-          merged = true;
-          return {
-            ...region,
-            paths: [...region.paths, newPath],
-            bbox: mergeBboxes(region.bbox, newPathBbox),
-          };
-        }
-        return region;
-      });
+    const shape = currentShape.current;
+    currentShape.current = null;
 
-      if (!merged) {
-        newRegions.push({
-          id: (regions.length > 0 ? Math.max(...regions.map(r => r.id)) : 0) + 1,
-          paths: [newPath],
-          bbox: newPathBbox,
-        });
-      }
-      updateHistory(newRegions);
+    const isEmptyBox = (shape?.tool === 'rectangle' || shape?.tool === 'ellipse') &&
+      (shape.points.length < 2 || shape.points[0].x === shape.points[1].x || shape.points[0].y === shape.points[1].y);
+    if (shape && shape.points.length > 0 && !isEmptyBox) {
+      commitShape(shape);
     }
-    currentPath.current = [];
     redrawCanvas();
-  }, [regions, brushSize, updateHistory, redrawCanvas]);
-  
+  }, [commitShape, redrawCanvas]);
+
+  // The cursor lives inside any zoom, so it's placed in the container's own unzoomed pixels.
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-      const rect = containerRef.current?.getBoundingClientRect();
-      if (rect) {
-          setCursorPosition({ x: e.clientX - rect.left, y: e.clientY - rect.top });
-      }
+      const container = containerRef.current;
+      const canvas = canvasRef.current;
+      if (!container || !canvas) return;
+      const rect = container.getBoundingClientRect();
+      const zoom = rect.width / container.offsetWidth || 1;
+      setCursorPosition({ x: (e.clientX - rect.left) / zoom, y: (e.clientY - rect.top) / zoom });
+      setCursorScale(container.offsetWidth / canvas.width || 1);
   }, []);
 
   useEffect(() => {
@@ -299,25 +382,42 @@ const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
     container.addEventListener('mousemove', draw);
     container.addEventListener('mouseup', stopDrawing);
     container.addEventListener('mouseleave', stop);
+    container.addEventListener('dblclick', finishLasso);
     container.addEventListener('touchstart', startDrawing, { passive: false });
     container.addEventListener('touchmove', draw, { passive: false });
     container.addEventListener('touchend', stopDrawing);
-    
+
     return () => {
       container.removeEventListener('mousedown', startDrawing);
       container.removeEventListener('mousemove', draw);
       container.removeEventListener('mouseup', stopDrawing);
       container.removeEventListener('mouseleave', stop);
+      container.removeEventListener('dblclick', finishLasso);
       container.removeEventListener('touchstart', startDrawing);
       container.removeEventListener('touchmove', draw);
       container.removeEventListener('touchend', stopDrawing);
     };
-  }, [startDrawing, draw, stopDrawing]);
+  }, [startDrawing, draw, stopDrawing, finishLasso]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') cancelLasso();
+      else if (e.key === 'Enter') finishLasso();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEnabled, cancelLasso, finishLasso]);
+
+  // A half-drawn lasso doesn't survive switching tools or leaving masking.
+  useEffect(() => {
+    cancelLasso();
+  }, [tool, isEnabled]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
+
     const img = new Image();
     img.crossOrigin = "anonymous"; // Handle potential CORS issues if image is not a data URL
     img.src = imageSrc;
@@ -333,44 +433,28 @@ const MaskingCanvas: React.FC<MaskingCanvasProps> = ({
   useEffect(() => {
     redrawCanvas();
     generateOutputImages();
-    onHistoryChange({ canUndo: historyIndex > 0, canRedo: historyIndex < history.length - 1 });
-    onRegionsChange(regions.map(r => ({ id: r.id })));
-  }, [regions, redrawCanvas, generateOutputImages, onHistoryChange, onRegionsChange, history.length, historyIndex]);
-  
-  useEffect(() => {
-    if (undoTrigger > 0) setHistoryIndex(i => Math.max(0, i - 1));
-  }, [undoTrigger]);
-
-  useEffect(() => {
-    if (redoTrigger > 0) setHistoryIndex(i => Math.min(history.length - 1, i + 1));
-  }, [redoTrigger]);
-
-  useEffect(() => {
-    if (clearTrigger > 0) {
-        const newHistory = [[]];
-        setHistory(newHistory);
-        setHistoryIndex(0);
-    }
-  }, [clearTrigger]);
+  }, [regions, redrawCanvas, generateOutputImages]);
 
   useEffect(() => {
     redrawCanvas();
   }, [isEnabled, redrawCanvas]);
 
+  const showsBrush = tool === 'brush' || tool === 'eraser';
+
   return (
     <div
       ref={containerRef}
-      className={`absolute inset-0 ${ isEnabled ? `cursor-none` : 'pointer-events-none'}`}
+      className={`absolute inset-0 ${ isEnabled ? (showsBrush ? 'cursor-none' : 'cursor-crosshair') : 'pointer-events-none'}`}
       onMouseMove={handleMouseMove}
       onMouseLeave={() => setCursorPosition({ x: -100, y: -100 })}
     >
       <canvas ref={canvasRef} className="w-full h-full" />
-      {isEnabled && (
+      {isEnabled && showsBrush && (
           <div
-              className="absolute pointer-events-none rounded-full border border-white bg-white/25"
+              className={`absolute pointer-events-none rounded-full border ${tool === 'eraser' ? 'border-dashed border-white bg-black/25' : 'border-white bg-white/25'}`}
               style={{
-                  width: brushSize,
-                  height: brushSize,
+                  width: brushSize * cursorScale,
+                  height: brushSize * cursorScale,
                   left: cursorPosition.x,
                   top: cursorPosition.y,
                   transform: `translate(-50%, -50%)`,
@@ -1,31 +1,51 @@
 import React from 'react';
+import { MaskCompositingOptions } from '../types';
+import { MaskTool, MASK_TOOLS } from './maskRegions';
 
 interface MaskingToolbarProps {
   isMasking: boolean;
   onToggleMasking: () => void;
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
   brushSize: number;
   onBrushSizeChange: (size: number) => void;
+  fillClosedPaths: boolean;
+  onFillClosedPathsChange: (fill: boolean) => void;
+  newRegionFeather: number;
+  onNewRegionFeatherChange: (feather: number) => void;
+  maskCompositing: MaskCompositingOptions;
+  onMaskCompositingChange: (options: MaskCompositingOptions) => void;
   onUndo: () => void;
   onRedo: () => void;
   onClear: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  onAddText?: () => void;
 }
 
 const MaskingToolbar: React.FC<MaskingToolbarProps> = ({
   isMasking,
   onToggleMasking,
+  tool,
+  onToolChange,
   brushSize,
   onBrushSizeChange,
+  fillClosedPaths,
+  onFillClosedPathsChange,
+  newRegionFeather,
+  onNewRegionFeatherChange,
+  maskCompositing,
+  onMaskCompositingChange,
   onUndo,
   onRedo,
   onClear,
   canUndo,
-  canRedo
+  canRedo,
+  onAddText
 }) => {
   return (
     <div className="w-full max-w-4xl mx-auto px-4 mt-4 mb-2">
-      <div className="bg-gray-800/50 rounded-lg p-2 flex items-center justify-between space-x-4">
+      <div className="bg-gray-800/50 rounded-lg p-2 flex flex-wrap items-center justify-between gap-4">
         <button
           onClick={onToggleMasking}
           className={`px-4 py-2 text-sm font-semibold rounded-md transition-all flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 ${
@@ -41,9 +61,33 @@ const MaskingToolbar: React.FC<MaskingToolbarProps> = ({
           </svg>
           <span>{isMasking ? 'Disable Masking' : 'Enable Masking'}</span>
         </button>
+
+        {!isMasking && onAddText && (
+          <button
+            onClick={onAddText}
+            className="px-4 py-2 text-sm font-semibold rounded-md transition-all flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <span className="font-serif font-bold">T</span>
+            <span>Add Text</span>
+          </button>
+        )}
         
         {isMasking && (
-          <div className="flex-grow flex items-center space-x-4 text-sm">
+          <div className="flex-grow flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+            <div className="flex rounded-md bg-gray-900/60 p-0.5" role="group" aria-label="Mask tool">
+              {MASK_TOOLS.map(option => (
+                <button
+                  key={option.tool}
+                  onClick={() => onToolChange(option.tool)}
+                  className={`px-2 py-1 rounded text-xs font-semibold ${tool === option.tool ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                  aria-pressed={tool === option.tool}
+                  title={option.tool === 'lasso' ? 'Click to add corners; click the first corner, double-click or press Enter to close, Esc to cancel' : undefined}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
             <label htmlFor="brush-size" className="text-gray-300">Brush Size:</label>
             <input
               id="brush-size"
@@ -52,11 +96,40 @@ const MaskingToolbar: React.FC<MaskingToolbarProps> = ({
               max="150"
               value={brushSize}
               onChange={(e) => onBrushSizeChange(Number(e.target.value))}
-              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              className="flex-grow min-w-[6rem] h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
               aria-label="Brush size"
             />
             <span className="text-white font-mono w-8 text-right">{brushSize}</span>
 
+            {tool === 'brush' && (
+              <label className="flex items-center space-x-1 text-gray-300 whitespace-nowrap" title="Fills the inside of strokes that end where they started">
+                <input type="checkbox" checked={fillClosedPaths} onChange={(e) => onFillClosedPathsChange(e.target.checked)} />
+                <span>Fill closed</span>
+              </label>
+            )}
+
+            <label htmlFor="feather-radius" className="text-gray-300" title="How far new regions fade in from their edge. Pixels outside the mask never change.">Feather:</label>
+            <input
+              id="feather-radius"
+              type="range"
+              min="0"
+              max="40"
+              value={newRegionFeather}
+              onChange={(e) => onNewRegionFeatherChange(Number(e.target.value))}
+              className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              aria-label="Feather for new regions"
+            />
+            <span className="text-white font-mono w-8 text-right">{newRegionFeather}</span>
+
+            <label className="flex items-center space-x-1 text-gray-300 whitespace-nowrap" title="Shifts the result back if the model moved the picture">
+              <input
+                type="checkbox"
+                checked={maskCompositing.autoAlign}
+                onChange={(e) => onMaskCompositingChange({ ...maskCompositing, autoAlign: e.target.checked })}
+              />
+              <span>Auto-align</span>
+            </label>
+
             <button
               onClick={onUndo}
               disabled={!canUndo}
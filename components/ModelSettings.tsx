@@ -0,0 +1,60 @@
+import React from 'react';
+import { PROVIDERS, ModelChoice, ModelSelection } from '../services/aiService';
+import type { ProviderOperation } from '../services/imageProvider';
+
+interface ModelSettingsProps {
+  selection: ModelSelection;
+  onChange: (operation: ProviderOperation, choice: ModelChoice) => void;
+}
+
+const operationLabels: Record<ProviderOperation, string> = {
+  generate: 'Image Generation',
+  edit: 'Image Editing',
+  describe: 'Character Analysis',
+  suggest: 'Text Suggestions',
+};
+
+const encodeChoice = ({ providerId, model }: ModelChoice) => `${providerId}::${model}`;
+
+const decodeChoice = (value: string): ModelChoice => {
+  const [providerId, model] = value.split('::');
+  return { providerId, model };
+};
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ selection, onChange }) => {
+  const operations = Object.keys(operationLabels) as ProviderOperation[];
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-400 mb-3 uppercase tracking-wider">Models</h3>
+      <div className="space-y-3">
+        {operations.map(operation => (
+          <div key={operation} className="flex items-center justify-between space-x-2">
+            <label htmlFor={`model-${operation}`} className="text-sm text-gray-300 flex-shrink-0">
+              {operationLabels[operation]}
+            </label>
+            <select
+              id={`model-${operation}`}
+              value={encodeChoice(selection[operation])}
+              onChange={(e) => onChange(operation, decodeChoice(e.target.value))}
+              className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none max-w-[60%]"
+            >
+              {PROVIDERS.map(provider => (
+                <optgroup key={provider.id} label={provider.name}>
+                  {provider.models[operation].map(model => (
+                    <option key={model} value={encodeChoice({ providerId: provider.id, model })}>
+                      {model}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">The Offline Mock provider returns placeholder results and needs no API key.</p>
+    </div>
+  );
+};
+
+export default ModelSettings;
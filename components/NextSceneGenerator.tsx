@@ -1,18 +1,21 @@
 import React, { useState } from 'react';
+import FormatSelector from './FormatSelector';
 
 interface NextSceneGeneratorProps {
-  onSubmit: (prompt: string) => void;
+  onSubmit: (prompt: string, formatId: string) => void;
+  defaultFormatId: string; // The format closest to the current scene's
   isLoading: boolean;
   onCancel: () => void;
 }
 
-const NextSceneGenerator: React.FC<NextSceneGeneratorProps> = ({ onSubmit, isLoading, onCancel }) => {
+const NextSceneGenerator: React.FC<NextSceneGeneratorProps> = ({ onSubmit, defaultFormatId, isLoading, onCancel }) => {
   const [prompt, setPrompt] = useState('');
+  const [formatId, setFormatId] = useState(defaultFormatId);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim() && !isLoading) {
-      onSubmit(prompt);
+      onSubmit(prompt, formatId);
     }
   };
 
@@ -31,6 +34,10 @@ const NextSceneGenerator: React.FC<NextSceneGeneratorProps> = ({ onSubmit, isLoa
           className="w-full bg-gray-900 text-white placeholder-gray-400 border border-gray-600 focus:ring-blue-500 focus:border-blue-500 rounded-lg p-3 resize-none transition"
         />
 
+        <div className="flex justify-end mt-2">
+          <FormatSelector value={formatId} onChange={setFormatId} disabled={isLoading} />
+        </div>
+
         <div className="flex justify-center items-center space-x-4 mt-4">
           <button 
                 type="button"
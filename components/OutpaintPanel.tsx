@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Padding } from '../types';
+import { Size } from './viewport';
+import FormatSelector from './FormatSelector';
+import { findClosestFormat, getTargetFormat, planReframe, TARGET_FORMATS } from '../services/targetFormats';
+import { Edge, EDGES, describePadding, getPaddedSize, hasPadding, planExtend } from '../services/outpaint';
+
+interface OutpaintPanelProps {
+  imageSize: Size | null; // The active version's size; null until it has loaded
+  onOutpaint: (padding: Padding, label: string, formatId?: string) => void;
+  disabled: boolean;
+}
+
+const EXTEND_STEPS = [10, 25, 50, 100]; // Percent of the image's width or height per edge
+
+/**
+ * Grows the active version's canvas and has the model fill the new area, so nothing of the original is
+ * cropped: either to reach another format, or on chosen edges to make room, e.g. for a headline.
+ */
+const OutpaintPanel: React.FC<OutpaintPanelProps> = ({ imageSize, onOutpaint, disabled }) => {
+  const [formatId, setFormatId] = useState(TARGET_FORMATS[0].id);
+  const [edges, setEdges] = useState<Edge[]>(['top']);
+  const [extendPercent, setExtendPercent] = useState(25);
+
+  // Start from a format the image isn't already in.
+  useEffect(() => {
+    if (!imageSize) return;
+    const current = findClosestFormat(imageSize.width, imageSize.height);
+    setFormatId(prev => prev === current.id ? TARGET_FORMATS.find(f => f.aspectRatio !== current.aspectRatio)!.id : prev);
+  }, [imageSize]);
+
+  if (!imageSize) {
+    return null;
+  }
+
+  const format = getTargetFormat(formatId);
+  const padding = planReframe(imageSize.width, imageSize.height, format.aspectRatio);
+  const paddedSize = getPaddedSize(imageSize.width, imageSize.height, padding);
+  const extendPadding = planExtend(imageSize.width, imageSize.height, edges, extendPercent);
+  const extendedSize = getPaddedSize(imageSize.width, imageSize.height, extendPadding);
+
+  const toggleEdge = (edge: Edge) =>
+    setEdges(prev => prev.includes(edge) ? prev.filter(e => e !== edge) : EDGES.filter(e => e === edge || prev.includes(e)));
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 mt-4">
+      <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Reframe to a format</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <FormatSelector value={formatId} onChange={setFormatId} disabled={disabled} label="To:" />
+          <span className="text-xs text-gray-400">
+            {hasPadding(padding)
+              ? `${imageSize.width}×${imageSize.height} → ${paddedSize.width}×${paddedSize.height}, the new area filled by the model`
+              : 'The image already has this aspect ratio.'}
+          </span>
+          <button
+            onClick={() => onOutpaint(padding, `Reframe to ${format.label}`, format.id)}
+            disabled={disabled || !hasPadding(padding)}
+            className="ml-auto bg-blue-600 hover:bg-blue-500 text-white font-semibold px-3 py-1 rounded-md text-sm disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reframe
+          </button>
+        </div>
+
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider pt-2">Extend canvas</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-gray-900 rounded-md p-0.5" role="group" aria-label="Edges to grow">
+            {EDGES.map(edge => (
+              <button
+                key={edge}
+                type="button"
+                onClick={() => toggleEdge(edge)}
+                disabled={disabled}
+                aria-pressed={edges.includes(edge)}
+                className={`px-2 py-1 rounded text-xs font-semibold capitalize transition-colors disabled:opacity-50 ${
+                  edges.includes(edge) ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {edge}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-400">By:</span>
+            <select
+              value={extendPercent}
+              onChange={(e) => setExtendPercent(Number(e.target.value))}
+              disabled={disabled}
+              className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm disabled:opacity-50"
+            >
+              {EXTEND_STEPS.map(step => <option key={step} value={step}>{step}%</option>)}
+            </select>
+          </label>
+          <span className="text-xs text-gray-400">
+            {hasPadding(extendPadding)
+              ? `${describePadding(extendPadding)} → ${extendedSize.width}×${extendedSize.height}`
+              : 'Pick at least one edge.'}
+          </span>
+          <button
+            onClick={() => onOutpaint(extendPadding, `Extend ${describePadding(extendPadding)}`)}
+            disabled={disabled || !hasPadding(extendPadding)}
+            className="ml-auto bg-blue-600 hover:bg-blue-500 text-white font-semibold px-3 py-1 rounded-md text-sm disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Extend
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutpaintPanel;
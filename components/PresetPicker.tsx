@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { PromptPreset, getTemplateVariables, renderTemplate } from '../services/promptTemplates';
+
+interface PresetPickerProps {
+  presets: PromptPreset[];
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks one of the user's prompt presets, asks for its {{variables}} and inserts the filled-in text.
+ */
+const PresetPicker: React.FC<PresetPickerProps> = ({ presets, onInsert, disabled }) => {
+  const [presetId, setPresetId] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const preset = presets.find(p => p.id === presetId);
+  const variables = preset ? getTemplateVariables(preset.text) : [];
+
+  if (presets.length === 0) {
+    return null;
+  }
+
+  const handleInsert = () => {
+    if (!preset) return;
+    onInsert(renderTemplate(preset.text, values));
+    setPresetId('');
+    setValues({});
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={presetId}
+        onChange={(e) => { setPresetId(e.target.value); setValues({}); }}
+        disabled={disabled}
+        className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm"
+        aria-label="Insert a preset"
+      >
+        <option value="">Insert a preset...</option>
+        {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      {preset && (
+        <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+          {variables.map(name => (
+            <label key={name} className="flex items-center space-x-2 text-sm text-gray-300">
+              <span className="w-24 flex-shrink-0 font-mono text-xs text-blue-300">{name}</span>
+              <input
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                className="w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+            </label>
+          ))}
+          <p className="text-sm text-gray-400 italic">{renderTemplate(preset.text, values)}</p>
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => setPresetId('')} className="text-sm text-gray-400 hover:text-white px-2">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleInsert}
+              disabled={disabled || variables.some(name => !values[name]?.trim())}
+              className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-3 py-1 rounded-md text-sm disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Insert
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,153 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ProjectSummary } from '../types';
+
+interface ProjectPickerProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onSelectProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
+  onExportProject: (id: string) => void;
+  onImportProject: (file: File) => void;
+}
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  projects,
+  currentProjectId,
+  onSelectProject,
+  onCreateProject,
+  onRenameProject,
+  onDeleteProject,
+  onExportProject,
+  onImportProject,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const currentProject = projects.find(p => p.id === currentProjectId);
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      onImportProject(file);
+      setIsOpen(false);
+    }
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRenameProject(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div ref={pickerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 bg-gray-700/70 hover:bg-gray-700 px-3 py-1 text-sm rounded-md transition-colors max-w-xs"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="truncate">{currentProject?.name || 'No project'}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl py-2 z-30">
+          <ul role="listbox" aria-label="Projects" className="max-h-72 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                role="option"
+                aria-selected={project.id === currentProjectId}
+                className={`group flex items-center justify-between px-3 py-1.5 text-sm ${project.id === currentProjectId ? 'bg-blue-600/30' : 'hover:bg-gray-700'}`}
+              >
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-grow bg-gray-900 border border-gray-600 text-white rounded px-2 py-0.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    aria-label="Project name"
+                  />
+                ) : (
+                  <button
+                    onClick={() => { onSelectProject(project.id); setIsOpen(false); }}
+                    className="flex-grow text-left truncate"
+                  >
+                    {project.name}
+                  </button>
+                )}
+                <div className="flex space-x-1 ml-2 opacity-50 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startRename(project)}
+                    className="text-xs text-gray-300 hover:text-white px-1.5 py-0.5 rounded hover:bg-gray-600"
+                    aria-label={`Rename ${project.name}`}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => onExportProject(project.id)}
+                    className="text-xs text-gray-300 hover:text-white px-1.5 py-0.5 rounded hover:bg-gray-600"
+                    aria-label={`Export ${project.name} as ZIP`}
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => onDeleteProject(project.id)}
+                    className="text-xs text-red-400 hover:text-red-300 px-1.5 py-0.5 rounded hover:bg-red-900/50"
+                    aria-label={`Delete ${project.name}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="border-t border-gray-700 mt-2 pt-2 px-3 flex space-x-2">
+            <button
+              onClick={() => { onCreateProject(); setIsOpen(false); }}
+              className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-semibold px-3 py-1 text-sm rounded-md transition-colors"
+            >
+              + New Project
+            </button>
+            <label className="flex-1 text-center bg-gray-700 hover:bg-gray-600 text-white font-semibold px-3 py-1 text-sm rounded-md transition-colors cursor-pointer">
+              Import ZIP
+              <input type="file" accept=".zip,application/zip" className="sr-only" onChange={handleImportChange} aria-label="Import a project from a ZIP archive" />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPicker;
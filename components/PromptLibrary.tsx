@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+import {
+  SYSTEM_TEMPLATES,
+  SystemTemplateId,
+  PromptLibrary as PromptLibraryData,
+  PromptPreset,
+  getTemplateVariables,
+  exportPromptLibrary,
+  parsePromptLibrary,
+} from '../services/promptTemplates';
+
+interface PromptLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  library: PromptLibraryData;
+  onChange: (library: PromptLibraryData) => void;
+}
+
+type Tab = 'templates' | 'presets';
+
+const fieldClass = 'w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const VariableChips: React.FC<{ names: string[] }> = ({ names }) => (
+  <div className="flex flex-wrap gap-1">
+    {names.map(name => (
+      <code key={name} className="text-xs bg-gray-900 text-blue-300 px-1.5 py-0.5 rounded">{`{{${name}}}`}</code>
+    ))}
+  </div>
+);
+
+/**
+ * Edits the prompt text the app wraps around every request and the user's own presets,
+ * and moves both between machines as a JSON file.
+ */
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ isOpen, onClose, library, onChange }) => {
+  const [tab, setTab] = useState<Tab>('templates');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const setTemplate = (id: SystemTemplateId, text: string) =>
+    onChange({ ...library, templates: { ...library.templates, [id]: text } });
+
+  const updatePreset = (id: string, changes: Partial<PromptPreset>) =>
+    onChange({ ...library, presets: library.presets.map(p => p.id === id ? { ...p, ...changes } : p) });
+
+  const handleAddPreset = () =>
+    onChange({ ...library, presets: [...library.presets, { id: crypto.randomUUID(), name: 'New preset', text: '' }] });
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptLibrary(library)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prompt-library.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parsePromptLibrary(await file.text()));
+      setImportError(null);
+    } catch (e: any) {
+      setImportError(e.message || 'Could not import the prompt library.');
+    }
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="prompt-library-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 id="prompt-library-title" className="text-2xl font-bold text-white">Prompt Library</h2>
+          <div className="flex bg-gray-900 rounded-md p-0.5" role="tablist">
+            {(['templates', 'presets'] as Tab[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1 text-sm rounded ${tab === t ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                role="tab"
+                aria-selected={tab === t}
+              >
+                {t === 'templates' ? 'Built-in prompts' : 'My presets'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-4 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+          {tab === 'templates' && (Object.keys(SYSTEM_TEMPLATES) as SystemTemplateId[]).map(id => {
+            const template = SYSTEM_TEMPLATES[id];
+            const text = library.templates[id];
+            const missing = template.variables.filter(name => !getTemplateVariables(text).includes(name));
+            return (
+              <div key={id} className="bg-gray-700/50 p-3 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-white">{template.name}</h3>
+                  <button
+                    onClick={() => setTemplate(id, template.text)}
+                    disabled={text === template.text}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                  >
+                    Reset
+                  </button>
+                </div>
+                <p className="text-xs text-gray-400">{template.description}</p>
+                {template.variables.length > 0 && <VariableChips names={template.variables} />}
+                <textarea
+                  value={text}
+                  onChange={(e) => setTemplate(id, e.target.value)}
+                  rows={Math.min(12, text.split('\n').length + 2)}
+                  className={`${fieldClass} font-mono text-xs resize-y`}
+                  aria-label={template.name}
+                />
+                {missing.length > 0 && (
+                  <p className="text-xs text-yellow-400">Not used: {missing.map(name => `{{${name}}}`).join(', ')}</p>
+                )}
+              </div>
+            );
+          })}
+
+          {tab === 'presets' && (
+            <>
+              <p className="text-sm text-gray-400">
+                Presets can be inserted into the edit and generate prompts. Write <code className="text-blue-300">{'{{name}}'}</code> for anything to fill in when inserting.
+              </p>
+              {library.presets.map(preset => (
+                <div key={preset.id} className="bg-gray-700/50 p-3 rounded-lg space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      value={preset.name}
+                      onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                      className={fieldClass}
+                      aria-label="Preset name"
+                    />
+                    <button
+                      onClick={() => onChange({ ...library, presets: library.presets.filter(p => p.id !== preset.id) })}
+                      className="text-xs text-red-400 hover:text-red-300 px-2"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <textarea
+                    value={preset.text}
+                    onChange={(e) => updatePreset(preset.id, { text: e.target.value })}
+                    rows={3}
+                    placeholder="e.g., Add a glowing {{color}} outline around {{subject}}."
+                    className={`${fieldClass} resize-y`}
+                    aria-label={`${preset.name} text`}
+                  />
+                  <VariableChips names={getTemplateVariables(preset.text)} />
+                </div>
+              ))}
+              <button
+                onClick={handleAddPreset}
+                className="w-full border border-dashed border-gray-600 text-gray-300 hover:text-white hover:border-gray-400 rounded-lg py-2 text-sm"
+              >
+                + New preset
+              </button>
+            </>
+          )}
+        </div>
+
+        {importError && <p className="text-sm text-red-400 mt-3">{importError}</p>}
+
+        <div className="flex justify-between items-center mt-4">
+          <div className="space-x-2">
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-md text-sm">
+              Import
+            </button>
+            <button onClick={handleExport} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-md text-sm">
+              Export
+            </button>
+          </div>
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
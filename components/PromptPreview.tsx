@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+
+interface PromptPreviewProps {
+  prompt: string | null; // null when closed
+  onClose: () => void;
+}
+
+/**
+ * Shows the prompt exactly as it will be sent, with every template filled in.
+ */
+const PromptPreview: React.FC<PromptPreviewProps> = ({ prompt, onClose }) => {
+  const [isCopied, setIsCopied] = useState(false);
+
+  if (prompt === null) {
+    return null;
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(prompt);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 1500);
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="prompt-preview-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="prompt-preview-title" className="text-2xl font-bold text-white mb-4">Prompt Preview</h2>
+        <pre className="flex-grow overflow-y-auto bg-gray-900 rounded-lg p-3 text-xs text-gray-200 whitespace-pre-wrap font-mono scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+          {prompt}
+        </pre>
+        <div className="flex justify-end space-x-2 mt-4">
+          <button onClick={handleCopy} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-md text-sm">
+            {isCopied ? 'Copied' : 'Copy'}
+          </button>
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptPreview;
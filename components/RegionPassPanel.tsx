@@ -0,0 +1,63 @@
+import React from 'react';
+
+export type RegionPassState = 'pending' | 'running' | 'done' | 'failed';
+
+export interface RegionPassStatus {
+  regionId: number;
+  prompt: string;
+  state: RegionPassState;
+  error?: string;
+}
+
+interface RegionPassPanelProps {
+  passes: RegionPassStatus[];
+  onRetry?: (index: number) => void; // Absent while the passes are still running
+  disabled: boolean;
+}
+
+const STATE_LABELS: Record<RegionPassState, string> = {
+  pending: 'Waiting',
+  running: 'Editing…',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const STATE_CLASSES: Record<RegionPassState, string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-300 animate-pulse',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+/**
+ * Shows how far a one-region-at-a-time masked edit has got, and lets a single region be redone afterwards.
+ */
+const RegionPassPanel: React.FC<RegionPassPanelProps> = ({ passes, onRetry, disabled }) => (
+  <div className="w-full max-w-4xl mx-auto px-4 mt-4">
+    <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Region passes</h3>
+      <ul className="space-y-1">
+        {passes.map((pass, index) => (
+          <li key={`${pass.regionId}-${index}`} className="flex items-center space-x-2 rounded-md px-2 py-1 text-sm bg-gray-900/40">
+            <span className="text-xs font-bold text-white bg-gray-700 w-6 h-6 flex items-center justify-center rounded-full flex-shrink-0">{pass.regionId}</span>
+            <span className="flex-grow min-w-0 truncate text-gray-200" title={pass.prompt}>{pass.prompt}</span>
+            <span className={`text-xs max-w-xs truncate flex-shrink-0 ${STATE_CLASSES[pass.state]}`} title={pass.error}>
+              {STATE_LABELS[pass.state]}{pass.error && `: ${pass.error}`}
+            </span>
+            {onRetry && (pass.state === 'done' || pass.state === 'failed') && (
+              <button
+                onClick={() => onRetry(index)}
+                disabled={disabled}
+                className="text-xs px-2 py-0.5 rounded-md text-blue-400 hover:text-blue-300 hover:bg-gray-700 disabled:opacity-50 flex-shrink-0"
+              >
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  </div>
+);
+
+export default RegionPassPanel;
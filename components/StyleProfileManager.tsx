@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { OverlayFont, StyleProfile, TextCase } from '../types';
+import { OVERLAY_FONTS } from '../services/textOverlay';
+import { TEXT_CASES, createStyleProfile } from '../services/styleProfiles';
+
+interface StyleProfileManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: StyleProfile[];
+  activeId: string; // The current project's profile, shown first
+  onSave: (profile: StyleProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+const fieldClass = 'w-full bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const parseList = (value: string): string[] =>
+  [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))];
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block space-y-1">
+    <span className="text-sm font-semibold text-gray-300">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-gray-500">{hint}</span>}
+  </label>
+);
+
+/**
+ * Creates and edits the channel style profiles that projects pick from. Edits are kept as a draft
+ * until saved, since every generation in projects using the profile changes with them.
+ */
+const StyleProfileManager: React.FC<StyleProfileManagerProps> = ({ isOpen, onClose, profiles, activeId, onSave, onDelete }) => {
+  const [selectedId, setSelectedId] = useState(activeId);
+  const [draft, setDraft] = useState<StyleProfile | null>(null);
+  const [paletteText, setPaletteText] = useState('');
+  const [forbiddenText, setForbiddenText] = useState('');
+
+  const selected = profiles.find(p => p.id === selectedId) ?? profiles[0];
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(activeId);
+  }, [isOpen, activeId]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setDraft(selected);
+    setPaletteText(selected.palette.join(', '));
+    setForbiddenText(selected.forbiddenWords.join(', '));
+  }, [selected]);
+
+  if (!isOpen || !draft) {
+    return null;
+  }
+
+  const update = (changes: Partial<StyleProfile>) => setDraft(prev => prev && ({ ...prev, ...changes }));
+
+  const palette = parseList(paletteText).map(color => color.toUpperCase());
+  const invalidColors = palette.filter(color => !/^#(?:[0-9A-F]{6}|[0-9A-F]{3})$/.test(color));
+  const isDirty = JSON.stringify({ ...draft, palette, forbiddenWords: parseList(forbiddenText) }) !== JSON.stringify(selected);
+
+  const toggleFont = (font: OverlayFont) =>
+    update({ fonts: draft.fonts.includes(font) ? draft.fonts.filter(f => f !== font) : OVERLAY_FONTS.filter(f => f === font || draft.fonts.includes(f)) });
+
+  const handleSave = () => {
+    onSave({ ...draft, name: draft.name.trim() || selected.name, palette, forbiddenWords: parseList(forbiddenText) });
+  };
+
+  const handleNew = () => {
+    const profile = createStyleProfile(`Style ${profiles.length + 1}`);
+    onSave(profile);
+    setSelectedId(profile.id);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the style profile "${selected.name}"? Projects using it will switch to the first profile.`)) {
+      onDelete(selected.id);
+      setSelectedId(profiles.find(p => p.id !== selected.id)?.id ?? '');
+    }
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="style-profiles-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="style-profiles-title" className="text-2xl font-bold text-white mb-4">Channel Styles</h2>
+
+        <div className="flex items-center space-x-2 mb-4">
+          <select
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="flex-grow bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm"
+            aria-label="Style profile to edit"
+          >
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}{p.id === activeId ? ' (this project)' : ''}</option>)}
+          </select>
+          <button onClick={handleNew} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-md text-sm">
+            + New
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={profiles.length <= 1}
+            className="text-sm text-red-400 hover:text-red-300 px-2 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            Delete
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-4 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+          <Field label="Name">
+            <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+          </Field>
+          <Field label="Visual style" hint="How generated and edited images should look and feel: medium, lighting, mood, expressions.">
+            <textarea value={draft.visualStyle} onChange={(e) => update({ visualStyle: e.target.value })} rows={4} className={`${fieldClass} resize-y`} />
+          </Field>
+          <Field label="Color palette" hint="Hex colors, separated by commas.">
+            <div className="flex items-center space-x-2">
+              <input value={paletteText} onChange={(e) => setPaletteText(e.target.value)} placeholder="#FFFF00, #000000" className={`${fieldClass} font-mono`} />
+              <div className="flex space-x-1 flex-shrink-0">
+                {palette.filter(color => !invalidColors.includes(color)).map(color => (
+                  <span key={color} className="w-5 h-5 rounded border border-gray-600" style={{ backgroundColor: color }} title={color} />
+                ))}
+              </div>
+            </div>
+            {invalidColors.length > 0 && <span className="block text-xs text-yellow-400">Not a hex color: {invalidColors.join(', ')}</span>}
+          </Field>
+          <Field label="Headline fonts" hint="Suggestions only use these. Pick none to allow any.">
+            <div className="flex flex-wrap gap-2">
+              {OVERLAY_FONTS.map(font => (
+                <button
+                  key={font}
+                  type="button"
+                  onClick={() => toggleFont(font)}
+                  className={`px-3 py-1 rounded-md text-sm border ${draft.fonts.includes(font) ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                  aria-pressed={draft.fonts.includes(font)}
+                >
+                  {font}
+                </button>
+              ))}
+            </div>
+          </Field>
+          <Field label="Headline tone" hint="How headline copy should read, ideally with an example or two.">
+            <textarea value={draft.headlineTone} onChange={(e) => update({ headlineTone: e.target.value })} rows={2} className={`${fieldClass} resize-y`} />
+          </Field>
+          <Field label="Text case">
+            <select value={draft.textCase} onChange={(e) => update({ textCase: e.target.value as TextCase })} className="bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm">
+              {TEXT_CASES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+            </select>
+          </Field>
+          <Field label="Forbidden words" hint="Separated by commas. Suggestions using them are dropped, and images are asked to leave them out.">
+            <input value={forbiddenText} onChange={(e) => setForbiddenText(e.target.value)} className={fieldClass} />
+          </Field>
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-4">
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm">
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || invalidColors.length > 0}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleProfileManager;
@@ -1,13 +1,28 @@
 import React from 'react';
+import { TextSuggestion } from '../types';
+import { getFontStack } from '../services/textOverlay';
+import { getAnchorLabel } from '../services/textSuggestions';
 
 interface SuggestionBoxProps {
-  suggestions: string[];
+  suggestions: TextSuggestion[];
   isLoading: boolean;
-  onSelectSuggestion: (suggestion: string) => void;
-  selectedSuggestion?: string | null;
+  onSelectSuggestion: (suggestion: TextSuggestion) => void;
+  selectedSuggestion?: TextSuggestion | null;
+  onPlaceSuggestion?: (suggestion: TextSuggestion) => void; // Renders the text locally instead of asking the model to draw it
 }
 
-const SuggestionBox: React.FC<SuggestionBoxProps> = ({ suggestions, isLoading, onSelectSuggestion, selectedSuggestion }) => {
+const PREVIEW_SCALE = 0.25; // Outline and shadow sizes are authored for a 720px-tall image
+
+const getPreviewStyle = (suggestion: TextSuggestion): React.CSSProperties => ({
+  fontFamily: getFontStack(suggestion.fontFamily),
+  color: suggestion.fill,
+  // Doubled and painted under the fill, like the canvas compositor, so the full width shows outside the letters.
+  WebkitTextStroke: suggestion.strokeWidth > 0 ? `${suggestion.strokeWidth * 2 * PREVIEW_SCALE}px ${suggestion.strokeColor}` : undefined,
+  paintOrder: 'stroke fill',
+  textShadow: suggestion.shadow ? '1px 1px 3px rgba(0, 0, 0, 0.65)' : undefined,
+});
+
+const SuggestionBox: React.FC<SuggestionBoxProps> = ({ suggestions, isLoading, onSelectSuggestion, selectedSuggestion, onPlaceSuggestion }) => {
   if (suggestions.length === 0 && !isLoading) {
     return null; // Don't render anything if there are no suggestions and it's not loading
   }
@@ -18,19 +33,37 @@ const SuggestionBox: React.FC<SuggestionBoxProps> = ({ suggestions, isLoading, o
         {suggestions.map((suggestion, index) => {
           const isSelected = suggestion === selectedSuggestion;
           return (
-            <button
-              key={index}
-              onClick={() => onSelectSuggestion(suggestion)}
-              className={`text-left p-3 rounded-lg transition-all text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                isSelected 
-                  ? 'bg-blue-600 ring-2 ring-blue-500 shadow-lg' 
-                  : 'bg-gray-800/70 hover:bg-gray-700'
-              }`}
-              aria-pressed={isSelected}
-              aria-label={`Use suggestion: ${suggestion}`}
-            >
-              {suggestion}
-            </button>
+            <div key={index} className="flex flex-col">
+              <button
+                onClick={() => onSelectSuggestion(suggestion)}
+                className={`flex-grow text-left p-3 rounded-lg transition-all text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isSelected
+                    ? 'bg-blue-600 ring-2 ring-blue-500 shadow-lg'
+                    : 'bg-gray-800/70 hover:bg-gray-700'
+                }`}
+                aria-pressed={isSelected}
+                aria-label={`Use suggestion: ${suggestion.headline}`}
+              >
+                <div className="bg-gray-600 rounded-md px-3 py-2 mb-2 text-center">
+                  <span className="text-2xl leading-tight tracking-wide break-words" style={getPreviewStyle(suggestion)}>
+                    {suggestion.headline}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+                  <span>{suggestion.fontFamily}</span>
+                  <span>{getAnchorLabel(suggestion.anchor)}</span>
+                </div>
+                {suggestion.rationale && <p className={isSelected ? 'text-blue-100' : 'text-gray-300'}>{suggestion.rationale}</p>}
+              </button>
+              {onPlaceSuggestion && (
+                <button
+                  onClick={() => onPlaceSuggestion(suggestion)}
+                  className="self-end text-xs font-semibold text-blue-400 hover:text-blue-300 px-2 py-1"
+                >
+                  Place as text overlay
+                </button>
+              )}
+            </div>
           );
         })}
       </div>
@@ -38,4 +71,4 @@ const SuggestionBox: React.FC<SuggestionBoxProps> = ({ suggestions, isLoading, o
   );
 };
 
-export default SuggestionBox;
\ No newline at end of file
+export default SuggestionBox;
@@ -0,0 +1,160 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { TextOverlay } from '../types';
+import { renderTextOverlays, getOverlayBounds, loadOverlayFonts } from '../services/textOverlay';
+
+interface TextOverlayCanvasProps {
+  imageSrc: string;
+  isEnabled: boolean;
+  overlays: TextOverlay[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (overlay: TextOverlay) => void;
+}
+
+const HANDLE_SIZE = 14; // In screen pixels
+
+type DragState =
+  | { mode: 'move'; id: string; offsetX: number; offsetY: number }
+  | { mode: 'resize'; id: string; startDistance: number; startFontSize: number };
+
+const TextOverlayCanvas: React.FC<TextOverlayCanvasProps> = ({
+  imageSrc,
+  isEnabled,
+  overlays,
+  selectedId,
+  onSelect,
+  onChange,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragState = useRef<DragState | null>(null);
+  const [fontsVersion, setFontsVersion] = useState(0);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+
+  const getCanvasCoordinates = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+      scale: canvas.width / rect.width, // Canvas pixels per screen pixel
+    };
+  };
+
+  const redrawCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!isEnabled) return;
+    renderTextOverlays(ctx, overlays);
+
+    const selected = overlays.find(o => o.id === selectedId);
+    if (selected) {
+      const bounds = getOverlayBounds(ctx, selected);
+      const screenScale = canvas.width / canvas.getBoundingClientRect().width || 1;
+      const handle = HANDLE_SIZE * screenScale;
+      ctx.save();
+      ctx.strokeStyle = '#3B82F6';
+      ctx.lineWidth = 2 * screenScale;
+      ctx.setLineDash([6 * screenScale, 4 * screenScale]);
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#3B82F6';
+      ctx.fillRect(bounds.x + bounds.width - handle / 2, bounds.y + bounds.height - handle / 2, handle, handle);
+      ctx.restore();
+    }
+  }, [isEnabled, overlays, selectedId, fontsVersion, canvasSize]);
+
+  useEffect(() => {
+    const img = new Image();
+    img.src = imageSrc;
+    img.onload = () => setCanvasSize({ width: img.naturalWidth, height: img.naturalHeight });
+  }, [imageSrc]);
+
+  useEffect(() => {
+    // Redraw once newly used fonts have loaded, since canvas won't do it by itself.
+    let isCancelled = false;
+    loadOverlayFonts(overlays).then(() => {
+      if (!isCancelled) setFontsVersion(v => v + 1);
+    });
+    return () => { isCancelled = true; };
+  }, [overlays.map(o => o.fontFamily).join()]);
+
+  useEffect(() => {
+    redrawCanvas();
+  }, [redrawCanvas]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || event.button !== 0) return;
+    const { x, y, scale } = getCanvasCoordinates(event);
+
+    const selected = overlays.find(o => o.id === selectedId);
+    if (selected) {
+      const bounds = getOverlayBounds(ctx, selected);
+      const handleX = bounds.x + bounds.width;
+      const handleY = bounds.y + bounds.height;
+      if (Math.abs(x - handleX) <= HANDLE_SIZE * scale && Math.abs(y - handleY) <= HANDLE_SIZE * scale) {
+        const centerX = selected.x * ctx.canvas.width;
+        const centerY = selected.y * ctx.canvas.height;
+        dragState.current = { mode: 'resize', id: selected.id, startDistance: Math.hypot(x - centerX, y - centerY), startFontSize: selected.fontSize };
+        event.currentTarget.setPointerCapture(event.pointerId);
+        return;
+      }
+    }
+
+    // Topmost overlay wins, so search from the end of the list.
+    const hit = [...overlays].reverse().find(overlay => {
+      const bounds = getOverlayBounds(ctx, overlay);
+      return x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+    });
+    onSelect(hit?.id ?? null);
+    if (hit) {
+      dragState.current = { mode: 'move', id: hit.id, offsetX: x - hit.x * ctx.canvas.width, offsetY: y - hit.y * ctx.canvas.height };
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragState.current;
+    const canvas = canvasRef.current;
+    const overlay = overlays.find(o => o.id === drag?.id);
+    if (!drag || !canvas || !overlay) return;
+    const { x, y } = getCanvasCoordinates(event);
+
+    if (drag.mode === 'move') {
+      onChange({
+        ...overlay,
+        x: Math.min(1, Math.max(0, (x - drag.offsetX) / canvas.width)),
+        y: Math.min(1, Math.max(0, (y - drag.offsetY) / canvas.height)),
+      });
+    } else {
+      const distance = Math.hypot(x - overlay.x * canvas.width, y - overlay.y * canvas.height);
+      const fontSize = Math.round(drag.startFontSize * (distance / Math.max(1, drag.startDistance)));
+      onChange({ ...overlay, fontSize: Math.min(400, Math.max(12, fontSize)) });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragState.current) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      dragState.current = null;
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={canvasSize.width}
+      height={canvasSize.height}
+      className={`absolute inset-0 w-full h-full ${isEnabled ? 'cursor-move touch-none' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  );
+};
+
+export default TextOverlayCanvas;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { OverlayFont, TextOverlay } from '../types';
+import { OVERLAY_FONTS } from '../services/textOverlay';
+
+interface TextOverlayPanelProps {
+  overlays: TextOverlay[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (overlay: TextOverlay) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onApply: () => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}
+
+const inputClass = "bg-gray-900 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const TextOverlayPanel: React.FC<TextOverlayPanelProps> = ({
+  overlays,
+  selectedId,
+  onSelect,
+  onChange,
+  onAdd,
+  onDelete,
+  onApply,
+  onCancel,
+  isLoading,
+}) => {
+  const selected = overlays.find(o => o.id === selectedId);
+  const update = (changes: Partial<TextOverlay>) => selected && onChange({ ...selected, ...changes });
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 mt-4">
+      <div className="bg-gray-800/50 rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Text Overlays</h3>
+          <p className="text-xs text-gray-500">Drag text to move it, drag the corner handle to resize.</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {overlays.map(overlay => (
+            <button
+              key={overlay.id}
+              onClick={() => onSelect(overlay.id)}
+              className={`text-xs px-2 py-1 rounded-md max-w-[12rem] truncate ${overlay.id === selectedId ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {overlay.text || '(empty)'}
+            </button>
+          ))}
+          <button onClick={onAdd} className="text-xs px-2 py-1 rounded-md text-blue-400 hover:text-blue-300 hover:bg-gray-700">
+            + Add Text
+          </button>
+        </div>
+
+        {selected && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <label className="col-span-2 md:col-span-4 flex flex-col text-xs text-gray-400">
+              Text
+              <textarea
+                rows={2}
+                value={selected.text}
+                onChange={(e) => update({ text: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Font
+              <select
+                value={selected.fontFamily}
+                onChange={(e) => update({ fontFamily: e.target.value as OverlayFont })}
+                className={`${inputClass} mt-1`}
+              >
+                {OVERLAY_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Size ({selected.fontSize}px)
+              <input type="range" min="12" max="400" value={selected.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })} className="mt-2" />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Fill
+              <input type="color" value={selected.fill} onChange={(e) => update({ fill: e.target.value.toUpperCase() })} className="mt-1 h-8 w-full bg-transparent cursor-pointer" />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Outline
+              <input type="color" value={selected.strokeColor} onChange={(e) => update({ strokeColor: e.target.value.toUpperCase() })} className="mt-1 h-8 w-full bg-transparent cursor-pointer" />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Outline width ({selected.strokeWidth}px)
+              <input type="range" min="0" max="30" value={selected.strokeWidth} onChange={(e) => update({ strokeWidth: Number(e.target.value) })} className="mt-2" />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-300">
+              <input type="checkbox" checked={selected.shadow} onChange={(e) => update({ shadow: e.target.checked })} className="rounded bg-gray-900 border-gray-600" />
+              <span>Drop shadow</span>
+            </label>
+            <div className="col-span-2 flex justify-end">
+              <button
+                onClick={() => onDelete(selected.id)}
+                className="text-red-400 hover:text-red-300 font-semibold text-xs px-2 py-1 rounded hover:bg-red-900/50 transition-colors"
+              >
+                Delete Text
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onApply}
+            disabled={isLoading || !overlays.some(o => o.text.trim())}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            Save Text Layer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextOverlayPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+
+export const MAX_VARIANTS = 4;
+
+interface VariantCountSelectorProps {
+  value: number;
+  onChange: (count: number) => void;
+  disabled?: boolean;
+}
+
+const VariantCountSelector: React.FC<VariantCountSelectorProps> = ({ value, onChange, disabled = false }) => {
+  return (
+    <div className="flex items-center space-x-2 text-sm" role="radiogroup" aria-label="Number of variants">
+      <span className="text-gray-400">Variants:</span>
+      <div className="flex bg-gray-900 rounded-md p-0.5">
+        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+          <button
+            key={count}
+            type="button"
+            role="radio"
+            aria-checked={value === count}
+            onClick={() => onChange(count)}
+            disabled={disabled}
+            className={`w-7 h-7 rounded font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              value === count ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariantCountSelector;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { ImageVersion } from '../types';
+import LayeredImage from './LayeredImage';
+
+interface VariantPickerProps {
+  candidates: ImageVersion[];
+  onCommit: (selected: ImageVersion[]) => void;
+  onDiscard: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ candidates, onCommit, onDiscard }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setPreviewId(null);
+  }, [candidates]);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const previewCandidate = candidates.find(c => c.id === previewId);
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="variant-picker-title"
+    >
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl p-6 border border-gray-700 max-h-[90vh] overflow-y-auto">
+        <h2 id="variant-picker-title" className="text-2xl font-bold text-white mb-2">Pick Your Variants</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Select the takes you want to keep. Only selected variants are added to the version history.
+        </p>
+
+        {previewCandidate ? (
+          <div className="mb-4">
+            <LayeredImage version={previewCandidate} alt="Variant preview" className="w-full h-auto rounded-lg" />
+            <button onClick={() => setPreviewId(null)} className="mt-2 text-sm text-blue-400 hover:text-blue-300">
+              Back to grid
+            </button>
+          </div>
+        ) : (
+          <div className={`grid gap-4 ${candidates.length > 1 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+            {candidates.map((candidate, index) => {
+              const isSelected = selectedIds.includes(candidate.id);
+              return (
+                <div key={candidate.id} className="relative group">
+                  <button
+                    onClick={() => toggleSelected(candidate.id)}
+                    className={`block w-full rounded-lg overflow-hidden border-4 transition-colors ${
+                      isSelected ? 'border-blue-500' : 'border-transparent hover:border-gray-600'
+                    }`}
+                    aria-pressed={isSelected}
+                    aria-label={`Select variant ${index + 1}`}
+                  >
+                    <LayeredImage version={candidate} alt={`Variant ${index + 1}`} className="w-full h-auto max-h-72 object-contain bg-gray-900" />
+                  </button>
+                  <span className={`absolute top-2 left-2 text-xs font-bold px-2 py-1 rounded ${isSelected ? 'bg-blue-600 text-white' : 'bg-gray-900/70 text-gray-200'}`}>
+                    {isSelected ? `✓ Variant ${index + 1}` : `Variant ${index + 1}`}
+                  </span>
+                  <button
+                    onClick={() => setPreviewId(candidate.id)}
+                    className="absolute top-2 right-2 text-xs font-semibold bg-gray-900/70 text-white px-2 py-1 rounded opacity-50 group-hover:opacity-100 transition-opacity"
+                  >
+                    Enlarge
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-between items-center">
+          <button
+            onClick={onDiscard}
+            className="text-red-400 hover:text-red-300 font-semibold text-sm px-4 py-2 rounded-md hover:bg-red-900/50 transition-colors"
+          >
+            Discard All
+          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setSelectedIds(candidates.map(c => c.id))}
+              className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm"
+            >
+              Select All
+            </button>
+            <button
+              onClick={() => onCommit(candidates.filter(c => selectedIds.includes(c.id)))}
+              disabled={selectedIds.length === 0}
+              className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Keep Selected ({selectedIds.length})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,162 @@
+import React from 'react';
+import { ImageVersion, Character, GenerationOperation } from '../types';
+import { getCharacterTag } from '../services/characters';
+import { MASK_ENCODINGS } from '../services/maskEncoding';
+import { getTargetFormat } from '../services/targetFormats';
+import { describePadding } from '../services/outpaint';
+
+interface VersionDetailsProps {
+  version: ImageVersion | null;
+  label: string;
+  characters: Character[];
+  isLoading: boolean;
+  onClose: () => void;
+  onRerun: () => void;
+}
+
+const operationLabels: Record<GenerationOperation, string> = {
+  'generate': 'Generated from prompt',
+  'edit': 'Prompt edit',
+  'masked-edit': 'Masked edit',
+  'next-scene': 'Next scene',
+  'text-overlay': 'Text overlay',
+  'outpaint': 'Reframe / extend',
+};
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{label}</dt>
+    <dd className="text-sm text-gray-200 mt-1">{children}</dd>
+  </div>
+);
+
+const VersionDetails: React.FC<VersionDetailsProps> = ({ version, label, characters, isLoading, onClose, onRerun }) => {
+  if (!version) {
+    return null;
+  }
+
+  const provenance = version.provenance;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="version-details-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl p-6 border border-gray-700 max-h-[90vh] overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="version-details-title" className="text-2xl font-bold text-white mb-4">{label} Details</h2>
+
+        {!provenance ? (
+          <p className="text-sm text-gray-400">This version was uploaded, so there are no generation settings to show.</p>
+        ) : (
+          <dl className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <DetailRow label="Operation">{operationLabels[provenance.operation]}</DetailRow>
+              <DetailRow label="Model"><span className="font-mono text-xs">{provenance.model}</span></DetailRow>
+              <DetailRow label="Created">{new Date(provenance.createdAt).toLocaleString()}</DetailRow>
+              <DetailRow label="Duration">{formatDuration(provenance.durationMs)}</DetailRow>
+            </div>
+
+            {provenance.regionPrompts.length > 0 ? (
+              <DetailRow label="Region Tasks">
+                <ul className="space-y-1">
+                  {provenance.regionPrompts.map(region => (
+                    <li key={region.id}><span className="font-bold text-white">{region.id}.</span> {region.prompt}</li>
+                  ))}
+                </ul>
+              </DetailRow>
+            ) : (
+              <DetailRow label="Prompt"><p className="whitespace-pre-wrap">{provenance.userPrompt}</p></DetailRow>
+            )}
+
+            {(provenance.formatId || provenance.padding) && (
+              <div className="grid grid-cols-2 gap-4">
+                {provenance.formatId && (
+                  <DetailRow label="Format">{getTargetFormat(provenance.formatId).label} ({getTargetFormat(provenance.formatId).aspectRatio})</DetailRow>
+                )}
+                {provenance.padding && <DetailRow label="Added">{describePadding(provenance.padding)}</DetailRow>}
+              </div>
+            )}
+
+            {provenance.characterIds.length > 0 && (
+              <DetailRow label="Characters">
+                <div className="flex flex-wrap gap-2">
+                  {provenance.characterIds.map(id => {
+                    const char = characters.find(c => c.id === id);
+                    return (
+                      <span key={id} className="text-xs bg-gray-700 px-2 py-1 rounded">
+                        <span className="font-mono">{char ? getCharacterTag(char) : '[?]'}</span> {char?.roleName || char?.name || 'Removed character'}
+                      </span>
+                    );
+                  })}
+                </div>
+              </DetailRow>
+            )}
+
+            {provenance.maskBase64 && (
+              <DetailRow label="Mask">
+                <img src={provenance.maskBase64} alt="Mask used for this edit" className="w-48 h-auto rounded-md border border-gray-600" />
+                {provenance.maskCompositing && (
+                  <p className="mt-1 text-xs text-gray-400">
+                    Auto-align {provenance.maskCompositing.autoAlign ? 'on' : 'off'}
+                  </p>
+                )}
+                {provenance.maskEncoding && (
+                  <p className="mt-1 text-xs text-gray-400">
+                    Sent as {MASK_ENCODINGS.find(e => e.value === provenance.maskEncoding)?.label.toLowerCase()}
+                  </p>
+                )}
+              </DetailRow>
+            )}
+            {provenance.passes && (
+              <DetailRow label="Region passes">
+                <ol className="space-y-1">
+                  {provenance.passes.map((pass, index) => (
+                    <li key={index} className="text-xs">
+                      <span className="font-semibold">{pass.regionId}:</span> {pass.prompt}{' '}
+                      <span className={pass.error ? 'text-red-400' : 'text-gray-400'}>
+                        {pass.error ? `failed (${pass.error})` : formatDuration(pass.durationMs)}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </DetailRow>
+            )}
+
+            <details className="bg-gray-900/50 rounded-md p-3">
+              <summary className="text-xs font-semibold text-gray-400 uppercase tracking-wider cursor-pointer">Full prompt sent to the model</summary>
+              <pre className="text-xs text-gray-300 whitespace-pre-wrap mt-2 font-mono">{provenance.submissionPrompt}</pre>
+            </details>
+          </dl>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-2">
+          {provenance && (
+            <button
+              onClick={onRerun}
+              disabled={isLoading}
+              className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              {provenance.operation === 'text-overlay' ? 'Edit Text Again' : 'Re-run with Same Settings'}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="bg-gray-600 hover:bg-gray-500 text-white font-semibold px-4 py-2 rounded-md transition-colors text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionDetails;
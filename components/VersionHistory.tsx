@@ -1,5 +1,6 @@
 import React from 'react';
 import { ImageVersion, ImageSet } from '../types';
+import LayeredImage from './LayeredImage';
 
 interface VersionHistoryProps {
   imageSets: ImageSet[];
@@ -8,15 +9,151 @@ interface VersionHistoryProps {
   onDeleteVersion: (setId: string, versionId: string) => void;
   onDeleteSet: (setId: string) => void;
   onDownloadVersion: (version: ImageVersion) => void;
+  onShowDetails: (setId: string, versionId: string) => void;
+  onCompare: (setId: string, versionId: string) => void;
 }
 
+interface VersionNode {
+  version: ImageVersion;
+  label: string;
+  children: VersionNode[];
+}
+
+/**
+ * Arranges a set's versions into a lineage tree using their parent pointers.
+ * Versions whose parent is missing are treated as roots. Labels (V1, V2, ...)
+ * follow creation order so they stay stable as branches are added.
+ */
+const buildVersionTree = (versions: ImageVersion[]): VersionNode[] => {
+  const nodes = new Map<string, VersionNode>();
+  versions.forEach((version, index) => {
+    nodes.set(version.id, { version, label: `V${index + 1}`, children: [] });
+  });
+
+  const roots: VersionNode[] = [];
+  versions.forEach(version => {
+    const node = nodes.get(version.id)!;
+    const parent = version.parentId ? nodes.get(version.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
+
+interface VersionTreeNodeProps {
+  node: VersionNode;
+  set: ImageSet;
+  activeVersionId: string | null;
+  onSelectVersion: (setId: string, versionId: string) => void;
+  onDeleteVersion: (setId: string, versionId: string) => void;
+  onDownloadVersion: (version: ImageVersion) => void;
+  onShowDetails: (setId: string, versionId: string) => void;
+  onCompare: (setId: string, versionId: string) => void;
+}
+
+const VersionTreeNode: React.FC<VersionTreeNodeProps> = ({
+  node,
+  set,
+  activeVersionId,
+  onSelectVersion,
+  onDeleteVersion,
+  onDownloadVersion,
+  onShowDetails,
+  onCompare,
+}) => {
+  const { version, label, children } = node;
+  const isActive = activeVersionId === version.id;
+
+  return (
+    <div className="flex items-start">
+      <div className="flex-shrink-0 cursor-pointer group relative">
+        <LayeredImage
+          version={version}
+          alt={`${set.name} - Version ${label.slice(1)}`}
+          onClick={() => onSelectVersion(set.id, version.id)}
+          className={`w-40 h-24 object-contain bg-gray-900 rounded-md border-2 transition-all duration-200 ${
+            isActive ? 'border-blue-500 scale-105' : 'border-transparent group-hover:border-gray-600'
+          }`}
+        />
+        <p className={`text-center text-xs mt-1 ${isActive ? 'text-white' : 'text-gray-400'}`}>
+          {label}
+        </p>
+        <div className="absolute top-1 right-1 flex space-x-1 opacity-50 group-hover:opacity-100 transition-opacity duration-200">
+          <button
+            onClick={(e) => { e.stopPropagation(); onShowDetails(set.id, version.id); }}
+            className="p-1.5 bg-gray-900/70 rounded-full text-white hover:bg-gray-700"
+            aria-label="Show version details"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onCompare(set.id, version.id); }}
+            className="p-1.5 bg-gray-900/70 rounded-full text-white hover:bg-gray-700"
+            aria-label="Compare with another version"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18M4 6h5v12H4zM15 6h5v12h-5" />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onDownloadVersion(version); }}
+            className="p-1.5 bg-gray-900/70 rounded-full text-white hover:bg-gray-700"
+            aria-label="Export version"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onDeleteVersion(set.id, version.id); }}
+            className="p-1.5 bg-red-800/80 rounded-full text-white hover:bg-red-700"
+            aria-label="Delete version"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      {children.length > 0 && (
+        <div className="flex items-start">
+          {/* Connector from this version to the column of versions edited from it */}
+          <div className="w-6 h-px bg-gray-600 mt-11" />
+          <div className={`space-y-3 ${children.length > 1 ? 'border-l border-gray-600 pl-4' : ''}`}>
+            {children.map(child => (
+              <VersionTreeNode
+                key={child.version.id}
+                node={child}
+                set={set}
+                activeVersionId={activeVersionId}
+                onSelectVersion={onSelectVersion}
+                onDeleteVersion={onDeleteVersion}
+                onDownloadVersion={onDownloadVersion}
+                onShowDetails={onShowDetails}
+                onCompare={onCompare}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const VersionHistory: React.FC<VersionHistoryProps> = ({
   imageSets,
   activeVersionId,
   onSelectVersion,
   onDeleteSet,
   onDeleteVersion,
-  onDownloadVersion
+  onDownloadVersion,
+  onShowDetails,
+  onCompare
 }) => {
   if (imageSets.length === 0) {
     return null;
@@ -38,45 +175,22 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({
                 Delete All
               </button>
             </div>
-            <div className="flex space-x-4 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-gray-800">
-              {set.versions.map((version, index) => (
-                <div
-                  key={version.id}
-                  className="flex-shrink-0 cursor-pointer group relative"
-                >
-                  <img
-                    src={version.base64}
-                    alt={`${set.name} - Version ${index + 1}`}
-                    onClick={() => onSelectVersion(set.id, version.id)}
-                    className={`w-40 h-auto object-cover rounded-md aspect-[16/9] border-2 transition-all duration-200 ${
-                      activeVersionId === version.id ? 'border-blue-500 scale-105' : 'border-transparent group-hover:border-gray-600'
-                    }`}
+            <div className="overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-gray-800">
+              <div className="space-y-3 w-max">
+                {buildVersionTree(set.versions).map(node => (
+                  <VersionTreeNode
+                    key={node.version.id}
+                    node={node}
+                    set={set}
+                    activeVersionId={activeVersionId}
+                    onSelectVersion={onSelectVersion}
+                    onDeleteVersion={onDeleteVersion}
+                    onDownloadVersion={onDownloadVersion}
+                    onShowDetails={onShowDetails}
+                    onCompare={onCompare}
                   />
-                  <p className={`text-center text-xs mt-1 ${activeVersionId === version.id ? 'text-white' : 'text-gray-400'}`}>
-                    V{index + 1}
-                  </p>
-                   <div className="absolute top-1 right-1 flex space-x-1 opacity-50 group-hover:opacity-100 transition-opacity duration-200">
-                    <button
-                      onClick={(e) => { e.stopPropagation(); onDownloadVersion(version); }}
-                      className="p-1.5 bg-gray-900/70 rounded-full text-white hover:bg-gray-700"
-                      aria-label="Download version in high resolution"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                      </svg>
-                    </button>
-                    <button
-                       onClick={(e) => { e.stopPropagation(); onDeleteVersion(set.id, version.id); }}
-                       className="p-1.5 bg-red-800/80 rounded-full text-white hover:bg-red-700"
-                       aria-label="Delete version"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
           </div>
         ))}
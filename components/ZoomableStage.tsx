@@ -0,0 +1,239 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { useImageSize, getFrameStyle } from './useImageSize';
+import { Viewport, Size, FIT_VIEWPORT, ZOOM_STEP, clampViewport, zoomAround, getVisibleArea, centerOn, getActualSizeZoom } from './viewport';
+
+interface ZoomableStageProps {
+  imageSrc: string; // Shown in the minimap; its size sets what 100% means
+  className: string; // For the stage's frame, which doesn't move; it takes the image's aspect ratio
+  overlay?: React.ReactNode; // Drawn over the stage without zooming, e.g. a spinner
+  children: React.ReactNode; // The canvases, all zoomed and panned together
+}
+
+const STAGE_MAX_HEIGHT = '70vh'; // So tall formats like Shorts covers still fit on screen
+
+type Pinch = { distance: number; mid: { x: number; y: number }; viewport: Viewport };
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName));
+
+/**
+ * A frame for the editing canvases that zooms with the wheel or a pinch and pans while space is held,
+ * with fit and 100% presets and a minimap. The canvases map pointers through their on-screen rectangle,
+ * so their coordinates stay in natural-image pixels at any zoom.
+ */
+const ZoomableStage: React.FC<ZoomableStageProps> = ({ imageSrc, className, overlay, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const panStart = useRef<{ pointerX: number; pointerY: number; viewport: Viewport } | null>(null);
+  const pinch = useRef<Pinch | null>(null);
+
+  const [viewport, setViewport] = useState<Viewport>(FIT_VIEWPORT);
+  const [stageSize, setStageSize] = useState<Size>({ width: 0, height: 0 });
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const viewportRef = useRef(viewport); // For the native listeners, which are only attached once
+  viewportRef.current = viewport;
+
+  const getStageSize = (): Size => {
+    const container = containerRef.current;
+    return container ? { width: container.clientWidth, height: container.clientHeight } : { width: 0, height: 0 };
+  };
+
+  const toStagePoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // A new image size means a different picture, so start again from fit.
+  const loadedSize = useImageSize(imageSrc);
+  const imageSize = loadedSize ?? { width: 0, height: 0 };
+
+  useEffect(() => {
+    setViewport(FIT_VIEWPORT);
+  }, [loadedSize]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      const size = getStageSize();
+      setStageSize(size);
+      setViewport(v => clampViewport(v, size));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Wheel and pinch are caught before the canvases see them, so a pinch never paints.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const anchor = toStagePoint(e.clientX, e.clientY);
+      // Mouse wheels move about 100 per notch; trackpad pinches arrive as many small ctrl+wheel steps.
+      setViewport(v => zoomAround(v, v.zoom * Math.pow(ZOOM_STEP, -e.deltaY / 100), anchor, getStageSize()));
+    };
+
+    const readPinch = (touches: TouchList) => {
+      const [a, b] = [touches[0], touches[1]];
+      return {
+        distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+        mid: toStagePoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2),
+      };
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      e.preventDefault();
+      e.stopPropagation();
+      pinch.current = { ...readPinch(e.touches), viewport: viewportRef.current };
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const start = pinch.current;
+      if (!start || e.touches.length !== 2) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const { distance, mid } = readPinch(e.touches);
+      const stage = getStageSize();
+      const zoomed = zoomAround(start.viewport, start.viewport.zoom * distance / start.distance, start.mid, stage);
+      setViewport(clampViewport({ ...zoomed, x: zoomed.x + mid.x - start.mid.x, y: zoomed.y + mid.y - start.mid.y }, stage));
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch.current = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchStart, { capture: true, passive: false });
+    container.addEventListener('touchmove', handleTouchMove, { capture: true, passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart, { capture: true });
+      container.removeEventListener('touchmove', handleTouchMove, { capture: true });
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault(); // Don't scroll the page
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const release = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
+
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { pointerX: e.clientX, pointerY: e.clientY, viewport };
+    setIsPanning(true);
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStart.current;
+    if (!start) return;
+    setViewport(clampViewport({
+      ...start.viewport,
+      x: start.viewport.x + e.clientX - start.pointerX,
+      y: start.viewport.y + e.clientY - start.pointerY,
+    }, getStageSize()));
+  };
+
+  const handlePanEnd = () => {
+    panStart.current = null;
+    setIsPanning(false);
+  };
+
+  const zoomBy = (factor: number) => {
+    const stage = getStageSize();
+    setViewport(v => zoomAround(v, v.zoom * factor, { x: stage.width / 2, y: stage.height / 2 }, stage));
+  };
+
+  // How wide the image is drawn at fit, as it's letterboxed to the stage's shape.
+  const fittedWidth = imageSize.width > 0
+    ? Math.min(stageSize.width, stageSize.height * imageSize.width / imageSize.height)
+    : stageSize.width;
+
+  const showActualSize = () => {
+    const stage = getStageSize();
+    setViewport(v => zoomAround(v, getActualSizeZoom(imageSize.width, fittedWidth), { x: stage.width / 2, y: stage.height / 2 }, stage));
+  };
+
+  const moveMinimapView = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const spot = { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    setViewport(v => centerOn(v, spot, getStageSize()));
+  }, []);
+
+  const scalePercent = imageSize.width > 0 ? Math.round(viewport.zoom * fittedWidth / imageSize.width * 100) : 100;
+  const visible = getVisibleArea(viewport, stageSize.width > 0 ? stageSize : { width: 1, height: 1 });
+  const buttonClass = 'px-2 py-1 rounded-md text-xs text-gray-200 hover:bg-gray-700 disabled:opacity-40';
+
+  return (
+    <div ref={containerRef} className={className} style={getFrameStyle(loadedSize, STAGE_MAX_HEIGHT)}>
+      <div
+        className="absolute inset-0 origin-top-left"
+        style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+      >
+        {children}
+      </div>
+
+      {isSpaceHeld && (
+        <div
+          className={`absolute inset-0 z-20 ${isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+          onPointerDown={handlePanStart}
+          onPointerMove={handlePanMove}
+          onPointerUp={handlePanEnd}
+          onPointerCancel={handlePanEnd}
+        />
+      )}
+
+      {overlay}
+
+      {viewport.zoom > 1 && (
+        <div
+          className="absolute left-2 bottom-2 z-30 w-32 bg-gray-900/90 border border-gray-600 rounded-md overflow-hidden cursor-pointer"
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); moveMinimapView(e); }}
+          onPointerMove={(e) => { if (e.buttons) moveMinimapView(e); }}
+          style={{ aspectRatio: getFrameStyle(loadedSize, STAGE_MAX_HEIGHT).aspectRatio }}
+          title="Click or drag to move the view"
+        >
+          <img src={imageSrc} alt="" className="w-full h-full object-contain pointer-events-none" />
+          <div
+            className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none"
+            style={{
+              left: `${visible.x * 100}%`,
+              top: `${visible.y * 100}%`,
+              width: `${visible.width * 100}%`,
+              height: `${visible.height * 100}%`,
+            }}
+          />
+        </div>
+      )}
+
+      <div className="absolute right-2 bottom-2 z-30 flex items-center space-x-1 bg-gray-900/80 rounded-md px-1 py-0.5">
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={viewport.zoom <= 1} className={buttonClass} aria-label="Zoom out">−</button>
+        <span className="text-xs text-gray-300 w-12 text-center" title="Scroll or pinch to zoom; hold space and drag to pan">{scalePercent}%</span>
+        <button onClick={() => zoomBy(ZOOM_STEP)} className={buttonClass} aria-label="Zoom in">+</button>
+        <button onClick={() => setViewport(FIT_VIEWPORT)} className={buttonClass}>Fit</button>
+        <button onClick={showActualSize} className={buttonClass}>100%</button>
+      </div>
+    </div>
+  );
+};
+
+export default ZoomableStage;
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addShapeToRegions,
+  areBboxesClose,
+  getPathBbox,
+  mergeBboxes,
+  isPathClosed,
+  eraseFromRegions,
+  setRegionFeather,
+  mergeRegions,
+  deleteRegion,
+  moveRegion,
+  EMPTY_MASK_HISTORY,
+  getHistoryRegions,
+  pushHistory,
+  undoHistory,
+  redoHistory,
+  canUndoHistory,
+  canRedoHistory,
+  MaskShape,
+  Path,
+  Region,
+} from './maskRegions';
+
+const BRUSH_SIZE = 10; // Merge threshold of 25px
+const FEATHER = 6;
+
+const brush = (points: Path): MaskShape => ({ tool: 'brush', points, size: BRUSH_SIZE, fill: false });
+const addPathToRegions = (regions: Region[], points: Path) => addShapeToRegions(regions, brush(points), FEATHER);
+const region = (id: number, points: Path): Region => ({ key: `r${id}`, id, shapes: [brush(points)], bbox: getPathBbox(points), feather: FEATHER });
+
+describe('getPathBbox', () => {
+  it('spans every point of the path', () => {
+    expect(getPathBbox([{ x: 5, y: 40 }, { x: 20, y: 10 }, { x: 12, y: 30 }]))
+      .toEqual({ minX: 5, minY: 10, maxX: 20, maxY: 40 });
+  });
+});
+
+describe('mergeBboxes', () => {
+  it('returns the box enclosing both', () => {
+    expect(mergeBboxes({ minX: 0, minY: 0, maxX: 10, maxY: 10 }, { minX: 5, minY: -5, maxX: 20, maxY: 8 }))
+      .toEqual({ minX: 0, minY: -5, maxX: 20, maxY: 10 });
+  });
+});
+
+describe('areBboxesClose', () => {
+  const box = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+
+  it('treats boxes within the threshold as close', () => {
+    expect(areBboxesClose(box, { minX: 35, minY: 0, maxX: 40, maxY: 10 }, 25)).toBe(true);
+  });
+
+  it('treats boxes beyond the threshold as separate', () => {
+    expect(areBboxesClose(box, { minX: 36, minY: 0, maxX: 40, maxY: 10 }, 25)).toBe(false);
+  });
+});
+
+describe('addShapeToRegions', () => {
+  it('starts region 1 on an empty canvas', () => {
+    const regions = addPathToRegions([], [{ x: 0, y: 0 }, { x: 10, y: 10 }]);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0]).toMatchObject({ id: 1, bbox: { minX: 0, minY: 0, maxX: 10, maxY: 10 }, feather: FEATHER });
+  });
+
+  it('merges a nearby stroke into the existing region and grows its box', () => {
+    const first = addPathToRegions([], [{ x: 0, y: 0 }, { x: 10, y: 10 }]);
+    const regions = addPathToRegions(first, [{ x: 30, y: 5 }, { x: 40, y: 15 }]);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].shapes).toHaveLength(2);
+    expect(regions[0].bbox).toEqual({ minX: 0, minY: 0, maxX: 40, maxY: 15 });
+  });
+
+  it('creates a new region for a distant stroke', () => {
+    const first = addPathToRegions([], [{ x: 0, y: 0 }, { x: 10, y: 10 }]);
+    const regions = addPathToRegions(first, [{ x: 200, y: 200 }, { x: 210, y: 210 }]);
+
+    expect(regions.map(r => r.id)).toEqual([1, 2]);
+  });
+
+  it('numbers new regions after the highest existing id', () => {
+    const existing = [region(4, [{ x: 0, y: 0 }])];
+    const regions = addPathToRegions(existing, [{ x: 500, y: 500 }]);
+
+    expect(regions.map(r => r.id)).toEqual([4, 5]);
+  });
+
+  it('joins only the first close region when several are in range', () => {
+    const existing = [region(1, [{ x: 0, y: 0 }]), region(2, [{ x: 40, y: 0 }])];
+    const regions = addPathToRegions(existing, [{ x: 20, y: 0 }]);
+
+    expect(regions[0].shapes).toHaveLength(2);
+    expect(regions[1].shapes).toHaveLength(1);
+  });
+
+  it('does not modify the regions it was given', () => {
+    const first = addPathToRegions([], [{ x: 0, y: 0 }]);
+    const snapshot = JSON.parse(JSON.stringify(first));
+    addPathToRegions(first, [{ x: 5, y: 5 }]);
+
+    expect(first).toEqual(snapshot);
+  });
+
+  it('starts a new region on request, even right next to another', () => {
+    const regions = addShapeToRegions([region(1, [{ x: 0, y: 0 }])], brush([{ x: 5, y: 5 }]), FEATHER, 'new');
+
+    expect(regions.map(r => r.id)).toEqual([1, 2]);
+    expect(regions[1].key).not.toBe(regions[0].key);
+  });
+
+  it('adds to the targeted region wherever the shape is drawn', () => {
+    const existing = [region(1, [{ x: 0, y: 0 }]), region(2, [{ x: 500, y: 500 }])];
+    const regions = addShapeToRegions(existing, brush([{ x: 5, y: 5 }]), FEATHER, 'r2');
+
+    expect(regions.map(r => r.shapes.length)).toEqual([1, 2]);
+    expect(regions[1].bbox).toEqual({ minX: 5, minY: 5, maxX: 500, maxY: 500 });
+    expect(addShapeToRegions(existing, brush([{ x: 5, y: 5 }]), FEATHER, 'gone')[0].shapes).toHaveLength(2);
+  });
+
+  it('merges rectangles and other shapes by the tool size they were drawn with', () => {
+    const rectangle: MaskShape = { tool: 'rectangle', points: [{ x: 60, y: 0 }, { x: 90, y: 20 }], size: 40, fill: false };
+    const regions = addShapeToRegions([region(1, [{ x: 0, y: 0 }, { x: 10, y: 10 }])], rectangle, FEATHER);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].bbox).toEqual({ minX: 0, minY: 0, maxX: 90, maxY: 20 });
+  });
+});
+
+describe('isPathClosed', () => {
+  it('treats a stroke ending near its start as closed', () => {
+    expect(isPathClosed([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 15, y: 5 }], BRUSH_SIZE)).toBe(true);
+    expect(isPathClosed([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }], BRUSH_SIZE)).toBe(false);
+    expect(isPathClosed([{ x: 0, y: 0 }, { x: 1, y: 1 }], BRUSH_SIZE)).toBe(false);
+  });
+});
+
+describe('eraseFromRegions', () => {
+  const eraser = (points: Path): MaskShape => ({ tool: 'eraser', points, size: BRUSH_SIZE, fill: false });
+
+  it('adds the eraser to every region it passes over, without growing their boxes', () => {
+    const regions = [region(1, [{ x: 0, y: 0 }, { x: 20, y: 0 }]), region(2, [{ x: 40, y: 0 }, { x: 60, y: 0 }]), region(3, [{ x: 500, y: 500 }])];
+    const erased = eraseFromRegions(regions, eraser([{ x: 15, y: 0 }, { x: 45, y: 0 }]));
+
+    expect(erased.map(r => r.shapes.length)).toEqual([2, 2, 1]);
+    expect(erased[0].bbox).toEqual(regions[0].bbox);
+    expect(erased[2]).toBe(regions[2]);
+  });
+
+  it('only erases from the given region when there is one', () => {
+    const regions = [region(1, [{ x: 0, y: 0 }, { x: 20, y: 0 }]), region(2, [{ x: 10, y: 0 }])];
+    const erased = eraseFromRegions(regions, eraser([{ x: 10, y: 0 }]), 'r2');
+
+    expect(erased.map(r => r.shapes.length)).toEqual([1, 2]);
+  });
+
+  it('changes nothing when the eraser misses every region', () => {
+    const regions = [region(1, [{ x: 0, y: 0 }])];
+    expect(eraseFromRegions(regions, eraser([{ x: 300, y: 300 }]))).toBe(regions);
+  });
+});
+
+describe('setRegionFeather', () => {
+  it('changes only the given region', () => {
+    const regions = setRegionFeather([region(1, [{ x: 0, y: 0 }]), region(2, [{ x: 90, y: 90 }])], 'r2', 20);
+    expect(regions.map(r => r.feather)).toEqual([FEATHER, 20]);
+  });
+});
+
+describe('region control', () => {
+  const regions = [region(1, [{ x: 0, y: 0 }]), region(2, [{ x: 100, y: 50 }]), region(3, [{ x: 300, y: 300 }])];
+
+  it('merges one region into another, which keeps its number', () => {
+    const merged = mergeRegions(regions, 'r1', 'r2');
+
+    expect(merged.map(r => r.id)).toEqual([1, 3]);
+    expect(merged[0].shapes).toHaveLength(2);
+    expect(merged[0].bbox).toEqual({ minX: 0, minY: 0, maxX: 100, maxY: 50 });
+    expect(mergeRegions(regions, 'r1', 'r1')).toBe(regions);
+  });
+
+  it('deletes a single region without renumbering the rest', () => {
+    expect(deleteRegion(regions, 'r2').map(r => r.id)).toEqual([1, 3]);
+  });
+
+  it('swaps numbers with the neighbouring region, keeping each region its shapes', () => {
+    const moved = moveRegion(regions, 'r3', 'up');
+
+    expect(moved.map(r => [r.id, r.key])).toEqual([[1, 'r1'], [2, 'r3'], [3, 'r2']]);
+    expect(moved.find(r => r.key === 'r3')!.shapes).toBe(regions[2].shapes);
+    expect(moveRegion(regions, 'r1', 'up')).toBe(regions);
+    expect(moveRegion(regions, 'r3', 'down')).toBe(regions);
+  });
+});
+
+describe('mask history', () => {
+  const one = [region(1, [{ x: 0, y: 0 }])];
+  const two = [...one, region(2, [{ x: 90, y: 90 }])];
+
+  it('undoes and redoes through the recorded states', () => {
+    const history = pushHistory(pushHistory(EMPTY_MASK_HISTORY, one), two);
+
+    expect(getHistoryRegions(undoHistory(history))).toBe(one);
+    expect(getHistoryRegions(redoHistory(undoHistory(history)))).toBe(two);
+    expect(canUndoHistory(EMPTY_MASK_HISTORY)).toBe(false);
+    expect(canRedoHistory(history)).toBe(false);
+    expect(undoHistory(EMPTY_MASK_HISTORY)).toBe(EMPTY_MASK_HISTORY);
+  });
+
+  it('drops undone states when something new is drawn', () => {
+    const history = pushHistory(undoHistory(pushHistory(pushHistory(EMPTY_MASK_HISTORY, one), two)), []);
+
+    expect(history.entries).toEqual([[], one, []]);
+    expect(canRedoHistory(history)).toBe(false);
+  });
+});
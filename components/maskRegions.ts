@@ -0,0 +1,202 @@
+// Geometry helpers that group mask shapes into numbered regions for MaskingCanvas, and the undo/redo
+// history those regions are edited through.
+
+export type Point = { x: number; y: number };
+export type Path = Point[];
+export type Bbox = { minX: number; minY: number; maxX: number; maxY: number };
+
+export type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'ellipse' | 'lasso';
+
+/**
+ * One thing drawn with a mask tool. Brush and eraser points are the stroke, drawn `size` wide;
+ * rectangles and ellipses are the two corners of their box; lassos are the polygon's vertices.
+ */
+export type MaskShape = {
+  tool: MaskTool;
+  points: Path;
+  size: number;
+  fill: boolean; // Brush strokes only: also fill the inside of the closed stroke
+};
+
+export type Region = {
+  key: string; // Stable while the region is renumbered, so prompts and selection can follow it
+  id: number; // The number shown on the image and used in prompts
+  shapes: MaskShape[]; // In drawing order, so erasers only remove what was drawn before them
+  bbox: Bbox; // Of what was drawn; erasing doesn't shrink it
+  feather: number; // In image pixels, how far the region's edge fades in towards its inside
+};
+
+
+export const MASK_TOOLS: { tool: MaskTool; label: string }[] = [
+  { tool: 'brush', label: 'Brush' },
+  { tool: 'eraser', label: 'Eraser' },
+  { tool: 'rectangle', label: 'Rectangle' },
+  { tool: 'ellipse', label: 'Ellipse' },
+  { tool: 'lasso', label: 'Lasso' },
+];
+
+export const MERGE_THRESHOLD_MULTIPLIER = 2.5;
+export const CLOSE_THRESHOLD_MULTIPLIER = 2; // A stroke ending within this many brush widths of its start is closed
+export const DEFAULT_REGION_FEATHER = 8;
+
+/**
+ * Where a new shape goes: 'auto' joins the first nearby region or starts a new one, 'new' always
+ * starts a new region, and a region key adds the shape to that region wherever it is drawn.
+ */
+export type RegionTarget = 'auto' | 'new' | string;
+
+export const getPathBbox = (path: Path): Bbox => {
+  return path.reduce(
+    (acc, point) => ({
+      minX: Math.min(acc.minX, point.x),
+      minY: Math.min(acc.minY, point.y),
+      maxX: Math.max(acc.maxX, point.x),
+      maxY: Math.max(acc.maxY, point.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+};
+
+export const mergeBboxes = (b1: Bbox, b2: Bbox): Bbox => ({
+  minX: Math.min(b1.minX, b2.minX),
+  minY: Math.min(b1.minY, b2.minY),
+  maxX: Math.max(b1.maxX, b2.maxX),
+  maxY: Math.max(b1.maxY, b2.maxY),
+});
+
+export const areBboxesClose = (b1: Bbox, b2: Bbox, threshold: number): boolean => {
+  const expandedB1 = {
+    minX: b1.minX - threshold,
+    minY: b1.minY - threshold,
+    maxX: b1.maxX + threshold,
+    maxY: b1.maxY + threshold,
+  };
+  return (
+    expandedB1.minX <= b2.maxX &&
+    expandedB1.maxX >= b2.minX &&
+    expandedB1.minY <= b2.maxY &&
+    expandedB1.maxY >= b2.minY
+  );
+};
+
+/**
+ * Whether a freehand stroke ends close enough to where it started to count as a closed outline.
+ */
+export const isPathClosed = (path: Path, brushSize: number): boolean => {
+  if (path.length < 3) return false;
+  const start = path[0];
+  const end = path[path.length - 1];
+  return Math.hypot(end.x - start.x, end.y - start.y) <= brushSize * CLOSE_THRESHOLD_MULTIPLIER;
+};
+
+/**
+ * Adds a finished shape to the regions. With the 'auto' target, the shape joins the first region whose
+ * bounding box is within `shape.size * MERGE_THRESHOLD_MULTIPLIER` of it; otherwise, or with the 'new'
+ * target, it starts a new region numbered one past the highest existing id, with the given feather.
+ * A region key as the target adds the shape to that region, or works like 'auto' if it's gone.
+ * @returns A new regions array; the input is not modified.
+ */
+export const addShapeToRegions = (regions: Region[], shape: MaskShape, feather: number, target: RegionTarget = 'auto'): Region[] => {
+  const shapeBbox = getPathBbox(shape.points);
+  const isTargeted = regions.some(region => region.key === target);
+  let merged = false;
+  const newRegions = regions.map(region => {
+    const joins = isTargeted
+      ? region.key === target
+      : target !== 'new' && areBboxesClose(region.bbox, shapeBbox, shape.size * MERGE_THRESHOLD_MULTIPLIER);
+    if (!merged && joins) {
+      merged = true;
+      return {
+        ...region,
+        shapes: [...region.shapes, shape],
+        bbox: mergeBboxes(region.bbox, shapeBbox),
+      };
+    }
+    return region;
+  });
+
+  if (!merged) {
+    newRegions.push({
+      key: crypto.randomUUID(),
+      id: getNextRegionId(regions),
+      shapes: [shape],
+      bbox: shapeBbox,
+      feather,
+    });
+  }
+  return newRegions;
+};
+
+/**
+ * Adds an eraser stroke to every region it passes over, so it cuts through all of them, or only
+ * through the region with the given key.
+ * @returns The regions with the eraser added, or the same array if it touched none.
+ */
+export const eraseFromRegions = (regions: Region[], eraser: MaskShape, onlyKey?: string): Region[] => {
+  const eraserBbox = getPathBbox(eraser.points);
+  const touched = (region: Region) => (!onlyKey || region.key === onlyKey) && areBboxesClose(region.bbox, eraserBbox, eraser.size);
+  if (!regions.some(touched)) return regions;
+  return regions.map(region => touched(region) ? { ...region, shapes: [...region.shapes, eraser] } : region);
+};
+
+export const setRegionFeather = (regions: Region[], key: string, feather: number): Region[] =>
+  regions.map(region => region.key === key ? { ...region, feather } : region);
+
+export const getNextRegionId = (regions: Region[]) =>
+  (regions.length > 0 ? Math.max(...regions.map(r => r.id)) : 0) + 1;
+
+/**
+ * Moves everything drawn in one region into another, which keeps its number and feather.
+ */
+export const mergeRegions = (regions: Region[], intoKey: string, fromKey: string): Region[] => {
+  const from = regions.find(r => r.key === fromKey);
+  if (!from || intoKey === fromKey || !regions.some(r => r.key === intoKey)) return regions;
+  return regions
+    .filter(region => region.key !== fromKey)
+    .map(region => region.key === intoKey
+      ? { ...region, shapes: [...region.shapes, ...from.shapes], bbox: mergeBboxes(region.bbox, from.bbox) }
+      : region);
+};
+
+export const deleteRegion = (regions: Region[], key: string): Region[] =>
+  regions.filter(region => region.key !== key);
+
+/**
+ * Swaps a region's number with its neighbour's: 'up' with the region numbered just before it,
+ * 'down' with the one just after.
+ * @returns The regions sorted by number, or the same array if the region is already first or last.
+ */
+export const moveRegion = (regions: Region[], key: string, direction: 'up' | 'down'): Region[] => {
+  const sorted = [...regions].sort((a, b) => a.id - b.id);
+  const index = sorted.findIndex(r => r.key === key);
+  const otherIndex = direction === 'up' ? index - 1 : index + 1;
+  if (index === -1 || otherIndex < 0 || otherIndex >= sorted.length) return regions;
+  const region = sorted[index];
+  const other = sorted[otherIndex];
+  sorted[index] = { ...other, id: region.id };
+  sorted[otherIndex] = { ...region, id: other.id };
+  return sorted;
+};
+
+export type MaskHistory = { entries: Region[][]; index: number };
+
+export const EMPTY_MASK_HISTORY: MaskHistory = { entries: [[]], index: 0 };
+
+export const getHistoryRegions = (history: MaskHistory): Region[] => history.entries[history.index] ?? [];
+
+/**
+ * Records a new state of the regions, dropping anything that had been undone.
+ */
+export const pushHistory = (history: MaskHistory, regions: Region[]): MaskHistory => ({
+  entries: [...history.entries.slice(0, history.index + 1), regions],
+  index: history.index + 1,
+});
+
+export const canUndoHistory = (history: MaskHistory) => history.index > 0;
+export const canRedoHistory = (history: MaskHistory) => history.index < history.entries.length - 1;
+
+export const undoHistory = (history: MaskHistory): MaskHistory =>
+  canUndoHistory(history) ? { ...history, index: history.index - 1 } : history;
+
+export const redoHistory = (history: MaskHistory): MaskHistory =>
+  canRedoHistory(history) ? { ...history, index: history.index + 1 } : history;
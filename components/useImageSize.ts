@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { Size } from './viewport';
+
+/**
+ * Reads an image's natural size, so frames can take its real aspect ratio.
+ * @param {string | null | undefined} src The image, as a data URL or URL.
+ * @returns {Size | null} The size, or null until it has loaded. It keeps the same object while the size doesn't change.
+ */
+export const useImageSize = (src: string | null | undefined): Size | null => {
+  const [size, setSize] = useState<Size | null>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    let isCancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (isCancelled) return;
+      setSize(prev => prev && prev.width === img.naturalWidth && prev.height === img.naturalHeight ? prev : { width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = src;
+    return () => { isCancelled = true; };
+  }, [src]);
+
+  return size;
+};
+
+/**
+ * Styles a frame to an image's aspect ratio, as wide as it can be without growing past a height.
+ * @param {Size | null} size The image size; 16:9 is used until it's known.
+ * @param {string} maxHeight A CSS length the frame must fit in, e.g. "70vh".
+ * @returns {React.CSSProperties} The frame's aspect ratio and width.
+ */
+export const getFrameStyle = (size: Size | null, maxHeight: string): React.CSSProperties => {
+  const ratio = size && size.height > 0 ? size.width / size.height : 16 / 9;
+  return { aspectRatio: `${ratio}`, width: `min(100%, calc(${maxHeight} * ${ratio}))` };
+};
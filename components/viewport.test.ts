@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { FIT_VIEWPORT, MAX_ZOOM, clampViewport, zoomAround, getVisibleArea, centerOn, getActualSizeZoom } from './viewport';
+
+const stage = { width: 800, height: 450 };
+
+describe('clampViewport', () => {
+  it("doesn't zoom out past fit or in past the maximum", () => {
+    expect(clampViewport({ zoom: 0.5, x: 0, y: 0 }, stage)).toEqual(FIT_VIEWPORT);
+    expect(clampViewport({ zoom: 100, x: 0, y: 0 }, stage).zoom).toBe(MAX_ZOOM);
+  });
+
+  it("doesn't pan past the content's edges", () => {
+    expect(clampViewport({ zoom: 2, x: 50, y: -1000 }, stage)).toEqual({ zoom: 2, x: 0, y: -450 });
+  });
+});
+
+describe('zoomAround', () => {
+  it('keeps the anchor over the same spot of the content', () => {
+    const anchor = { x: 200, y: 100 };
+    const zoomed = zoomAround(FIT_VIEWPORT, 4, anchor, stage);
+    const contentUnder = (v: typeof zoomed) => ({ x: (anchor.x - v.x) / v.zoom, y: (anchor.y - v.y) / v.zoom });
+
+    expect(zoomed.zoom).toBe(4);
+    expect(contentUnder(zoomed)).toEqual(contentUnder(FIT_VIEWPORT));
+  });
+
+  it('returns to fit when zooming all the way out', () => {
+    expect(zoomAround({ zoom: 3, x: -400, y: -300 }, 0.1, { x: 10, y: 10 }, stage)).toEqual(FIT_VIEWPORT);
+  });
+});
+
+describe('getVisibleArea and centerOn', () => {
+  it('shows the whole image at fit', () => {
+    expect(getVisibleArea(FIT_VIEWPORT, stage)).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+  });
+
+  it('centers a spot of the content and reports it as the middle of the visible area', () => {
+    const centered = centerOn({ zoom: 4, x: 0, y: 0 }, { x: 0.5, y: 0.25 }, stage);
+    const area = getVisibleArea(centered, stage);
+
+    expect(area.x + area.width / 2).toBeCloseTo(0.5);
+    expect(area.y + area.height / 2).toBeCloseTo(0.25);
+  });
+
+  it('stops at the edge when the spot is near it', () => {
+    expect(getVisibleArea(centerOn({ zoom: 2, x: 0, y: 0 }, { x: 1, y: 0 }, stage), stage)).toEqual({ x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  });
+});
+
+describe('getActualSizeZoom', () => {
+  it('zooms so one image pixel takes one CSS pixel, but never below fit', () => {
+    expect(getActualSizeZoom(3840, 960)).toBe(4);
+    expect(getActualSizeZoom(640, 960)).toBe(1);
+  });
+});
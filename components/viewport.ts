@@ -0,0 +1,79 @@
+// Zoom and pan for the editing stage. The stage's content is scaled by `zoom` from its top-left
+// corner and then moved by (x, y), all in CSS pixels of the stage. Canvases inside map pointers
+// through their on-screen rectangle, so they stay in natural-image coordinates at any zoom.
+
+export type Viewport = {
+  zoom: number; // 1 fits the image to the stage
+  x: number;
+  y: number;
+};
+
+export type Size = { width: number; height: number };
+
+export const FIT_VIEWPORT: Viewport = { zoom: 1, x: 0, y: 0 };
+export const MAX_ZOOM = 16;
+export const ZOOM_STEP = 1.25; // One wheel notch or +/- click
+
+/**
+ * Limits a viewport to what the stage can show: no zooming out past fit and no panning past the content's edge.
+ * @param {Viewport} viewport The wanted viewport.
+ * @param {Size} stage The stage's size in CSS pixels.
+ * @returns {Viewport} The closest allowed viewport.
+ */
+export const clampViewport = (viewport: Viewport, stage: Size): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, viewport.zoom));
+  const clamp = (value: number, size: number) => Math.min(0, Math.max(size - size * zoom, value));
+  return { zoom, x: clamp(viewport.x, stage.width), y: clamp(viewport.y, stage.height) };
+};
+
+/**
+ * Zooms while keeping one point of the stage over the same spot of the content, e.g. the pointer.
+ * @param {Viewport} viewport The current viewport.
+ * @param {number} zoom The new zoom.
+ * @param {{ x: number; y: number }} anchor The point to keep still, in stage pixels.
+ * @param {Size} stage The stage's size in CSS pixels.
+ * @returns {Viewport} The zoomed viewport, clamped.
+ */
+export const zoomAround = (viewport: Viewport, zoom: number, anchor: { x: number; y: number }, stage: Size): Viewport => {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, zoom)) / viewport.zoom;
+  return clampViewport({
+    zoom: viewport.zoom * scale,
+    x: anchor.x - (anchor.x - viewport.x) * scale,
+    y: anchor.y - (anchor.y - viewport.y) * scale,
+  }, stage);
+};
+
+/**
+ * The part of the content in view, as fractions of the content's size, for the minimap.
+ * @param {Viewport} viewport The current viewport.
+ * @param {Size} stage The stage's size in CSS pixels.
+ * @returns The visible rectangle, each value between 0 and 1.
+ */
+export const getVisibleArea = (viewport: Viewport, stage: Size) => ({
+  x: (0 - viewport.x) / (stage.width * viewport.zoom), // Not -x, which makes -0 at the edge
+  y: (0 - viewport.y) / (stage.height * viewport.zoom),
+  width: 1 / viewport.zoom,
+  height: 1 / viewport.zoom,
+});
+
+/**
+ * Pans so that a spot of the content, given as fractions of its size, is in the middle of the stage.
+ * @param {Viewport} viewport The current viewport.
+ * @param {{ x: number; y: number }} spot The spot, each value between 0 and 1.
+ * @param {Size} stage The stage's size in CSS pixels.
+ * @returns {Viewport} The panned viewport, clamped.
+ */
+export const centerOn = (viewport: Viewport, spot: { x: number; y: number }, stage: Size): Viewport => clampViewport({
+  zoom: viewport.zoom,
+  x: stage.width / 2 - spot.x * stage.width * viewport.zoom,
+  y: stage.height / 2 - spot.y * stage.height * viewport.zoom,
+}, stage);
+
+/**
+ * The zoom at which one image pixel takes one CSS pixel.
+ * @param {number} imageWidth The image's natural width.
+ * @param {number} fittedWidth How wide the image is drawn at a zoom of 1, in CSS pixels.
+ * @returns {number} The zoom, never below fit.
+ */
+export const getActualSizeZoom = (imageWidth: number, fittedWidth: number) =>
+  fittedWidth > 0 ? Math.min(MAX_ZOOM, Math.max(1, imageWidth / fittedWidth)) : 1;
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+// Headline fonts for the local text overlay compositor.
+import '@fontsource/anton/400.css';
+import '@fontsource/bebas-neue/400.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { runVariants, describeVariantFailures } from './aiService';
+
+describe('runVariants', () => {
+  it('keeps the variants that succeeded and reports the ones that failed', async () => {
+    let call = 0;
+    const run = await runVariants(4, async () => {
+      call++;
+      if (call % 2 === 0) throw new Error('Quota exceeded');
+      return call;
+    });
+
+    expect(run).toEqual({ variants: [1, 3], failedCount: 2, failureReason: 'Quota exceeded' });
+    expect(describeVariantFailures(run, 4)).toBe('2 of 4 variants failed: Quota exceeded');
+  });
+
+  it('has nothing to report when every variant succeeded', async () => {
+    const run = await runVariants(3, async () => 'ok');
+
+    expect(run.failedCount).toBe(0);
+    expect(describeVariantFailures(run, 3)).toBeNull();
+  });
+
+  it('throws the first error when every variant failed', async () => {
+    await expect(runVariants(2, async () => { throw new Error('Offline'); })).rejects.toThrow('Offline');
+  });
+});
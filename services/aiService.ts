@@ -0,0 +1,157 @@
+// This service routes each AI operation to the provider and model the user selected for it.
+import type { ImageProvider, ImagePart, ImageResult, ProviderOperation, EncodedMask } from './imageProvider';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import type { StyleProfile, TextSuggestion } from '../types';
+import { addStyleToEditPrompt, buildGeneratePrompt, buildMaskedEditPrompt } from './promptTemplates';
+import { applyStyleToSuggestions } from './styleProfiles';
+import type { TargetFormat } from './targetFormats';
+
+const MODEL_SELECTION_STORAGE_KEY = 'ai-model-selection';
+
+export const PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider];
+
+export interface ModelChoice {
+  providerId: string;
+  model: string;
+}
+
+export type ModelSelection = Record<ProviderOperation, ModelChoice>;
+
+const defaultChoice = (operation: ProviderOperation): ModelChoice => ({
+  providerId: geminiProvider.id,
+  model: geminiProvider.models[operation][0],
+});
+
+const isValidChoice = (operation: ProviderOperation, choice: ModelChoice | undefined): choice is ModelChoice => {
+  const provider = PROVIDERS.find(p => p.id === choice?.providerId);
+  return !!provider && provider.models[operation].includes(choice!.model);
+};
+
+/**
+ * Retrieves the model selected for every operation, falling back to the Gemini defaults
+ * for anything missing or no longer offered.
+ * @returns {ModelSelection} The provider and model per operation.
+ */
+export const getModelSelection = (): ModelSelection => {
+  let stored: Partial<ModelSelection> = {};
+  try {
+    const raw = localStorage.getItem(MODEL_SELECTION_STORAGE_KEY);
+    stored = raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Failed to parse model selection from localStorage:", error);
+  }
+
+  const operations: ProviderOperation[] = ['generate', 'edit', 'describe', 'suggest'];
+  return operations.reduce((selection, operation) => {
+    const choice = stored[operation];
+    selection[operation] = isValidChoice(operation, choice) ? choice : defaultChoice(operation);
+    return selection;
+  }, {} as ModelSelection);
+};
+
+/**
+ * Saves the model to use for one operation.
+ * @param {ProviderOperation} operation The operation to configure.
+ * @param {ModelChoice} choice The provider and model to use.
+ */
+export const setModelChoice = (operation: ProviderOperation, choice: ModelChoice): void => {
+  if (!isValidChoice(operation, choice)) return;
+  const selection = { ...getModelSelection(), [operation]: choice };
+  localStorage.setItem(MODEL_SELECTION_STORAGE_KEY, JSON.stringify(selection));
+};
+
+const resolve = (operation: ProviderOperation): { provider: ImageProvider; model: string } => {
+  const choice = getModelSelection()[operation];
+  return { provider: PROVIDERS.find(p => p.id === choice.providerId)!, model: choice.model };
+};
+
+export interface VariantRun<T> {
+  variants: T[]; // The requests that succeeded, in request order
+  failedCount: number;
+  failureReason: string | null; // The first failure's message, when any failed
+}
+
+/**
+ * Runs the same request several times in parallel to produce alternative takes.
+ * Each call goes through the provider's own error handling, so for Gemini concurrent
+ * requests are spread across the key pool by the round-robin in getNextKey.
+ * @param count How many variants to request.
+ * @param makeVariant A function that performs one request.
+ * @returns The variants that succeeded, and how many failed and why.
+ * @throws The first error if every request failed.
+ */
+export const runVariants = async <T>(count: number, makeVariant: () => Promise<T>): Promise<VariantRun<Awaited<T>>> => {
+  const results = await Promise.allSettled(Array.from({ length: count }, () => makeVariant()));
+  const variants = results
+    .filter((r): r is PromiseFulfilledResult<Awaited<T>> => r.status === 'fulfilled')
+    .map(r => r.value);
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+  if (variants.length === 0) {
+    throw failures[0].reason;
+  }
+  const reason = failures[0]?.reason;
+  return {
+    variants,
+    failedCount: failures.length,
+    failureReason: failures.length > 0 ? (reason instanceof Error ? reason.message : String(reason)) : null,
+  };
+};
+
+/**
+ * Describes the variants that failed for the user, e.g. "2 of 4 variants failed: <reason>".
+ * @returns The notice, or null when every variant succeeded.
+ */
+export const describeVariantFailures = (run: VariantRun<unknown>, count: number): string | null =>
+  run.failedCount > 0 ? `${run.failedCount} of ${count} variants failed: ${run.failureReason}` : null;
+
+export const generateCharacterDefinition = async (characterImage: ImagePart): Promise<string> => {
+  const { provider, model } = resolve('describe');
+  return provider.describeCharacter(characterImage, model);
+};
+
+/**
+ * Assembles the prompt an edit sends: the masking rules around the region tasks when there's a mask,
+ * followed by the channel's style.
+ */
+export const buildEditPrompt = (prompt: string, mask: EncodedMask | null, style: StyleProfile): string =>
+  addStyleToEditPrompt(mask ? buildMaskedEditPrompt(prompt, mask) : prompt, style);
+
+export const editImageWithPrompt = async (
+  imageToEdit: ImagePart,
+  prompt: string,
+  style: StyleProfile,
+  characterImages: ImagePart[] = [],
+  isMaskingEdit: boolean = false,
+  mask: EncodedMask | null = null,
+): Promise<ImageResult> => {
+  const { provider, model } = resolve('edit');
+  const sentMask = isMaskingEdit ? mask : null;
+  return provider.editImage(imageToEdit, buildEditPrompt(prompt, sentMask, style), characterImages, sentMask, model);
+};
+
+export const generateImageWithPrompt = async (prompt: string, style: StyleProfile, format: TargetFormat): Promise<ImageResult> => {
+  const { provider, model } = resolve('generate');
+  return provider.generateImage(buildGeneratePrompt(prompt, style, format), model, format.aspectRatio);
+};
+
+export const generateTextOverlaySuggestions = async (image: ImagePart, style: StyleProfile): Promise<TextSuggestion[]> => {
+  try {
+    const { provider, model } = resolve('suggest');
+    return applyStyleToSuggestions(await provider.suggestText(image, model, style), style);
+  } catch (error) {
+    console.error("Error generating text overlay suggestions:", error);
+    return [];
+  }
+};
+
+export const generateInitialTextSuggestions = async (sceneDescription: string, style: StyleProfile): Promise<TextSuggestion[]> => {
+  try {
+    const { provider, model } = resolve('suggest');
+    return applyStyleToSuggestions(await provider.suggestText(sceneDescription, model, style), style);
+  } catch (error) {
+     console.error("Error generating initial text suggestions:", error);
+     return [];
+  }
+};
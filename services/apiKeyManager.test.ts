@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  addKey,
+  deleteKey,
+  setKeyLabel,
+  getKeyStats,
+  getNextKey,
+  getBackoffMs,
+  markKeyAsExhausted,
+  recordKeySuccess,
+  recordKeyFailure,
+} from './apiKeyManager';
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('getBackoffMs', () => {
+  it('starts at a minute and doubles up to half an hour', () => {
+    expect(getBackoffMs(1)).toBe(60_000);
+    expect(getBackoffMs(2)).toBe(120_000);
+    expect(getBackoffMs(4)).toBe(480_000);
+    expect(getBackoffMs(10)).toBe(30 * 60_000);
+  });
+});
+
+describe('key stats', () => {
+  it('keeps labels and counters with the key, and drops them with it', () => {
+    addKey('key-one', ' Main account ');
+    addKey('key-two');
+    setKeyLabel('key-two', 'Backup');
+    recordKeySuccess('key-one');
+    recordKeyFailure('key-one', 'error', 'Internal error');
+
+    const [one, two] = getKeyStats();
+    expect(one).toMatchObject({ label: 'Main account', requests: 2, failures: 1, lastError: 'Internal error', health: 'failing' });
+    expect(two).toMatchObject({ label: 'Backup', requests: 0, health: 'unused' });
+
+    deleteKey('key-one');
+    addKey('key-one');
+    expect(getKeyStats().find(s => s.key === 'key-one')).toMatchObject({ label: '', requests: 0 });
+  });
+
+  it('backs off longer with each rate limit in a row, and resets after a success', () => {
+    addKey('key-one');
+    expect(markKeyAsExhausted('key-one', '429')).toBe(60_000);
+    expect(markKeyAsExhausted('key-one', '429')).toBe(120_000);
+    recordKeySuccess('key-one');
+    expect(markKeyAsExhausted('key-one', '429')).toBe(60_000);
+  });
+
+  it('uses the retry-after hint instead of the backoff when there is one', () => {
+    addKey('key-one');
+    const before = Date.now();
+    expect(markKeyAsExhausted('key-one', '429', 5_000)).toBe(5_000);
+    expect(getKeyStats()[0].cooldownUntil - before).toBeLessThan(6_000);
+  });
+});
+
+describe('getNextKey', () => {
+  it('skips keys that are cooling down until their cooldown has passed', () => {
+    addKey('key-one');
+    addKey('key-two');
+    markKeyAsExhausted('key-one', '429', 1_000);
+
+    expect(getNextKey()).toBe('key-two');
+    expect(getNextKey()).toBe('key-two');
+    expect(getKeyStats(Date.now() + 2_000)[0].health).toBe('healthy');
+  });
+
+  it('says how long until the first key is usable again when all are cooling down', () => {
+    addKey('key-one');
+    markKeyAsExhausted('key-one', '429', 30_000);
+
+    expect(() => getNextKey()).toThrow(/exceeded their quota.*wait 30s/);
+  });
+
+  it('leaves out keys rejected as invalid until they work again', () => {
+    addKey('key-one');
+    addKey('key-two');
+    recordKeyFailure('key-one', 'invalid', 'API key not valid');
+
+    expect(getNextKey()).toBe('key-two');
+    expect(getNextKey()).toBe('key-two');
+
+    recordKeySuccess('key-one');
+    expect(getNextKey()).toBe('key-one');
+  });
+
+  it('asks to check the keys when every key is invalid', () => {
+    addKey('key-one');
+    recordKeyFailure('key-one', 'invalid', 'API key not valid');
+
+    expect(() => getNextKey()).toThrow('Every API key was rejected as invalid');
+  });
+});
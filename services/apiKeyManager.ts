@@ -1,12 +1,47 @@
-// This service manages API keys in the browser's localStorage.
+// This service manages API keys in the browser's localStorage, along with a label, usage counters and
+// the rate-limit cooldown of each key.
 
 const KEYS_STORAGE_KEY = 'gemini-api-keys';
 const INDEX_STORAGE_KEY = 'gemini-api-key-index';
+const KEY_INFO_STORAGE_KEY = 'gemini-api-key-info';
 
-// In-memory store for key status. This resets on page refresh, which is acceptable
-// to avoid permanently blocking a key that might have its quota reset.
-const keyStatus = new Map<string, { exhaustedUntil: number }>();
-const EXHAUSTION_PERIOD_MS = 60 * 1000; // 1 minute cooldown for a rate-limited key
+// Cooldowns are stored too, so a key that was just rate-limited isn't retried straight after a refresh.
+// Backoff doubles with every rate limit in a row, but is capped so a key is never blocked for long.
+const BASE_COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 30 * 60 * 1000;
+
+export type KeyOutcome = 'ok' | 'rate-limited' | 'invalid' | 'error';
+
+export type KeyHealth = 'unused' | 'healthy' | 'cooling-down' | 'invalid' | 'failing';
+
+interface KeyInfo {
+  label: string;
+  requests: number;
+  failures: number;
+  lastOutcome: KeyOutcome | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastUsedAt: number | null;
+  cooldownUntil: number; // 0 when not cooling down
+  rateLimitStreak: number; // Rate limits in a row, which sets the next backoff
+}
+
+export interface ApiKeyStats extends KeyInfo {
+  key: string;
+  health: KeyHealth;
+}
+
+const emptyInfo = (): KeyInfo => ({
+  label: '',
+  requests: 0,
+  failures: 0,
+  lastOutcome: null,
+  lastError: null,
+  lastErrorAt: null,
+  lastUsedAt: null,
+  cooldownUntil: 0,
+  rateLimitStreak: 0,
+});
 
 /**
  * Retrieves all stored API keys.
@@ -30,16 +65,43 @@ const saveKeys = (keys: string[]): void => {
   localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
 };
 
+const getAllKeyInfo = (): Record<string, KeyInfo> => {
+  try {
+    const raw = localStorage.getItem(KEY_INFO_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Failed to parse API key stats from localStorage:", error);
+    return {};
+  }
+};
+
+const getKeyInfo = (key: string): KeyInfo => ({ ...emptyInfo(), ...getAllKeyInfo()[key] });
+
+const updateKeyInfo = (key: string, update: (info: KeyInfo) => Partial<KeyInfo>): void => {
+  const all = getAllKeyInfo();
+  const info = { ...emptyInfo(), ...all[key] };
+  all[key] = { ...info, ...update(info) };
+  localStorage.setItem(KEY_INFO_STORAGE_KEY, JSON.stringify(all));
+};
+
+const removeKeyInfo = (key: string): void => {
+  const all = getAllKeyInfo();
+  delete all[key];
+  localStorage.setItem(KEY_INFO_STORAGE_KEY, JSON.stringify(all));
+};
+
 /**
  * Adds a new API key to the list if it's not already present.
  * @param {string} key The API key to add.
+ * @param {string} label A name to tell it apart, e.g. the project or account it belongs to.
  */
-export const addKey = (key: string): void => {
+export const addKey = (key: string, label: string = ''): void => {
   if (!key.trim()) return;
   const currentKeys = getKeys();
   if (!currentKeys.includes(key)) {
     saveKeys([...currentKeys, key]);
-    keyStatus.delete(key); // Ensure new key has no exhausted status
+    removeKeyInfo(key); // Ensure a re-added key starts with clean stats
+    if (label.trim()) setKeyLabel(key, label);
   }
 };
 
@@ -51,7 +113,7 @@ export const deleteKey = (keyToDelete: string): void => {
   const currentKeys = getKeys();
   const newKeys = currentKeys.filter(key => key !== keyToDelete);
   saveKeys(newKeys);
-  keyStatus.delete(keyToDelete); // Clean up status for the deleted key
+  removeKeyInfo(keyToDelete); // Clean up stats for the deleted key
 
   // Reset index if it's now out of bounds
   const currentIndex = parseInt(localStorage.getItem(INDEX_STORAGE_KEY) || '0', 10);
@@ -60,19 +122,129 @@ export const deleteKey = (keyToDelete: string): void => {
   }
 };
 
+/**
+ * Renames a key.
+ * @param {string} key The API key.
+ * @param {string} label The new label; empty to show the masked key instead.
+ */
+export const setKeyLabel = (key: string, label: string): void => {
+  updateKeyInfo(key, () => ({ label: label.trim() }));
+};
+
+/**
+ * Works out how long a key cools down after a rate limit: a minute, doubling with each rate limit in a row.
+ * @param {number} streak The rate limits in a row, including this one.
+ * @returns {number} The cooldown in milliseconds.
+ */
+export const getBackoffMs = (streak: number): number =>
+  Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** Math.max(0, streak - 1));
+
+/**
+ * Records a successful request, which also resets the key's backoff.
+ * @param {string} key The API key used.
+ */
+export const recordKeySuccess = (key: string): void => {
+  updateKeyInfo(key, info => ({
+    requests: info.requests + 1,
+    lastOutcome: 'ok',
+    lastUsedAt: Date.now(),
+    rateLimitStreak: 0,
+  }));
+};
+
+/**
+ * Records a failed request that wasn't a rate limit.
+ * @param {string} key The API key used.
+ * @param {'invalid' | 'error'} outcome Whether the key was rejected, or the request failed for another reason.
+ * @param {string} message The error message.
+ */
+export const recordKeyFailure = (key: string, outcome: 'invalid' | 'error', message: string): void => {
+  const now = Date.now();
+  updateKeyInfo(key, info => ({
+    requests: info.requests + 1,
+    failures: info.failures + 1,
+    lastOutcome: outcome,
+    lastError: message,
+    lastErrorAt: now,
+    lastUsedAt: now,
+  }));
+};
+
 /**
  * Marks a key as rate-limited, putting it on a cooldown.
  * @param {string} key The API key that hit a rate limit.
+ * @param {string} message The error message.
+ * @param {number | null} retryAfterMs How long the API asked to wait, if it said; otherwise the key backs off exponentially.
+ * @returns {number} The cooldown in milliseconds.
  */
-export const markKeyAsExhausted = (key: string): void => {
-    console.warn(`API key ending in ...${key.slice(-4)} was rate-limited. Putting it on a 60s cooldown.`);
-    keyStatus.set(key, { exhaustedUntil: Date.now() + EXHAUSTION_PERIOD_MS });
+export const markKeyAsExhausted = (key: string, message: string, retryAfterMs: number | null = null): number => {
+  const now = Date.now();
+  const streak = getKeyInfo(key).rateLimitStreak + 1;
+  const cooldown = retryAfterMs ?? getBackoffMs(streak);
+  console.warn(`API key ending in ...${key.slice(-4)} was rate-limited. Putting it on a ${Math.ceil(cooldown / 1000)}s cooldown.`);
+  updateKeyInfo(key, info => ({
+    requests: info.requests + 1,
+    failures: info.failures + 1,
+    lastOutcome: 'rate-limited',
+    lastError: message,
+    lastErrorAt: now,
+    lastUsedAt: now,
+    cooldownUntil: now + cooldown,
+    rateLimitStreak: streak,
+  }));
+  return cooldown;
 };
 
 /**
- * Gets the next available (not on cooldown) API key in a round-robin fashion.
+ * Takes a key off its cooldown, e.g. after it passed a check.
+ * @param {string} key The API key.
+ */
+export const clearKeyCooldown = (key: string): void => {
+  updateKeyInfo(key, () => ({ cooldownUntil: 0, rateLimitStreak: 0 }));
+};
+
+const getKeyHealth = (info: KeyInfo, now: number): KeyHealth => {
+  if (info.cooldownUntil > now) return 'cooling-down';
+  switch (info.lastOutcome) {
+    case null:
+      return 'unused';
+    case 'invalid':
+      return 'invalid';
+    case 'error':
+      return 'failing';
+    default:
+      return 'healthy';
+  }
+};
+
+/**
+ * Gets every key with its label, counters and health, for the key dashboard.
+ * @param {number} now The time to judge cooldowns at.
+ * @returns {ApiKeyStats[]} The keys, in rotation order.
+ */
+export const getKeyStats = (now: number = Date.now()): ApiKeyStats[] => {
+  const all = getAllKeyInfo();
+  return getKeys().map(key => {
+    const info = { ...emptyInfo(), ...all[key] };
+    return { ...info, key, health: getKeyHealth(info, now) };
+  });
+};
+
+/**
+ * Builds the error for when every key is cooling down, saying how long until the first one can be used again.
+ * @returns {Error} The error, ready to show to the user.
+ */
+export const createKeysExhaustedError = (): Error => {
+  const cooldowns = getKeyStats().map(stats => stats.cooldownUntil).filter(until => until > Date.now());
+  const wait = cooldowns.length > 0 ? ` or wait ${Math.ceil((Math.min(...cooldowns) - Date.now()) / 1000)}s for the first one to cool down` : '';
+  return new Error(`All available API keys have exceeded their quota. Please add more keys${wait} before trying again.`);
+};
+
+/**
+ * Gets the next available (not on cooldown, not rejected as invalid) API key in a round-robin fashion.
+ * A key rejected as invalid is skipped until it passes a check in the API Key Manager.
  * @returns {string} The next API key to use.
- * @throws {Error} If no API keys are set, or if all are on cooldown.
+ * @throws {Error} If no API keys are set, or if all are on cooldown or invalid.
  */
 export const getNextKey = (): string => {
   const keys = getKeys();
@@ -81,22 +253,24 @@ export const getNextKey = (): string => {
   }
 
   const startIndex = parseInt(localStorage.getItem(INDEX_STORAGE_KEY) || '0', 10);
-  
+  const healths = getKeyStats().map(stats => stats.health);
+
   // Iterate through keys up to one full circle to find a valid one
   for (let i = 0; i < keys.length; i++) {
     const currentIndex = (startIndex + i) % keys.length;
     const key = keys[currentIndex];
-    const status = keyStatus.get(key);
 
-    if (!status || status.exhaustedUntil < Date.now()) {
+    if (healths[currentIndex] !== 'cooling-down' && healths[currentIndex] !== 'invalid') {
         // This key is valid to use
-        if (status) keyStatus.delete(key); // Clear status if cooldown has passed
         const nextIndex = (currentIndex + 1) % keys.length;
         localStorage.setItem(INDEX_STORAGE_KEY, nextIndex.toString());
         return key;
     }
   }
 
-  // If loop completes, all keys are on cooldown
-  throw new Error("All available API keys have exceeded their quota. Please add more keys or wait a minute for them to cool down before trying again.");
+  // If loop completes, every key is on cooldown or invalid
+  if (healths.every(health => health === 'invalid')) {
+    throw new Error("Every API key was rejected as invalid. Please check your keys in the API Key Manager.");
+  }
+  throw createKeysExhaustedError();
 };
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { toLibraryCharacter, fromLibraryCharacter, placeLibraryCharacter } from './characterLibrary';
+import { createCharacter, createInitialCharacters } from './characters';
+import { Character, LibraryCharacter } from '../types';
+
+const photo = (name: string) => ({ base64: `data:image/png;base64,${name}`, mimeType: 'image/png' });
+
+const host: LibraryCharacter = {
+  id: 'lib-host',
+  name: 'The Host',
+  roleName: 'Host',
+  definition: 'about 35, short brown hair',
+  tags: ['recurring'],
+  photos: [photo('front'), photo('side')],
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+describe('toLibraryCharacter', () => {
+  it('saves the primary photo first, followed by the extra photos', () => {
+    const character: Character = { ...createCharacter(1), base64: photo('front').base64, mimeType: 'image/png', extraPhotos: [photo('side')], definition: 'def' };
+    const entry = toLibraryCharacter(character);
+
+    expect(entry.photos).toEqual([photo('front'), photo('side')]);
+    expect(entry.definition).toBe('def');
+    expect(entry.tags).toEqual([]);
+  });
+
+  it('keeps the id, name, tags and creation time of the entry it updates', () => {
+    const character: Character = { ...fromLibraryCharacter(host, 1), definition: 'edited definition' };
+    const entry = toLibraryCharacter(character, host);
+
+    expect(entry).toMatchObject({ id: 'lib-host', name: 'The Host', tags: ['recurring'], createdAt: 1, definition: 'edited definition' });
+  });
+
+  it('does not overwrite a saved definition with a failed analysis', () => {
+    const character: Character = { ...fromLibraryCharacter(host, 1), definition: 'Analysis failed.' };
+
+    expect(toLibraryCharacter(character, host).definition).toBe(host.definition);
+  });
+});
+
+describe('fromLibraryCharacter', () => {
+  it('marks characters with a saved definition as analyzed so they are not analyzed again', () => {
+    const character = fromLibraryCharacter(host, 3);
+
+    expect(character).toMatchObject({ slot: 3, base64: photo('front').base64, isAnalyzed: true, libraryId: 'lib-host' });
+    expect(character.extraPhotos).toEqual([photo('side')]);
+  });
+
+  it('leaves characters without a definition to be analyzed', () => {
+    expect(fromLibraryCharacter({ ...host, definition: null }, 1).isAnalyzed).toBe(false);
+  });
+});
+
+describe('placeLibraryCharacter', () => {
+  it('fills the first empty slot', () => {
+    const characters = placeLibraryCharacter(createInitialCharacters(), host);
+
+    expect(characters).toHaveLength(2);
+    expect(characters[0]).toMatchObject({ id: 'char1', slot: 1, libraryId: 'lib-host' });
+  });
+
+  it('adds a new slot when every slot is taken', () => {
+    const full = createInitialCharacters().map(c => ({ ...c, definition: 'taken' }));
+    const characters = placeLibraryCharacter(full, host);
+
+    expect(characters).toHaveLength(3);
+    expect(characters[2]).toMatchObject({ slot: 3, libraryId: 'lib-host' });
+  });
+});
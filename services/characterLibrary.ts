@@ -0,0 +1,103 @@
+// This service persists the character library, which is shared by every project, in IndexedDB.
+import { Character, LibraryCharacter } from '../types';
+import { CHARACTER_LIBRARY_STORE, runRequest as runStoreRequest, StoredPhoto, toStoredPhoto, fromStoredPhoto } from './database';
+import { createCharacter, getNextCharacterSlot } from './characters';
+
+interface StoredLibraryCharacter extends Omit<LibraryCharacter, 'photos'> {
+  photos: StoredPhoto[];
+}
+
+const runRequest = <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runStoreRequest(CHARACTER_LIBRARY_STORE, mode, makeRequest);
+
+/**
+ * Lists every character in the library, alphabetically by name.
+ * @returns {Promise<LibraryCharacter[]>} The library characters, with their photos as data URLs.
+ */
+export const listLibraryCharacters = async (): Promise<LibraryCharacter[]> => {
+  const stored = await runRequest<StoredLibraryCharacter[]>('readonly', store => store.getAll());
+  const characters = await Promise.all(stored.map(async entry => ({
+    ...entry,
+    photos: await Promise.all(entry.photos.map(fromStoredPhoto)),
+  })));
+  return characters.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Adds a character to the library, or replaces the entry with the same id.
+ * @param {LibraryCharacter} character The character to save.
+ */
+export const saveLibraryCharacter = async (character: LibraryCharacter): Promise<void> => {
+  const stored: StoredLibraryCharacter = {
+    ...character,
+    photos: character.photos.map(toStoredPhoto),
+  };
+  await runRequest('readwrite', store => store.put(stored));
+};
+
+/**
+ * Deletes a character from the library. Projects that used it keep their own copy.
+ * @param {string} id The library character id.
+ */
+export const deleteLibraryCharacter = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Builds the library entry for a project character, updating `existing` when the
+ * character was already saved so its id, tags and creation time are kept.
+ * @param {Character} character The project character to save.
+ * @param {LibraryCharacter} [existing] The library entry the character is linked to, if any.
+ * @returns {LibraryCharacter} The entry to save.
+ */
+export const toLibraryCharacter = (character: Character, existing?: LibraryCharacter): LibraryCharacter => {
+  const now = Date.now();
+  const primary = character.base64 && character.mimeType ? [{ base64: character.base64, mimeType: character.mimeType }] : [];
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: existing?.name ?? (character.roleName || character.name),
+    roleName: character.roleName ?? existing?.roleName,
+    definition: character.definition === 'Analysis failed.' ? existing?.definition ?? null : character.definition,
+    tags: existing?.tags ?? [],
+    photos: [...primary, ...(character.extraPhotos ?? [])],
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Creates a project character in the given slot from a library entry. A saved definition
+ * counts as analyzed, so the character is not sent for analysis again.
+ * @param {LibraryCharacter} entry The library character.
+ * @param {number} slot The slot to place it in.
+ * @returns {Character} The project character.
+ */
+export const fromLibraryCharacter = (entry: LibraryCharacter, slot: number): Character => {
+  const [primary, ...extraPhotos] = entry.photos;
+  return {
+    ...createCharacter(slot),
+    name: entry.name,
+    roleName: entry.roleName,
+    base64: primary?.base64 ?? null,
+    mimeType: primary?.mimeType ?? null,
+    definition: entry.definition,
+    isAnalyzed: !!entry.definition?.trim(),
+    libraryId: entry.id,
+    extraPhotos,
+  };
+};
+
+/**
+ * Slots a library character into the project: into the first character with no photo
+ * or definition yet, or into a new slot after the last one.
+ * @param {Character[]} characters The project's characters.
+ * @param {LibraryCharacter} entry The library character to use.
+ * @returns {Character[]} The updated characters.
+ */
+export const placeLibraryCharacter = (characters: Character[], entry: LibraryCharacter): Character[] => {
+  const emptySlot = characters.find(c => !c.base64 && !c.definition?.trim());
+  if (emptySlot) {
+    return characters.map(c => c.id === emptySlot.id ? { ...fromLibraryCharacter(entry, c.slot), id: c.id, roleName: c.roleName ?? entry.roleName } : c);
+  }
+  return [...characters, fromLibraryCharacter(entry, getNextCharacterSlot(characters))];
+};
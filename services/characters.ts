@@ -0,0 +1,49 @@
+// Helpers for the project's list of reference characters and their [CN] tags.
+import { Character } from '../types';
+
+export const DEFAULT_CHARACTER_COUNT = 2;
+
+/**
+ * Creates an empty character for the given slot.
+ * @param {number} slot The N used in its [CN] tag and "(image N)" placeholder.
+ * @returns {Character} The new character.
+ */
+export const createCharacter = (slot: number): Character => ({
+  id: `char${slot}`,
+  slot,
+  name: `Character ${slot}`,
+  roleName: undefined,
+  base64: null,
+  mimeType: null,
+  definition: null,
+  isLoading: false,
+  isAnalyzed: false,
+});
+
+/**
+ * Creates the empty character slots a new thumbnail starts with.
+ * @returns {Character[]} The initial characters.
+ */
+export const createInitialCharacters = (): Character[] =>
+  Array.from({ length: DEFAULT_CHARACTER_COUNT }, (_, i) => createCharacter(i + 1));
+
+/**
+ * Gets the tag used to reference a character in prompts, e.g. "[C3]".
+ */
+export const getCharacterTag = (character: Pick<Character, 'slot'>): string => `[C${character.slot}]`;
+
+/**
+ * Gets the slot number for the next character added to the list.
+ */
+export const getNextCharacterSlot = (characters: Character[]): number =>
+  characters.reduce((max, c) => Math.max(max, c.slot), 0) + 1;
+
+/**
+ * Adds empty characters for any of the given slots that don't exist yet, keeping the list ordered by slot.
+ * @returns The same array if nothing was missing, otherwise a new one.
+ */
+export const ensureCharacterSlots = (characters: Character[], slots: number[]): Character[] => {
+  const missing = [...new Set(slots)].filter(slot => slot > 0 && !characters.some(c => c.slot === slot));
+  if (missing.length === 0) return characters;
+  return [...characters, ...missing.map(createCharacter)].sort((a, b) => a.slot - b.slot);
+};
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildEditSubmission } from './editPrompt';
+import { Character } from '../types';
+import { createCharacter } from './characters';
+
+// The edit prompt is built from the prompt library in localStorage, so start each test from the built-in templates.
+beforeEach(() => {
+  localStorage.clear();
+});
+
+const makeCharacter = (slot: number, overrides: Partial<Character> = {}): Character => ({
+  ...createCharacter(slot),
+  base64: `data:image/png;base64,char${slot}`,
+  mimeType: 'image/png',
+  definition: `char${slot} definition`,
+  isAnalyzed: true,
+  ...overrides,
+});
+
+const characters = [makeCharacter(1), makeCharacter(2)];
+
+describe('buildEditSubmission', () => {
+  it('passes a plain prompt through unchanged', () => {
+    const result = buildEditSubmission('Make the sky orange', [], characters, false);
+
+    expect(result).toEqual({ submissionPrompt: 'Make the sky orange', characterImages: [], characterIds: [] });
+  });
+
+  it('injects the definition and image for each tagged character', () => {
+    const result = buildEditSubmission('Replace the man with [C2] and the woman with [C1]', [], characters, false);
+
+    expect(result.characterIds).toEqual(['char1', 'char2']);
+    expect(result.characterImages).toEqual([
+      { base64: 'data:image/png;base64,char1', mimeType: 'image/png' },
+      { base64: 'data:image/png;base64,char2', mimeType: 'image/png' },
+    ]);
+    expect(result.submissionPrompt).toContain('Definition for [C1]: char1 definition');
+    expect(result.submissionPrompt).toContain('Definition for [C2]: char2 definition');
+    expect(result.submissionPrompt).toContain('User request: "Replace the man with [C2] and the woman with [C1]"');
+  });
+
+  it('only includes the characters that are tagged', () => {
+    const result = buildEditSubmission('Swap the face with [C2]', [], characters, false);
+
+    expect(result.characterIds).toEqual(['char2']);
+    expect(result.submissionPrompt).not.toContain('Definition for [C1]');
+  });
+
+  it('sends every reference photo of a character, primary first', () => {
+    const extraPhotos = [{ base64: 'data:image/png;base64,char1-side', mimeType: 'image/png' }];
+    const result = buildEditSubmission('Swap the face with [C1]', [], [makeCharacter(1, { extraPhotos })], false);
+
+    expect(result.characterImages).toEqual([
+      { base64: 'data:image/png;base64,char1', mimeType: 'image/png' },
+      { base64: 'data:image/png;base64,char1-side', mimeType: 'image/png' },
+    ]);
+    expect(result.submissionPrompt).toContain('Definition for [C1] (2 reference images of the same person): char1 definition');
+  });
+
+  it('ignores tags for characters that have no analyzed reference image', () => {
+    const unanalyzed = [makeCharacter(1, { isAnalyzed: false }), makeCharacter(2, { base64: null })];
+    const result = buildEditSubmission('Swap [C1] and [C2]', [], unanalyzed, false);
+
+    expect(result).toEqual({ submissionPrompt: 'Swap [C1] and [C2]', characterImages: [], characterIds: [] });
+  });
+
+  it('turns region prompts into a numbered task list for masked edits', () => {
+    const result = buildEditSubmission('ignored', [{ id: 1, prompt: ' Add a hat ' }, { id: 3, prompt: 'Replace with [C1]' }], characters, true);
+
+    expect(result.submissionPrompt).toContain('- **Region 1:** Add a hat\n- **Region 3:** Replace with [C1]');
+    expect(result.characterIds).toEqual(['char1']);
+  });
+
+  it('adds the text placement instruction to unmasked text overlay prompts', () => {
+    const result = buildEditSubmission("Add the text 'WOW' at the top", [], characters, false);
+
+    expect(result.submissionPrompt).toMatch(/IMPORTANT INSTRUCTION: When adding the text/);
+  });
+
+  it('does not add the text placement instruction to masked edits', () => {
+    const result = buildEditSubmission('', [{ id: 1, prompt: "Add the text 'WOW'" }], characters, true);
+
+    expect(result.submissionPrompt).not.toContain('IMPORTANT INSTRUCTION');
+  });
+});
+
+describe('buildEditSubmission with many characters', () => {
+  const cast = [1, 2, 3, 4, 5, 10].map(slot => makeCharacter(slot));
+
+  it('matches tags beyond [C2]', () => {
+    const result = buildEditSubmission('Put [C3] next to [C5]', [], cast, false);
+
+    expect(result.characterIds).toEqual(['char3', 'char5']);
+    expect(result.submissionPrompt).toContain('Definition for [C3]: char3 definition');
+    expect(result.submissionPrompt).toContain('Definition for [C5]: char5 definition');
+  });
+
+  it('does not confuse [C1] with [C10]', () => {
+    const result = buildEditSubmission('Replace him with [C10]', [], cast, false);
+
+    expect(result.characterIds).toEqual(['char10']);
+  });
+});
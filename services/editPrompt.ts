@@ -0,0 +1,68 @@
+// Assembles the prompt and reference images sent for an edit from what the user entered.
+import { Character, RegionPrompt } from '../types';
+import type { ImagePart } from './imageProvider';
+import { getCharacterTag } from './characters';
+import { addTextOverlayToEditPrompt } from './promptTemplates';
+
+export interface EditSubmission {
+  submissionPrompt: string;
+  characterImages: ImagePart[];
+  characterIds: Character['id'][];
+}
+
+/**
+ * Builds the submission for an edit. Masked edits become a numbered list of region tasks;
+ * character definitions and reference images are injected for any [C1]…[Cn] tags used.
+ * @param userPrompt The free-form prompt, used for unmasked edits.
+ * @param validRegionPrompts The non-empty region tasks, used for masked edits.
+ * @param characters The reference characters available in the project.
+ * @param isMaskedEdit Whether the edit is constrained by a mask.
+ * @returns The prompt to send, plus the reference images and the ids of the characters they belong to.
+ */
+export const buildEditSubmission = (
+  userPrompt: string,
+  validRegionPrompts: RegionPrompt[],
+  characters: Character[],
+  isMaskedEdit: boolean
+): EditSubmission => {
+  let characterImages: ImagePart[] = [];
+  let characterIds: Character['id'][] = [];
+
+  // For masking, we send the ORIGINAL image and the MASK image, with one task per region.
+  let submissionPrompt = isMaskedEdit
+    ? validRegionPrompts.map(p => `- **Region ${p.id}:** ${p.prompt.trim()}`).join('\n')
+    : userPrompt;
+  const usesCharacterTags = /\[C\d+\]/.test(submissionPrompt);
+
+  if (usesCharacterTags) {
+    const relevantCharacters = characters.filter(c => 
+      c.base64 && c.isAnalyzed && submissionPrompt.includes(getCharacterTag(c))
+    );
+    
+    if (relevantCharacters.length > 0) {
+        let promptParts = ["The following are character definitions for reference images provided after the main image."];
+        relevantCharacters.forEach(char => {
+            const photoCount = 1 + (char.extraPhotos?.length ?? 0);
+            const photoNote = photoCount > 1 ? ` (${photoCount} reference images of the same person)` : '';
+            promptParts.push(`Definition for ${getCharacterTag(char)}${photoNote}: ${char.definition}`);
+        });
+        characterImages = relevantCharacters.flatMap(char => [
+          { base64: char.base64!, mimeType: char.mimeType! },
+          ...(char.extraPhotos ?? []),
+        ]);
+        characterIds = relevantCharacters.map(char => char.id);
+        promptParts.push(`\nUser request: "${submissionPrompt}"`);
+        promptParts.push(`\nInstruction: Fulfill the user's request on the primary image. Use the provided character definitions and their corresponding images to replace people when tags like [C1] are mentioned. IMPORTANT: Only change the face and hair to match the reference character. Keep the original pose, clothing, expression, and lighting of the person in the primary image.`);
+        submissionPrompt = promptParts.join('\n');
+    }
+  }
+  
+  if (!isMaskedEdit) {
+    const isTextOverlayPrompt = /add text overlay|add the text/i.test(submissionPrompt);
+    if (isTextOverlayPrompt) {
+      submissionPrompt = addTextOverlayToEditPrompt(submissionPrompt);
+    }
+  }
+
+  return { submissionPrompt, characterImages, characterIds };
+};
@@ -0,0 +1,315 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FakeGoogleGenAI, fakeCalls, findFakeCall, setFakeResponder, resetFakeGenAI } from '../test/fakeGenAI';
+import {
+  TINY_PNG_BASE64,
+  TINY_PNG_DATA_URL,
+  imageResponse,
+  textOnlyResponse,
+  imagenResponse,
+  suggestionsResponse,
+  textSuggestion,
+  MALFORMED_SUGGESTION_PAYLOADS,
+  quotaError,
+  invalidKeyError,
+} from '../test/fixtures';
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: FakeGoogleGenAI,
+}));
+
+import { geminiProvider, validateApiKey, getRetryAfterMs } from './geminiService';
+import { addKey, getKeyStats } from './apiKeyManager';
+import type { EncodedMask } from './imageProvider';
+import type { MaskEncoding } from '../types';
+import type { Content, Schema } from '@google/genai';
+import { DEFAULT_STYLE_PROFILE } from './styleProfiles';
+
+const EDIT_MODEL = 'gemini-2.5-flash-image-preview';
+const image = { base64: TINY_PNG_DATA_URL, mimeType: 'image/png' };
+
+// Every test uses its own keys, so no key's stats or cooldown can carry over.
+let keyCounter = 0;
+const addKeys = (count: number): string[] => {
+  const keys = Array.from({ length: count }, () => `test-key-${++keyCounter}-abcdefgh`);
+  keys.forEach(key => addKey(key));
+  return keys;
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  resetFakeGenAI();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('withErrorHandling key rotation', () => {
+  it('fails with a helpful message when no keys are set', async () => {
+    await expect(geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL))
+      .rejects.toThrow('No API keys set');
+    expect(fakeCalls).toHaveLength(0);
+  });
+
+  it('rotates keys round-robin across successful calls', async () => {
+    const [first, second] = addKeys(2);
+    setFakeResponder(() => imageResponse());
+
+    await geminiProvider.editImage(image, 'one', [], null, EDIT_MODEL);
+    await geminiProvider.editImage(image, 'two', [], null, EDIT_MODEL);
+    await geminiProvider.editImage(image, 'three', [], null, EDIT_MODEL);
+
+    expect(fakeCalls.map(c => c.apiKey)).toEqual([first, second, first]);
+  });
+
+  it('moves on to the next key when one hits its quota', async () => {
+    const [exhausted, healthy] = addKeys(2);
+    setFakeResponder(({ apiKey }) => {
+      if (apiKey === exhausted) throw quotaError();
+      return imageResponse();
+    });
+
+    const result = await geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL);
+
+    expect(result.newBase64).toBe(TINY_PNG_DATA_URL);
+    expect(fakeCalls.map(c => c.apiKey)).toEqual([exhausted, healthy]);
+  });
+
+  it('skips a key that is cooling down on later calls', async () => {
+    const [exhausted, healthy] = addKeys(2);
+    setFakeResponder(({ apiKey }) => {
+      if (apiKey === exhausted) throw quotaError();
+      return imageResponse();
+    });
+
+    await geminiProvider.editImage(image, 'first', [], null, EDIT_MODEL);
+    fakeCalls.length = 0;
+    await geminiProvider.editImage(image, 'second', [], null, EDIT_MODEL);
+
+    expect(fakeCalls.map(c => c.apiKey)).toEqual([healthy]);
+  });
+
+  it('reports quota exhaustion once every key has failed', async () => {
+    addKeys(3);
+    setFakeResponder(() => { throw quotaError(); });
+
+    await expect(geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL))
+      .rejects.toThrow(/All available API keys have exceeded their quota.*wait 60s/);
+    expect(fakeCalls).toHaveLength(3);
+  });
+
+  it('says how long to wait when every key is still cooling down', async () => {
+    addKeys(1);
+    setFakeResponder(() => { throw new Error(`${quotaError().message} Please retry in 45s.`); });
+    await expect(geminiProvider.editImage(image, 'first', [], null, EDIT_MODEL)).rejects.toThrow();
+    fakeCalls.length = 0;
+
+    await expect(geminiProvider.editImage(image, 'second', [], null, EDIT_MODEL))
+      .rejects.toThrow(/wait 4[45]s for the first one to cool down/);
+    expect(fakeCalls).toHaveLength(0);
+  });
+
+  it('moves on from an invalid key and leaves it out of later requests', async () => {
+    const [invalid, healthy] = addKeys(2);
+    setFakeResponder(({ apiKey }) => {
+      if (apiKey === invalid) throw invalidKeyError();
+      return imageResponse();
+    });
+
+    for (const prompt of ['one', 'two', 'three', 'four']) {
+      await expect(geminiProvider.editImage(image, prompt, [], null, EDIT_MODEL)).resolves.toBeDefined();
+    }
+    expect(fakeCalls.map(c => c.apiKey)).toEqual([invalid, healthy, healthy, healthy, healthy]);
+    expect(getKeyStats()[0]).toMatchObject({ key: invalid, health: 'invalid', failures: 1 });
+  });
+
+  it('says a key is invalid when every key was rejected', async () => {
+    addKeys(2);
+    setFakeResponder(() => { throw invalidKeyError(); });
+
+    await expect(geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL))
+      .rejects.toThrow('An API key is invalid');
+    expect(fakeCalls).toHaveLength(2);
+
+    await expect(geminiProvider.editImage(image, 'again', [], null, EDIT_MODEL))
+      .rejects.toThrow('Every API key was rejected as invalid');
+    expect(fakeCalls).toHaveLength(2);
+  });
+
+  it('records requests, failures and the last error per key', async () => {
+    const [exhausted, healthy] = addKeys(2);
+    setFakeResponder(({ apiKey }) => {
+      if (apiKey === exhausted) throw quotaError();
+      return imageResponse();
+    });
+
+    await geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL);
+
+    const [exhaustedStats, healthyStats] = getKeyStats();
+    expect(exhaustedStats).toMatchObject({ key: exhausted, requests: 1, failures: 1, lastOutcome: 'rate-limited', health: 'cooling-down', rateLimitStreak: 1 });
+    expect(exhaustedStats.lastError).toContain('RESOURCE_EXHAUSTED');
+    expect(healthyStats).toMatchObject({ key: healthy, requests: 1, failures: 0, lastOutcome: 'ok', health: 'healthy' });
+  });
+
+  it('cools a key down for as long as the API asks', async () => {
+    const [key] = addKeys(1);
+    setFakeResponder(() => { throw new Error(`${quotaError().message} Please retry in 12.4s.`); });
+
+    const before = Date.now();
+    await expect(geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL)).rejects.toThrow();
+
+    const [stats] = getKeyStats();
+    expect(stats.key).toBe(key);
+    expect(stats.cooldownUntil - before).toBeGreaterThanOrEqual(12400);
+    expect(stats.cooldownUntil - before).toBeLessThan(13000);
+  });
+
+  it('surfaces unexpected errors without retrying', async () => {
+    addKeys(2);
+    setFakeResponder(() => { throw new Error('Internal error'); });
+
+    await expect(geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL))
+      .rejects.toThrow('An unexpected error occurred: Internal error');
+    expect(fakeCalls).toHaveLength(1);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads the RetryInfo delay, the retry text or a Retry-After header', () => {
+    expect(getRetryAfterMs('{"error":{"details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"37s"}]}}')).toBe(37000);
+    expect(getRetryAfterMs('RESOURCE_EXHAUSTED. Please retry in 1.5s.')).toBe(1500);
+    expect(getRetryAfterMs('429 Too Many Requests, Retry-After: 20')).toBe(20000);
+    expect(getRetryAfterMs(quotaError().message)).toBeNull();
+  });
+});
+
+describe('validateApiKey', () => {
+  it('marks a key that is accepted as healthy', async () => {
+    const [key] = addKeys(1);
+    setFakeResponder(() => ({ name: 'models/gemini-2.5-flash' }));
+
+    expect((await validateApiKey(key)).outcome).toBe('ok');
+    expect(fakeCalls[0]).toMatchObject({ apiKey: key, method: 'get' });
+    expect(getKeyStats()[0].health).toBe('healthy');
+  });
+
+  it('takes a key that passes the check off its cooldown', async () => {
+    const [key] = addKeys(1);
+    setFakeResponder(() => { throw quotaError(); });
+    await validateApiKey(key);
+    expect(getKeyStats()[0].health).toBe('cooling-down');
+
+    setFakeResponder(() => ({ name: 'models/gemini-2.5-flash' }));
+    await validateApiKey(key);
+
+    expect(getKeyStats()[0]).toMatchObject({ health: 'healthy', cooldownUntil: 0, rateLimitStreak: 0 });
+  });
+
+  it('marks a rejected key as invalid with its error', async () => {
+    const [key] = addKeys(1);
+    setFakeResponder(() => { throw invalidKeyError(); });
+
+    const result = await validateApiKey(key);
+
+    expect(result.outcome).toBe('invalid');
+    expect(result.message).toContain('API key not valid');
+    expect(getKeyStats()[0]).toMatchObject({ health: 'invalid', failures: 1 });
+  });
+});
+
+describe('geminiProvider images', () => {
+  const encodedMask = (encoding: MaskEncoding, guides: string[]): EncodedMask => ({
+    encoding,
+    mask: { base64: 'data:image/png;base64,MASK', mimeType: 'image/png' },
+    guides: guides.map(guide => ({ base64: `data:image/png;base64,${guide}`, mimeType: 'image/png' })),
+    width: 64,
+    height: 48,
+    regions: [{ id: 1, bbox: { x: 4, y: 6, width: 20, height: 10 }, ...(encoding === 'index-map' ? { color: 'red #FF0000' } : { maskIndex: 1 }) }],
+  });
+
+  it('sends the mask and its guide images after the primary image, with the prompt as given', async () => {
+    addKeys(1);
+    setFakeResponder(() => imageResponse());
+
+    const result = await geminiProvider.editImage(image, 'The assembled prompt', [], encodedMask('index-map', ['MAP']), EDIT_MODEL);
+
+    const parts = (findFakeCall('generateContent').params.contents as Content).parts ?? [];
+    expect(parts[0].inlineData?.data).toBe(TINY_PNG_BASE64);
+    expect(parts[1].inlineData?.data).toBe('MASK');
+    expect(parts[2].inlineData?.data).toBe('MAP');
+    expect(parts[3].text).toBe('The assembled prompt');
+    expect(result.finalPrompt).toBe('The assembled prompt');
+  });
+
+  it('fails when the model answers without an image', async () => {
+    addKeys(1);
+    setFakeResponder(() => textOnlyResponse('I cannot edit this image.'));
+
+    await expect(geminiProvider.editImage(image, 'edit', [], null, EDIT_MODEL))
+      .rejects.toThrow('No image found in the AI response.');
+  });
+
+  it('generates through the Imagen endpoint for Imagen models', async () => {
+    addKeys(1);
+    setFakeResponder(() => imagenResponse());
+
+    const result = await geminiProvider.generateImage('a cat', 'imagen-4.0-generate-001', '9:16');
+
+    expect(fakeCalls[0].method).toBe('generateImages');
+    expect(findFakeCall('generateImages').params.config?.aspectRatio).toBe('9:16');
+    expect(result).toMatchObject({ newBase64: TINY_PNG_DATA_URL, model: 'imagen-4.0-generate-001' });
+  });
+});
+
+describe('parseSuggestions', () => {
+  it('returns the suggestions from a well-formed response', async () => {
+    addKeys(1);
+    setFakeResponder(() => suggestionsResponse([textSuggestion(), textSuggestion({ headline: 'NO WAY', anchor: 'bottom' })]));
+
+    await expect(geminiProvider.suggestText('a scene', 'gemini-2.5-flash', DEFAULT_STYLE_PROFILE))
+      .resolves.toEqual([textSuggestion(), textSuggestion({ headline: 'NO WAY', anchor: 'bottom' })]);
+  });
+
+  it('drops suggestions without a headline and fills in invalid style fields', async () => {
+    addKeys(1);
+    setFakeResponder(() => suggestionsResponse([
+      textSuggestion({ headline: '  ' }),
+      textSuggestion({ anchor: 'somewhere', fontFamily: 'Comic Sans', fill: 'yellow', strokeWidth: 500 }),
+    ]));
+
+    const suggestions = await geminiProvider.suggestText('a scene', 'gemini-2.5-flash', DEFAULT_STYLE_PROFILE);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ headline: 'WOW', anchor: 'center', fontFamily: 'Impact', fill: '#FFFF00', strokeWidth: 30 });
+  });
+
+  it('still accepts suggestions in the older prose format', async () => {
+    addKeys(1);
+    setFakeResponder(() => suggestionsResponse(["Add the text 'NO WAY' in the bottom right corner in white Anton"]));
+
+    await expect(geminiProvider.suggestText('a scene', 'gemini-2.5-flash', DEFAULT_STYLE_PROFILE)).resolves.toEqual([
+      expect.objectContaining({ headline: 'NO WAY', anchor: 'bottom-right', fontFamily: 'Anton', fill: '#FFFFFF', rationale: '' }),
+    ]);
+  });
+
+  it("asks for headlines in the channel's voice and fonts", async () => {
+    addKeys(1);
+    setFakeResponder(() => suggestionsResponse([textSuggestion()]));
+    const style = { ...DEFAULT_STYLE_PROFILE, headlineTone: 'Calm and friendly.', textCase: 'sentence' as const, fonts: ['Anton' as const], forbiddenWords: ['insane'] };
+
+    await geminiProvider.suggestText('a scene', 'gemini-2.5-flash', style);
+
+    const { contents, config } = findFakeCall('generateContent').params;
+    expect(contents).toContain('headline: the exact text to add. Calm and friendly. Write it in sentence case. Never use these words: insane.');
+    expect(contents).toContain('fontFamily: one of Anton.');
+    const schema = config?.responseSchema as Schema;
+    expect(schema.properties?.suggestions.items?.properties?.fontFamily.enum).toEqual(['Anton']);
+  });
+
+  it.each(MALFORMED_SUGGESTION_PAYLOADS)('returns no suggestions for malformed payload %#', async (payload) => {
+    addKeys(1);
+    setFakeResponder(() => ({ text: payload }));
+
+    await expect(geminiProvider.suggestText(image, 'gemini-2.5-flash', DEFAULT_STYLE_PROFILE)).resolves.toEqual([]);
+  });
+});
@@ -1,6 +1,33 @@
 import { GoogleGenAI, Modality, Type } from "@google/genai";
 import type { GenerateContentResponse } from "@google/genai";
-import { getNextKey, markKeyAsExhausted, getKeys } from './apiKeyManager';
+import { getNextKey, markKeyAsExhausted, clearKeyCooldown, getKeys, recordKeySuccess, recordKeyFailure, createKeysExhaustedError, KeyOutcome } from './apiKeyManager';
+import type { ImageProvider, ImagePart, ImageResult, EncodedMask } from './imageProvider';
+import type { AspectRatio, StyleProfile, TextSuggestion } from '../types';
+import { OVERLAY_FONTS } from './textOverlay';
+import { TEXT_CASES, describeImageStyle } from './styleProfiles';
+import { TEXT_ANCHORS, normalizeTextSuggestion } from './textSuggestions';
+
+const isQuotaError = (message: string) =>
+  message.toLowerCase().includes('quota') || message.includes('429') || message.includes('RESOURCE_EXHAUSTED');
+
+const isInvalidKeyError = (message: string) =>
+  message.toLowerCase().includes('api key not valid') || message.toLowerCase().includes('api_key');
+
+const classifyKeyError = (message: string): Exclude<KeyOutcome, 'ok'> =>
+  isQuotaError(message) ? 'rate-limited' : isInvalidKeyError(message) ? 'invalid' : 'error';
+
+/**
+ * Reads how long a rate-limited request was asked to wait, from the RetryInfo details or the
+ * "Please retry in 17.3s" text of a Gemini error, or a Retry-After header in the message.
+ * @param {string} message The error message.
+ * @returns {number | null} The wait in milliseconds, or null if the error doesn't say.
+ */
+export const getRetryAfterMs = (message: string): number | null => {
+  const match = message.match(/retryDelay\\?"?\s*:\s*\\?"(\d+(?:\.\d+)?)s/i)
+    ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i)
+    ?? message.match(/retry-after:?\s*(\d+)/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
 
 /**
  * A higher-order function that wraps API calls with robust error handling and automatic retry logic for API keys.
@@ -20,32 +47,38 @@ async function withErrorHandling<T>(apiCall: (ai: GoogleGenAI) => Promise<T>): P
   for (let i = 0; i < totalKeys; i++) {
     let key: string | null = null;
     try {
-      key = getNextKey(); // This can throw if all keys are on cooldown.
+      // This throws if all keys are on cooldown, with a message that already says how long to wait.
+      key = getNextKey();
       const ai = new GoogleGenAI({ apiKey: key });
-      return await apiCall(ai); // Success! Exit the function.
+      const result = await apiCall(ai);
+      recordKeySuccess(key);
+      return result; // Success! Exit the function.
     } catch (error) {
+      if (!key) throw error;
       lastError = error as Error;
-      if (key && error instanceof Error) {
-        // Make the quota check more robust and case-insensitive.
-        const isQuotaError =
-          error.message.toLowerCase().includes('quota') ||
-          error.message.includes('429') ||
-          error.message.includes('RESOURCE_EXHAUSTED');
-        
-        if (isQuotaError) {
-          markKeyAsExhausted(key);
+      if (error instanceof Error) {
+        const outcome = classifyKeyError(error.message);
+        if (outcome === 'rate-limited') {
+          markKeyAsExhausted(key, error.message, getRetryAfterMs(error.message));
           // Don't throw yet, just continue the loop to try the next key.
           continue;
         }
+        recordKeyFailure(key, outcome, error.message);
+        // A revoked or mistyped key says nothing about the others, so try the next one too.
+        if (outcome === 'invalid') continue;
       }
-      // If the error was from getNextKey, or a non-quota API error,
-      // we don't need to try other keys. Break the loop and handle this specific error.
+      // Any other API error would fail the same way with another key.
+      // Break the loop and handle this specific error.
       break;
     }
   }
 
   // If we've exited the loop, it means all attempts failed.
-  // We use the last recorded error to decide which final message to show.
+  // When every key was rate-limited, say when the first one cools down; otherwise explain the last error.
+  if (lastError && classifyKeyError(lastError.message) === 'rate-limited') {
+    console.error("Error calling Gemini API:", lastError);
+    throw createKeysExhaustedError();
+  }
   return handleError(lastError || new Error("An unknown error occurred after trying all API keys."));
 }
 
@@ -62,11 +95,11 @@ const handleError = (error: unknown): never => {
 
     if (error instanceof Error) {
         const message = error.message.toLowerCase(); // Use lowercase for robust checking
-        if (message.includes('api key not valid') || message.includes('api_key')) {
+        if (isInvalidKeyError(message)) {
             finalMessage = "An API key is invalid. Please check your keys in the API Key Manager.";
         } else if (message.includes('quota') || message.includes('resource_exhausted')) {
             // This message is now the fallback if all keys fail.
-            finalMessage = "All available API keys have exceeded their quota. Please add more keys or wait a minute for them to cool down.";
+            finalMessage = "All available API keys have exceeded their quota. Please add more keys, or see in the API Key Manager when they cool down.";
         } else {
              finalMessage = `An unexpected error occurred: ${error.message}`;
         }
@@ -80,13 +113,9 @@ const base64DataUrlToPureBase64 = (dataUrl: string): string => {
   return dataUrl.split(',')[1];
 };
 
-interface ImagePart {
-  base64: string;
-  mimeType: string;
-}
-
-export const generateCharacterDefinition = async (
-  characterImage: ImagePart
+const describeCharacter = async (
+  characterImage: ImagePart,
+  model: string
 ): Promise<string> => {
     return withErrorHandling(async (ai: GoogleGenAI) => {
         const prompt = "Look at the attached image and write one single short paragraph (max 35 words). Give only physical, repeatable traits for a character reference: approx age, face shape, skin tone, eye color/shape, nose shape, lips, eyebrow shape, hair color/length/style/hairline, facial hair (if any), visible wrinkles/scars, overall body build. Do NOT mention clothing, pose, expression, background, or accessories. If a detail is unclear, write ‘not visible’. Use very simple English and separate traits with commas.";
@@ -101,7 +130,7 @@ export const generateCharacterDefinition = async (
         const textPart = { text: prompt };
 
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+            model,
             contents: { parts: [imagePart, textPart] },
         });
         
@@ -109,18 +138,28 @@ export const generateCharacterDefinition = async (
     });
 };
 
+const findImageInResponse = (response: GenerateContentResponse): { newBase64: string; newMimeType: string } => {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData && part.inlineData.data) {
+            return {
+                newBase64: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+                newMimeType: part.inlineData.mimeType,
+            };
+        }
+    }
+
+    throw new Error("No image found in the AI response.");
+};
 
-export const editImageWithPrompt = async (
+const editImage = async (
   imageToEdit: ImagePart,
   prompt: string,
-  characterImages: ImagePart[] = [],
-  isMaskingEdit: boolean = false,
-  maskImage: ImagePart | null = null, // New parameter for the mask
-): Promise<{ newBase64: string; newMimeType: string }> => {
+  characterImages: ImagePart[],
+  mask: EncodedMask | null,
+  model: string
+): Promise<ImageResult> => {
     return withErrorHandling(async (ai: GoogleGenAI) => {
-        const imageEditModel = 'gemini-2.5-flash-image-preview';
         const parts: any[] = [];
-        let finalPrompt = prompt;
 
         // Add the primary (original) image
         parts.push({
@@ -130,28 +169,14 @@ export const editImageWithPrompt = async (
             },
         });
 
-        // If it's a masking edit, add the separate mask image and use the new robust prompt
-        if (isMaskingEdit && maskImage) {
-            parts.push({
+        // For a masked edit, add the mask and its guide images; the prompt already describes them
+        if (mask) {
+            [mask.mask, ...mask.guides].forEach(image => parts.push({
                 inlineData: {
-                    data: base64DataUrlToPureBase64(maskImage.base64),
-                    mimeType: maskImage.mimeType,
+                    data: base64DataUrlToPureBase64(image.base64),
+                    mimeType: image.mimeType,
                 },
-            });
-            finalPrompt = `You are an expert AI photo editor. You have been provided with an original image, a black and white mask image, and a list of numbered tasks. Your job is to perform the edits described in the numbered list below. Apply each edit ONLY to its corresponding white, numbered area on the mask image when applied to the original image.
-
-**RULES:**
-1.  **Strictly Adhere to Mask:** Modify ONLY the areas of the original image that correspond to the white shapes on the mask image. All black areas must remain untouched.
-2.  **Match Regions to Tasks:** The numbers on the mask image correspond to the task numbers in the prompt.
-3.  **Seamless Integration:** Your edits must be photorealistic and blend perfectly with the original image's lighting, shadows, and style.
-4.  **Execute All Tasks:** You must complete every task in the list.
-5.  **Final Output:** The final image you generate must be the fully edited original image. It must NOT contain the mask, overlays, or any numbers.
-
-**--- EDITING TASKS ---**
-${prompt}
-**--- END OF TASKS ---**
-
-Now, generate the final, edited image by following all rules precisely.`;
+            }));
         }
         
         characterImages.forEach(charImage => {
@@ -163,42 +188,46 @@ Now, generate the final, edited image by following all rules precisely.`;
             });
         });
 
-        parts.push({ text: finalPrompt });
+        parts.push({ text: prompt });
 
         const response: GenerateContentResponse = await ai.models.generateContent({
-            model: imageEditModel,
+            model,
             contents: { parts },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
             },
         });
 
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData && part.inlineData.data) {
-                return {
-                    newBase64: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
-                    newMimeType: part.inlineData.mimeType,
-                };
-            }
-        }
-
-        throw new Error("No image found in the AI response.");
+        return { ...findImageInResponse(response), finalPrompt: prompt, model };
     });
 };
 
-export const generateImageWithPrompt = async (
-  prompt: string
-): Promise<{ newBase64: string; newMimeType: string }> => {
+const generateImage = async (
+  prompt: string,
+  model: string,
+  aspectRatio: AspectRatio
+): Promise<ImageResult> => {
     return withErrorHandling(async (ai: GoogleGenAI) => {
-        const finalPrompt = `Generate a photo, hyper-realistic cinematic still. The scene must feel like a dramatic, captured moment from a video, NOT a posed photograph. Characters must have exaggerated, theatrical expressions that immediately grab audience attention. The user's creative request is: "${prompt}", In 16:9 aspect ratio.`;
+        // Gemini image models generate through generateContent rather than the Imagen endpoint,
+        // and only get the aspect ratio from the prompt.
+        if (!model.startsWith('imagen')) {
+            const response: GenerateContentResponse = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ text: prompt }] },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                },
+            });
+            return { ...findImageInResponse(response), finalPrompt: prompt, model };
+        }
 
         const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: finalPrompt,
+            model,
+            prompt,
             config: {
                 numberOfImages: 1,
                 outputMimeType: 'image/png',
-                aspectRatio: '16:9',
+                aspectRatio,
             },
         });
 
@@ -208,6 +237,8 @@ export const generateImageWithPrompt = async (
             return {
                 newBase64: `data:${mimeType};base64,${generatedImage.image.imageBytes}`,
                 newMimeType: mimeType,
+                finalPrompt: prompt,
+                model,
             };
         }
 
@@ -215,26 +246,63 @@ export const generateImageWithPrompt = async (
     });
 };
 
-const suggestionJsonSchema = {
+const getSuggestionFonts = (style: StyleProfile) => style.fonts.length > 0 ? style.fonts : OVERLAY_FONTS;
+
+// The response schema, with fonts limited to the ones the channel uses.
+const buildSuggestionSchema = (style: StyleProfile) => ({
   type: Type.OBJECT,
   properties: {
     suggestions: {
       type: Type.ARRAY,
       items: {
-        type: Type.STRING,
-        description: "A complete, detailed prompt for an AI image editor to add text to the thumbnail."
+        type: Type.OBJECT,
+        properties: {
+          headline: { type: Type.STRING, description: "The exact text to overlay, short and in the channel's voice." },
+          anchor: { type: Type.STRING, enum: TEXT_ANCHORS, description: "Where the text sits on the image." },
+          fontFamily: { type: Type.STRING, enum: getSuggestionFonts(style), description: "The headline font." },
+          fill: { type: Type.STRING, description: "The text color as a hex code, e.g. #FFFF00." },
+          strokeColor: { type: Type.STRING, description: "The outline color as a hex code, e.g. #000000." },
+          strokeWidth: { type: Type.NUMBER, description: "The outline width in pixels at a 720px-tall image, 0 for none." },
+          shadow: { type: Type.BOOLEAN, description: "Whether the text has a drop shadow." },
+          rationale: { type: Type.STRING, description: "One sentence on why this text and style will get clicks." },
+        },
+        required: ['headline', 'anchor', 'fontFamily', 'fill', 'strokeColor', 'strokeWidth', 'shadow', 'rationale'],
       }
     }
   },
+  required: ['suggestions'],
+});
+
+const buildSuggestionInstructions = (style: StyleProfile) => {
+  const headlineRules = [
+    style.headlineTone.trim(),
+    TEXT_CASES.find(c => c.value === style.textCase)?.rule ?? '',
+    style.forbiddenWords.length > 0 ? `Never use these words: ${style.forbiddenWords.join(', ')}.` : '',
+  ].filter(Boolean).join(' ');
+  const colors = style.palette.length > 0
+    ? `a high-contrast text color from the channel's palette (${style.palette.join(', ')}) as a hex code`
+    : 'a vibrant, high-contrast text color as a hex code (e.g., #FFFF00 for bright yellow, #FF0000 for vibrant red)';
+  return `For each suggestion, return an object with:
+1.  headline: the exact text to add.${headlineRules ? ` ${headlineRules}` : ''}
+2.  anchor: where the text goes, one of ${TEXT_ANCHORS.join(', ')}. Pick a spot that doesn't cover faces or the main subject.
+3.  fontFamily: one of ${getSuggestionFonts(style).join(', ')}.
+4.  fill: ${colors}.
+5.  strokeColor and strokeWidth: a contrasting outline, with its width in pixels for a 720px-tall image (e.g., #000000 and 10), or 0 for none.
+6.  shadow: true to add a subtle drop shadow that makes the text pop from the background.
+7.  rationale: one sentence on why this text and styling will grab attention.
+The text must be prominent and readable, and the result should look professional and fit the channel's look: ${describeImageStyle(style)}
+Return the response as a JSON object with a single key 'suggestions' which is an array of these objects.`;
 };
 
-const parseSuggestions = (responseText: string): string[] => {
+const parseSuggestions = (responseText: string): TextSuggestion[] => {
     try {
         const jsonString = responseText.trim();
         if (jsonString.startsWith('{') && jsonString.endsWith('}')) {
             const parsed = JSON.parse(jsonString);
             if (parsed.suggestions && Array.isArray(parsed.suggestions)) {
-                return parsed.suggestions;
+                return parsed.suggestions
+                    .map(normalizeTextSuggestion)
+                    .filter((suggestion: TextSuggestion | null): suggestion is TextSuggestion => suggestion !== null);
             }
         }
         console.warn("Failed to parse JSON suggestions, returning empty array.", jsonString);
@@ -246,17 +314,15 @@ const parseSuggestions = (responseText: string): string[] => {
 }
 
 
-export const generateTextOverlaySuggestions = async (
-  image: ImagePart
-): Promise<string[]> => {
-  try {
-    return await withErrorHandling(async (ai: GoogleGenAI) => {
+const suggestTextForImage = async (
+  image: ImagePart,
+  model: string,
+  style: StyleProfile
+): Promise<TextSuggestion[]> => {
+    return withErrorHandling(async (ai: GoogleGenAI) => {
         const systemInstruction = "You are an expert YouTube thumbnail designer and content strategist. Your goal is to create highly engaging, clickbaity text overlays that maximize click-through rate, inspired by top YouTubers.";
-        const userPrompt = `Analyze the provided thumbnail image. Generate 5 distinct suggestions for text overlays. Each suggestion must be a complete, detailed prompt for an AI image editor. Each prompt must specify:
-1.  The exact text to add, in quotes. The text should be short, dramatic, and in all caps (e.g., 'SHE LOST EVERYTHING!', '"YOU'RE DONE, KAREn"').
-2.  A specific, descriptive position on the image (e.g., 'top right corner', 'above the person on the right', 'centered at the bottom').
-3.  Detailed styling instructions to make the text POP and be extremely prominent and readable. You MUST specify: a thick, bold, condensed sans-serif font (e.g., 'Impact', 'Bebas Neue', 'Anton'); a vibrant, high-contrast text color (e.g., 'bright yellow #FFFF00', 'vibrant red #FF0000'); a very thick, contrasting outline, usually black or white (e.g., 'with a heavy 10px black stroke'); and a subtle drop shadow to make it pop from the background. The final result should look professional and attention-grabbing.
-Return the response as a JSON object with a single key 'suggestions' which is an array of strings, where each string is a complete prompt.`;
+        const userPrompt = `Analyze the provided thumbnail image. Generate 5 distinct suggestions for text overlays.
+${buildSuggestionInstructions(style)}`;
 
         const imagePart = {
         inlineData: {
@@ -268,52 +334,82 @@ Return the response as a JSON object with a single key 'suggestions' which is an
         const textPart = { text: userPrompt };
 
         const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model,
         contents: { parts: [imagePart, textPart] },
         config: {
             systemInstruction,
             responseMimeType: "application/json",
-            responseSchema: suggestionJsonSchema
+            responseSchema: buildSuggestionSchema(style)
         }
         });
 
         return parseSuggestions(response.text);
     });
-  } catch (error) {
-    console.error("Error generating text overlay suggestions:", error);
-    return [];
-  }
 };
 
-export const generateInitialTextSuggestions = async (
-  sceneDescription: string
-): Promise<string[]> => {
-  try {
-    return await withErrorHandling(async (ai: GoogleGenAI) => {
+const suggestTextForScene = async (
+  sceneDescription: string,
+  model: string,
+  style: StyleProfile
+): Promise<TextSuggestion[]> => {
+    return withErrorHandling(async (ai: GoogleGenAI) => {
         const systemInstruction = "You are an expert YouTube thumbnail designer. Based on the user's scene description, your goal is to generate 5 highly engaging, clickbaity text overlay suggestions to maximize click-through rate.";
-        const userPrompt = `Based on the following scene description, generate 5 distinct suggestions for a text overlay to be included in the final image. Each suggestion must be a complete, detailed instruction for an AI.
+        const userPrompt = `Based on the following scene description, generate 5 distinct suggestions for a text overlay to be included in the final image.
 Scene: "${sceneDescription}"
 
-Each prompt must specify:
-1.  The exact text to add, in quotes (e.g., "'VIOLATION CAUGHT!'"). Text should be short, dramatic, and in all caps.
-2.  A specific, descriptive position (e.g., "in the top right corner").
-3.  Detailed styling instructions to make the text POP and be extremely prominent and readable. You MUST specify: a thick, bold, condensed sans-serif font (e.g., 'Impact', 'Bebas Neue'); a vibrant, high-contrast text color (e.g., 'bright yellow #FFFF00'); a very thick, contrasting outline, usually black or white (e.g., 'with a heavy 8px black stroke'); and a subtle drop shadow to make it pop from the background. The final result should look professional and attention-grabbing.
-Return the response as a JSON object with a single key 'suggestions' which is an array of strings, where each string is a complete prompt.`;
+${buildSuggestionInstructions(style)}`;
 
         const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model,
         contents: userPrompt,
         config: {
             systemInstruction,
             responseMimeType: "application/json",
-            responseSchema: suggestionJsonSchema
+            responseSchema: buildSuggestionSchema(style)
         }
         });
 
         return parseSuggestions(response.text);
     });
+};
+
+/**
+ * Checks that a key is accepted by looking up a model, which doesn't use any generation quota.
+ * The result is recorded in the key's stats like any other request.
+ * @param {string} key The API key to check.
+ * @returns {Promise<{ outcome: KeyOutcome; message: string }>} Whether the key works, and the error if not.
+ */
+export const validateApiKey = async (key: string): Promise<{ outcome: KeyOutcome; message: string }> => {
+  try {
+    await new GoogleGenAI({ apiKey: key }).models.get({ model: geminiProvider.models.suggest[0] });
+    recordKeySuccess(key);
+    clearKeyCooldown(key); // A key that passes the check can be used again straight away
+    return { outcome: 'ok', message: 'The key works.' };
   } catch (error) {
-     console.error("Error generating initial text suggestions:", error);
-     return [];
+    const message = error instanceof Error ? error.message : String(error);
+    const outcome = classifyKeyError(message);
+    if (outcome === 'rate-limited') {
+      markKeyAsExhausted(key, message, getRetryAfterMs(message));
+    } else {
+      recordKeyFailure(key, outcome, message);
+    }
+    return { outcome, message };
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  requiresApiKey: true,
+  models: {
+    generate: ['imagen-4.0-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-4.0-fast-generate-001', 'gemini-2.5-flash-image-preview'],
+    edit: ['gemini-2.5-flash-image-preview'],
+    describe: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+    suggest: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+  },
+  generateImage,
+  editImage,
+  describeCharacter,
+  suggestText: (source, model, style) =>
+    typeof source === 'string' ? suggestTextForScene(source, model, style) : suggestTextForImage(source, model, style),
+};
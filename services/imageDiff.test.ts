@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { computeDifference } from './imageDiff';
+
+const rgba = (...pixels: number[][]) => new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('computeDifference', () => {
+  it('paints each pixel with how much each channel changed', () => {
+    const { pixels } = computeDifference(rgba([10, 200, 50]), rgba([30, 100, 50]), 1);
+
+    expect([...pixels]).toEqual([20, 100, 0, 255]);
+  });
+
+  it('brightens faint differences by the gain', () => {
+    const { pixels } = computeDifference(rgba([100, 100, 100]), rgba([110, 100, 300]), 4);
+
+    expect([...pixels]).toEqual([40, 0, 255, 255]);
+  });
+
+  it("counts the share of pixels that changed, ignoring noise below the threshold", () => {
+    const before = rgba([0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]);
+    const after = rgba([255, 0, 0], [5, 5, 5], [0, 0, 0], [0, 0, 90]);
+
+    expect(computeDifference(before, after, 1).changedRatio).toBe(0.5);
+  });
+
+  it('reports no change for identical images', () => {
+    const image = rgba([12, 34, 56], [78, 90, 12]);
+
+    expect(computeDifference(image, image, 8).changedRatio).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+// Shows what an edit changed between two versions, as a per-pixel difference image plus how much of
+// the frame changed. Small differences, like JPEG noise from re-encoding, don't count as changes.
+
+const CHANGE_THRESHOLD = 24; // Out of 255, on the channel that changed most
+
+/**
+ * Compares two RGBA images of the same size pixel by pixel.
+ * @param {Uint8ClampedArray} before The first image's RGBA data.
+ * @param {Uint8ClampedArray} after The second image's RGBA data, same size as the first.
+ * @param {number} gain How much to brighten the differences so faint ones show up; 1 for as they are.
+ * @returns The difference image as opaque RGBA data, and the share of pixels that changed, 0 to 1.
+ */
+export const computeDifference = (before: Uint8ClampedArray, after: Uint8ClampedArray, gain: number) => {
+  const pixels = new Uint8ClampedArray(before.length);
+  let changed = 0;
+  for (let i = 0; i < before.length; i += 4) {
+    let largest = 0;
+    for (let c = 0; c < 3; c++) {
+      const difference = Math.abs(before[i + c] - after[i + c]);
+      pixels[i + c] = difference * gain;
+      largest = Math.max(largest, difference);
+    }
+    pixels[i + 3] = 255;
+    if (largest > CHANGE_THRESHOLD) changed++;
+  }
+  return { pixels, changedRatio: before.length > 0 ? changed / (before.length / 4) : 0 };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load an image to compare."));
+  img.src = src;
+});
+
+/**
+ * Renders the difference between two images. The second is scaled to the first's size if they differ.
+ * @param {string} beforeSrc The first image.
+ * @param {string} afterSrc The second image.
+ * @param {number} gain How much to brighten the differences.
+ * @returns The difference as a PNG data URL, and the share of pixels that changed.
+ */
+export const renderDifference = async (beforeSrc: string, afterSrc: string, gain: number): Promise<{ base64: string; changedRatio: number }> => {
+  const [before, after] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = before.naturalWidth;
+  canvas.height = before.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a canvas to compare the images.");
+
+  const read = (img: HTMLImageElement) => {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  };
+  const { pixels, changedRatio } = computeDifference(read(before), read(after), gain);
+  ctx.putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+  return { base64: canvas.toDataURL('image/png'), changedRatio };
+};
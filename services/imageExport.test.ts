@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { computeDrawRect, encodeWithinBudget, formatBytes, getFileExtension, getExportResolutions } from './imageExport';
+import { getTargetFormat } from './targetFormats';
+
+// A stand-in encoder whose output grows linearly with quality, like a real JPEG encoder roughly does.
+const makeEncoder = (bytesAtFullQuality: number) =>
+  vi.fn(async (quality: number) => new Blob([new Uint8Array(Math.round(bytesAtFullQuality * quality))]));
+
+describe('computeDrawRect', () => {
+  it('fills a 16:9 frame from a square image by cropping top and bottom', () => {
+    expect(computeDrawRect(1000, 1000, 1280, 720, 'crop')).toEqual({ x: 0, y: -280, width: 1280, height: 1280 });
+  });
+
+  it('letterboxes a square image when fitting', () => {
+    expect(computeDrawRect(1000, 1000, 1280, 720, 'fit')).toEqual({ x: 280, y: 0, width: 720, height: 720 });
+  });
+
+  it('only scales an image that is already 16:9', () => {
+    const rect = { x: 0, y: 0, width: 1280, height: 720 };
+    expect(computeDrawRect(1920, 1080, 1280, 720, 'crop')).toEqual(rect);
+    expect(computeDrawRect(1920, 1080, 1280, 720, 'fit')).toEqual(rect);
+  });
+
+  it('only scales a 9:16 image into a Shorts cover size', () => {
+    const [cover] = getExportResolutions(getTargetFormat('shorts-cover'));
+    const rect = { x: 0, y: 0, width: 1080, height: 1920 };
+    expect(computeDrawRect(720, 1280, cover.width, cover.height, 'crop')).toEqual(rect);
+    expect(computeDrawRect(720, 1280, cover.width, cover.height, 'fit')).toEqual(rect);
+  });
+});
+
+describe('getExportResolutions', () => {
+  it('keeps the YouTube sizes for thumbnails', () => {
+    expect(getExportResolutions(getTargetFormat('youtube-thumbnail')).map(r => `${r.width}x${r.height}`))
+      .toEqual(['1280x720', '1920x1080', '2560x1440', '3840x2160', '640x360']);
+  });
+
+  it('offers sizes in the format\'s own ratio, up to 4K on the long side', () => {
+    const resolutions = getExportResolutions(getTargetFormat('shorts-cover'));
+    expect(resolutions[0]).toEqual({ label: '1080 × 1920 (Shorts cover)', width: 1080, height: 1920 });
+    expect(resolutions.map(r => `${r.width}x${r.height}`)).toEqual(['1080x1920', '1620x2880', '2160x3840', '540x960']);
+    resolutions.forEach(r => expect(r.width / r.height).toBeCloseTo(9 / 16, 2));
+  });
+});
+
+describe('encodeWithinBudget', () => {
+  it('keeps the requested quality when it already fits', async () => {
+    const encode = makeEncoder(1000);
+    const result = await encodeWithinBudget(encode, 0.9, 1000);
+
+    expect(result).toMatchObject({ quality: 0.9, fitsBudget: true });
+    expect(encode).toHaveBeenCalledTimes(1);
+  });
+
+  it('lowers the quality until the encoding fits the budget', async () => {
+    const result = await encodeWithinBudget(makeEncoder(1000), 0.9, 600);
+
+    expect(result.fitsBudget).toBe(true);
+    expect(result.blob.size).toBeLessThanOrEqual(600);
+    expect(result.quality).toBeGreaterThan(0.5);
+  });
+
+  it('returns the smallest encoding, flagged, when nothing fits', async () => {
+    const result = await encodeWithinBudget(makeEncoder(1000), 0.9, 100);
+
+    expect(result).toMatchObject({ quality: 0.3, fitsBudget: false });
+    expect(result.blob.size).toBe(300);
+  });
+});
+
+describe('formatting helpers', () => {
+  it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.0 KB');
+    expect(formatBytes(2 * 1024 * 1024)).toBe('2.00 MB');
+  });
+
+  it('maps MIME types to file extensions', () => {
+    expect(getFileExtension('image/jpeg')).toBe('jpg');
+    expect(getFileExtension('image/webp')).toBe('webp');
+    expect(getFileExtension('image/gif')).toBe('gif');
+  });
+});
@@ -0,0 +1,192 @@
+// Client-side export: resizes a version to its target format and encodes it to fit a byte budget.
+import { TargetFormat } from './targetFormats';
+
+export type ExportFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+// How the image is made to the export's ratio: 'crop' fills the frame and trims the overflow,
+// 'fit' keeps the whole image and pads the rest with black bars.
+export type FitMode = 'crop' | 'fit';
+
+export interface ExportResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Sizes offered around a format's published size; larger ones past 4K on the long side are left out.
+const EXPORT_SCALES = [1, 1.5, 2, 3, 0.5];
+const MAX_EXPORT_SIDE = 3840;
+
+/**
+ * Lists the export sizes for a format, starting with the size it's published at.
+ * @param {TargetFormat} format The format the version was made for.
+ * @returns {ExportResolution[]} The sizes, all in the format's aspect ratio.
+ */
+export const getExportResolutions = (format: TargetFormat): ExportResolution[] =>
+  EXPORT_SCALES
+    .map(scale => ({ width: Math.round(format.width * scale), height: Math.round(format.height * scale), scale }))
+    .filter(({ width, height, scale }) => scale === 1 || Math.max(width, height) <= MAX_EXPORT_SIDE)
+    .map(({ width, height, scale }) => ({
+      label: scale === 1 ? `${width} × ${height} (${format.label})` : `${width} × ${height}`,
+      width,
+      height,
+    }));
+
+export const EXPORT_FORMATS: { mimeType: ExportFormat; label: string; extension: string; lossy: boolean }[] = [
+  { mimeType: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true },
+  { mimeType: 'image/webp', label: 'WebP', extension: 'webp', lossy: true },
+  { mimeType: 'image/png', label: 'PNG', extension: 'png', lossy: false },
+];
+
+export const YOUTUBE_MAX_BYTES = 2 * 1024 * 1024;
+const MIN_QUALITY = 0.3; // Below this JPEG/WebP artifacts are too visible for a thumbnail
+const QUALITY_SEARCH_STEPS = 6;
+
+export interface ExportOptions {
+  width: number;
+  height: number;
+  fitMode: FitMode;
+  format: ExportFormat;
+  quality: number; // 0-1, the highest quality to try; ignored for PNG
+  maxBytes: number | null; // null for no budget
+}
+
+export interface ExportResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: number | null; // The quality actually used, null for PNG
+  fitsBudget: boolean;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Works out where to draw a source image on the target canvas.
+ * @returns The destination rectangle; it overflows the target when cropping and is letterboxed when fitting.
+ */
+export const computeDrawRect = (sourceWidth: number, sourceHeight: number, targetWidth: number, targetHeight: number, fitMode: FitMode): Rect => {
+  const scaleX = targetWidth / sourceWidth;
+  const scaleY = targetHeight / sourceHeight;
+  const scale = fitMode === 'crop' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return { x: (targetWidth - width) / 2, y: (targetHeight - height) / 2, width, height };
+};
+
+/**
+ * Finds the highest quality whose encoding fits the byte budget, by binary search between
+ * MIN_QUALITY and `maxQuality`. If nothing fits, the smallest encoding is returned.
+ * @param encode Encodes the image at the given quality.
+ * @param maxQuality The quality to try first.
+ * @param maxBytes The byte budget.
+ */
+export const encodeWithinBudget = async (
+  encode: (quality: number) => Promise<Blob>,
+  maxQuality: number,
+  maxBytes: number
+): Promise<{ blob: Blob; quality: number; fitsBudget: boolean }> => {
+  const first = await encode(maxQuality);
+  if (first.size <= maxBytes) {
+    return { blob: first, quality: maxQuality, fitsBudget: true };
+  }
+
+  let low = MIN_QUALITY;
+  let high = maxQuality;
+  let best: { blob: Blob; quality: number } | null = null;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS && high - low > 0.01; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encode(quality);
+    if (blob.size <= maxBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  if (best) {
+    return { ...best, fitsBudget: true };
+  }
+
+  const smallest = await encode(MIN_QUALITY);
+  return { blob: smallest, quality: MIN_QUALITY, fitsBudget: smallest.size <= maxBytes };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the image to export."));
+    img.src = src;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      // Browsers that can't encode a format silently fall back to PNG.
+      if (blob && blob.type === format) {
+        resolve(blob);
+      } else {
+        reject(new Error("Your browser could not encode the image in this format."));
+      }
+    }, format, quality);
+  });
+};
+
+/**
+ * Renders an image at the target resolution and encodes it, lowering the quality of
+ * lossy formats until the result fits `maxBytes`.
+ * @param {string} source The image as a data URL.
+ * @param {ExportOptions} options The resolution, fit, format, quality and byte budget.
+ * @returns {Promise<ExportResult>} The encoded image and the settings that produced it.
+ */
+export const exportImage = async (source: string, options: ExportOptions): Promise<ExportResult> => {
+  const { width, height, fitMode, format, quality, maxBytes } = options;
+  const img = await loadImage(source);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a canvas to export the image.");
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  const rect = computeDrawRect(img.naturalWidth, img.naturalHeight, width, height, fitMode);
+  ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
+
+  const isLossy = EXPORT_FORMATS.find(f => f.mimeType === format)?.lossy ?? false;
+  if (!isLossy) {
+    const blob = await canvasToBlob(canvas, format);
+    return { blob, width, height, quality: null, fitsBudget: maxBytes === null || blob.size <= maxBytes };
+  }
+  if (maxBytes === null) {
+    const blob = await canvasToBlob(canvas, format, quality);
+    return { blob, width, height, quality, fitsBudget: true };
+  }
+
+  const encoded = await encodeWithinBudget(q => canvasToBlob(canvas, format, q), quality, maxBytes);
+  return { ...encoded, width, height };
+};
+
+/**
+ * Gets the file extension for an image MIME type, e.g. "jpg" for image/jpeg.
+ */
+export const getFileExtension = (mimeType: string): string =>
+  EXPORT_FORMATS.find(f => f.mimeType === mimeType)?.extension ?? (mimeType.split('/')[1] || 'png');
+
+/**
+ * Formats a byte count for display, e.g. "1.42 MB".
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
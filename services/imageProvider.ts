@@ -0,0 +1,72 @@
+// The contract every image backend (Gemini, the offline mock, ...) implements.
+import type { AspectRatio, MaskEncoding, StyleProfile, TextSuggestion } from '../types';
+
+export interface ImagePart {
+  base64: string;
+  mimeType: string;
+}
+
+export interface MaskBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MaskRegionInfo {
+  id: number;
+  bbox: MaskBounds; // In pixels of the image being edited
+  color?: string; // e.g. "red #FF0000", the region's color on an index map
+  maskIndex?: number; // Which of the per-region masks is this region's, counting from 1
+}
+
+// A masked edit's mask, as prepared for the model by encodeMask.
+export interface EncodedMask {
+  encoding: MaskEncoding;
+  mask: ImagePart; // Every region together, pure black and white
+  guides: ImagePart[]; // The index map, or one mask per region; empty if the regions aren't known
+  width: number;
+  height: number;
+  regions: MaskRegionInfo[];
+}
+
+export interface ImageResult {
+  newBase64: string;
+  newMimeType: string;
+  finalPrompt: string; // The exact prompt sent to the model
+  model: string;
+}
+
+export type ProviderOperation = 'generate' | 'edit' | 'describe' | 'suggest';
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  requiresApiKey: boolean;
+  /** The models this provider offers for each operation; the first one is the default. */
+  models: Record<ProviderOperation, string[]>;
+
+  /** Generates a new image from a text prompt, sent as it is, in the given aspect ratio where the model supports one. */
+  generateImage: (prompt: string, model: string, aspectRatio: AspectRatio) => Promise<ImageResult>;
+
+  /**
+   * Edits an image with a prompt that's sent as it is. When a mask is given, only its white areas
+   * may change; character images are reference photos sent after the primary image and the mask's images.
+   */
+  editImage: (
+    imageToEdit: ImagePart,
+    prompt: string,
+    characterImages: ImagePart[],
+    mask: EncodedMask | null,
+    model: string
+  ) => Promise<ImageResult>;
+
+  /** Writes a short, physical-traits-only definition of the person in the image. */
+  describeCharacter: (characterImage: ImagePart, model: string) => Promise<string>;
+
+  /**
+   * Suggests text overlay prompts for an existing image, or for a scene description before generation,
+   * in the voice and look of the channel's style profile.
+   */
+  suggestText: (source: ImagePart | string, model: string, style: StyleProfile) => Promise<TextSuggestion[]>;
+}
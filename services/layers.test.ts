@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { ImageVersion, Layer } from '../types';
+import {
+  BASE_LAYER_ID,
+  getLayers,
+  hasVisibleLayers,
+  createImageLayer,
+  createTextLayer,
+  createStickerLayer,
+  createColorLayer,
+  insertLayerAbove,
+  moveLayer,
+  removeLayer,
+  getEditTarget,
+  getEditInputLayers,
+  applyEditToLayers,
+  getStickerBounds,
+} from './layers';
+import { createTextOverlay } from './textOverlay';
+
+const version = (layers?: Layer[]): ImageVersion => ({ id: 'v1', parentId: null, base64: 'data:image/png;base64,BASE', mimeType: 'image/png', layers });
+
+const base = getLayers(version())[0];
+const patch = createImageLayer('Hat', 'data:image/png;base64,HAT', 'image/png', 'data:image/png;base64,MASK');
+const text = createTextLayer([createTextOverlay('WOW')]);
+const tint = createColorLayer();
+
+describe('getLayers', () => {
+  it('treats a version without layers as just its base image', () => {
+    expect(getLayers(version())).toEqual([expect.objectContaining({ kind: 'base', id: BASE_LAYER_ID, visible: true, opacity: 1 })]);
+    expect(hasVisibleLayers(version())).toBe(false);
+  });
+
+  it('notices hidden-only stacks change nothing', () => {
+    expect(hasVisibleLayers(version([base, { ...text, visible: false }]))).toBe(false);
+    expect(hasVisibleLayers(version([base, text]))).toBe(true);
+  });
+});
+
+describe('layer order', () => {
+  it('inserts a layer right above another one', () => {
+    expect(insertLayerAbove([base, text], base.id, patch).map(l => l.id)).toEqual([base.id, patch.id, text.id]);
+    expect(insertLayerAbove([base, text], 'missing', patch).map(l => l.id)).toEqual([base.id, text.id, patch.id]);
+  });
+
+  it('moves layers one step and stops at the ends', () => {
+    const layers = [base, patch, text];
+    expect(moveLayer(layers, patch.id, 'up').map(l => l.id)).toEqual([base.id, text.id, patch.id]);
+    expect(moveLayer(layers, patch.id, 'down').map(l => l.id)).toEqual([patch.id, base.id, text.id]);
+    expect(moveLayer(layers, text.id, 'up')).toBe(layers);
+  });
+
+  it('never removes the base layer', () => {
+    expect(removeLayer([base, text], base.id)).toEqual([base, text]);
+    expect(removeLayer([base, text], text.id)).toEqual([base]);
+  });
+});
+
+describe('AI edits on layers', () => {
+  it('targets the selected image layer, or the base for anything else', () => {
+    const layers = [base, patch, text];
+    expect(getEditTarget(layers, patch.id)).toBe(patch);
+    expect(getEditTarget(layers, text.id)).toBe(base);
+    expect(getEditTarget(layers, null)).toBe(base);
+  });
+
+  it('shows the model only image layers, up to the edited one', () => {
+    const upper = createImageLayer('Sky', 'data:image/png;base64,SKY', 'image/png', null);
+    const layers = [base, patch, text, upper, tint];
+    expect(getEditInputLayers(layers, base.id)).toEqual([base, patch, upper]);
+    expect(getEditInputLayers(layers, patch.id)).toEqual([base, patch]);
+    expect(getEditInputLayers([base, { ...patch, visible: false }, upper], base.id)).toEqual([base, upper]);
+  });
+
+  it('adds masked edits as a masked layer above the image layers', () => {
+    const result = applyEditToLayers(version([base, patch, text]), base.id, { base64: 'data:image/png;base64,NEW', mimeType: 'image/png' }, 'data:image/png;base64,M2', 'Glasses');
+
+    expect(result.base64).toBe('data:image/png;base64,BASE');
+    expect(result.layers!.map(l => l.name)).toEqual(['Base image', 'Hat', 'Glasses', 'WOW']);
+    expect(result.layers![2]).toMatchObject({ kind: 'image', base64: 'data:image/png;base64,NEW', maskBase64: 'data:image/png;base64,M2' });
+  });
+
+  it('merges image layers into the new base on unmasked edits, keeping overlays', () => {
+    const result = applyEditToLayers(version([base, patch, text]), base.id, { base64: 'data:image/jpeg;base64,NEW', mimeType: 'image/jpeg' }, null, 'Night');
+
+    expect(result).toEqual({ base64: 'data:image/jpeg;base64,NEW', mimeType: 'image/jpeg', layers: [base, text] });
+    expect(applyEditToLayers(version(), base.id, { base64: 'data:image/jpeg;base64,NEW', mimeType: 'image/jpeg' }, null, 'Night').layers).toBeUndefined();
+  });
+
+  it('replaces only the edited layer on unmasked edits of an image layer', () => {
+    const result = applyEditToLayers(version([base, patch]), patch.id, { base64: 'data:image/png;base64,RED', mimeType: 'image/png' }, null, 'Red hat');
+
+    expect(result.base64).toBe('data:image/png;base64,BASE');
+    expect(result.layers![1]).toEqual({ ...patch, base64: 'data:image/png;base64,RED' });
+  });
+});
+
+describe('getStickerBounds', () => {
+  it('scales stickers with the image height and accounts for rotation', () => {
+    const arrow = { ...createStickerLayer('arrow'), size: 200 };
+    const canvas = { width: 2560, height: 1440 };
+
+    expect(getStickerBounds(canvas, arrow)).toMatchObject({ width: 400, height: 180 });
+    const rotated = getStickerBounds(canvas, { ...arrow, rotation: 90 });
+    expect(rotated.width).toBeCloseTo(180);
+    expect(rotated.height).toBeCloseTo(400);
+    expect(rotated.x + rotated.width / 2).toBeCloseTo(1280);
+  });
+});
@@ -0,0 +1,442 @@
+// The non-destructive layer stack on top of a version: creating and reordering layers, and
+// compositing them on canvas. A stack is only flattened into a single image for export,
+// thumbnails and model input; the layers themselves stay editable.
+import { BlendMode, ColorFill, ColorLayer, ImageLayer, ImageVersion, Layer, StickerLayer, StickerShape, TextLayer, TextOverlay } from '../types';
+import { REFERENCE_HEIGHT, renderTextOverlays, loadOverlayFonts } from './textOverlay';
+
+export const BASE_LAYER_ID = 'base';
+
+export const BLEND_MODES: { mode: BlendMode; label: string }[] = [
+  { mode: 'normal', label: 'Normal' },
+  { mode: 'multiply', label: 'Multiply' },
+  { mode: 'screen', label: 'Screen' },
+  { mode: 'overlay', label: 'Overlay' },
+  { mode: 'darken', label: 'Darken' },
+  { mode: 'lighten', label: 'Lighten' },
+  { mode: 'soft-light', label: 'Soft light' },
+  { mode: 'hard-light', label: 'Hard light' },
+  { mode: 'color-dodge', label: 'Color dodge' },
+  { mode: 'difference', label: 'Difference' },
+  { mode: 'color', label: 'Color' },
+];
+
+export const STICKER_SHAPES: { shape: StickerShape; label: string }[] = [
+  { shape: 'arrow', label: 'Arrow' },
+  { shape: 'circle', label: 'Circle' },
+  { shape: 'box', label: 'Box' },
+  { shape: 'emoji', label: 'Emoji' },
+];
+
+export const COLOR_FILLS: { fill: ColorFill; label: string }[] = [
+  { fill: 'solid', label: 'Solid' },
+  { fill: 'vignette', label: 'Vignette' },
+  { fill: 'top-fade', label: 'Fade from top' },
+  { fill: 'bottom-fade', label: 'Fade from bottom' },
+];
+
+const DEFAULT_EMOJI = '😱';
+const IMAGE_CACHE_SIZE = 32; // Decoded images kept around, so dragging a slider doesn't re-decode every layer
+
+const layerProperties = (name: string) => ({
+  id: crypto.randomUUID(),
+  name,
+  visible: true,
+  opacity: 1,
+  blendMode: 'normal' as BlendMode,
+});
+
+/**
+ * Gets a version's layer stack, bottom to top. Versions without layers are just their base image.
+ */
+export const getLayers = (version: ImageVersion): Layer[] =>
+  version.layers ?? [{ kind: 'base', id: BASE_LAYER_ID, name: 'Base image', visible: true, opacity: 1, blendMode: 'normal' }];
+
+/**
+ * Whether the stack changes anything about the version's own image.
+ */
+export const hasVisibleLayers = (version: ImageVersion): boolean =>
+  !!version.layers && version.layers.some(layer => layer.kind !== 'base' ? layer.visible : !layer.visible || layer.opacity < 1 || layer.blendMode !== 'normal');
+
+export const createImageLayer = (name: string, base64: string, mimeType: string, maskBase64: string | null): ImageLayer => ({
+  ...layerProperties(name),
+  kind: 'image',
+  base64,
+  mimeType,
+  maskBase64,
+});
+
+export const createTextLayer = (overlays: TextOverlay[]): TextLayer => ({
+  ...layerProperties(overlays[0]?.text.split('\n')[0] || 'Text'),
+  kind: 'text',
+  overlays,
+});
+
+export const createStickerLayer = (shape: StickerShape): StickerLayer => ({
+  ...layerProperties(STICKER_SHAPES.find(s => s.shape === shape)?.label ?? 'Sticker'),
+  kind: 'sticker',
+  shape,
+  emoji: shape === 'emoji' ? DEFAULT_EMOJI : undefined,
+  x: 0.5,
+  y: 0.5,
+  size: shape === 'arrow' ? 240 : 180,
+  rotation: 0,
+  color: shape === 'emoji' ? '#FFFFFF' : '#FF0000',
+  outlineColor: '#FFFFFF',
+});
+
+export const createColorLayer = (): ColorLayer => ({
+  ...layerProperties('Color overlay'),
+  opacity: 0.6,
+  kind: 'color',
+  color: '#000000',
+  fill: 'vignette',
+});
+
+/**
+ * Adds a layer directly above another one, or at the top when the other isn't in the stack.
+ */
+export const insertLayerAbove = (layers: Layer[], belowId: string | null, layer: Layer): Layer[] => {
+  const index = layers.findIndex(l => l.id === belowId);
+  return index === -1 ? [...layers, layer] : [...layers.slice(0, index + 1), layer, ...layers.slice(index + 1)];
+};
+
+/**
+ * Moves a layer one step up (towards the top) or down the stack.
+ */
+export const moveLayer = (layers: Layer[], id: string, direction: 'up' | 'down'): Layer[] => {
+  const index = layers.findIndex(l => l.id === id);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index === -1 || target < 0 || target >= layers.length) return layers;
+  const moved = [...layers];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+/**
+ * Removes a layer. The base layer can't be removed, since it stands for the version's own image.
+ */
+export const removeLayer = (layers: Layer[], id: string): Layer[] =>
+  layers.filter(l => l.id !== id || l.kind === 'base');
+
+const isPixelLayer = (layer: Layer): layer is Layer & { kind: 'base' | 'image' } => layer.kind === 'base' || layer.kind === 'image';
+
+/**
+ * Picks the layer an AI edit works on: the selected layer if it holds pixels, otherwise the base.
+ */
+export const getEditTarget = (layers: Layer[], selectedId: string | null): Layer => {
+  const selected = layers.find(l => l.id === selectedId);
+  if (selected && isPixelLayer(selected)) return selected;
+  return layers.find(l => l.kind === 'base') ?? layers[0];
+};
+
+/**
+ * Gets the layers the model should see when editing a target layer. Text, stickers and color overlays
+ * are left out so they stay editable instead of being redrawn. Edits on the base see every image layer;
+ * edits on an image layer see it and the image layers under it.
+ */
+export const getEditInputLayers = (layers: Layer[], targetId: string): Layer[] => {
+  const target = getEditTarget(layers, targetId);
+  const visible = target.kind === 'base' ? layers : layers.slice(0, layers.indexOf(target) + 1);
+  return visible.filter(l => isPixelLayer(l) && (l.visible || l.id === target.id));
+};
+
+/**
+ * Works out the image and layers of a version made by an AI edit on one of its parent's layers.
+ * Masked edits add the result as a new image layer, shown only inside the mask, above the edited layer
+ * (above every image layer for edits on the base). Unmasked edits replace the edited layer's pixels;
+ * on the base, the image layers the model saw are merged into the new base.
+ * @param {ImageVersion} parent The version that was edited.
+ * @param {string} targetId The id of the edited layer.
+ * @param result The model's output.
+ * @param {string | null} maskBase64 The mask of a masked edit, or null.
+ * @param {string} name The name for a new layer.
+ */
+export const applyEditToLayers = (
+  parent: ImageVersion,
+  targetId: string,
+  result: { base64: string; mimeType: string },
+  maskBase64: string | null,
+  name: string
+): Pick<ImageVersion, 'base64' | 'mimeType' | 'layers'> => {
+  const layers = getLayers(parent);
+  const target = getEditTarget(layers, targetId);
+
+  if (maskBase64) {
+    const below = target.kind === 'base' ? [...layers].reverse().find(isPixelLayer) ?? target : target;
+    const patch = createImageLayer(name, result.base64, result.mimeType, maskBase64);
+    return { base64: parent.base64, mimeType: parent.mimeType, layers: insertLayerAbove(layers, below.id, patch) };
+  }
+  if (target.kind === 'base') {
+    const merged = new Set(getEditInputLayers(layers, target.id).map(l => l.id));
+    const remaining = parent.layers?.filter(l => l.kind === 'base' || !merged.has(l.id));
+    return { base64: result.base64, mimeType: result.mimeType, layers: remaining };
+  }
+  return {
+    base64: parent.base64,
+    mimeType: parent.mimeType,
+    layers: layers.map(l => l.id === target.id ? { ...l, base64: result.base64, mimeType: result.mimeType } : l),
+  };
+};
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+
+  const loading = new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load a layer image."));
+    img.src = src;
+  });
+  loading.catch(() => imageCache.delete(src));
+  imageCache.set(src, loading);
+  if (imageCache.size > IMAGE_CACHE_SIZE) {
+    imageCache.delete(imageCache.keys().next().value!);
+  }
+  return loading;
+};
+
+const maskCache = new Map<string, Promise<HTMLCanvasElement>>();
+
+// Masks are white-on-black images; compositing needs them as alpha, white meaning opaque.
+const loadAlphaMask = (src: string): Promise<HTMLCanvasElement> => {
+  const cached = maskCache.get(src);
+  if (cached) return cached;
+
+  const loading = loadImage(src).then(img => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas for a layer mask.");
+    ctx.drawImage(img, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+      data[i + 3] = Math.round((data[i] + data[i + 1] + data[i + 2]) / 3);
+      data[i] = data[i + 1] = data[i + 2] = 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  });
+  loading.catch(() => maskCache.delete(src));
+  maskCache.set(src, loading);
+  if (maskCache.size > IMAGE_CACHE_SIZE) {
+    maskCache.delete(maskCache.keys().next().value!);
+  }
+  return loading;
+};
+
+// Everything a stack needs decoded before it can be drawn synchronously.
+export interface LayerAssets {
+  base: HTMLImageElement;
+  images: Map<string, HTMLImageElement>; // By layer id
+  masks: Map<string, HTMLCanvasElement>; // By layer id
+}
+
+/**
+ * Decodes the base image and every image layer and mask, and waits for the fonts text layers use.
+ */
+export const loadLayerAssets = async (baseSrc: string, layers: Layer[]): Promise<LayerAssets> => {
+  const images = new Map<string, HTMLImageElement>();
+  const masks = new Map<string, HTMLCanvasElement>();
+  const [base] = await Promise.all([
+    loadImage(baseSrc),
+    ...layers.map(async layer => {
+      if (layer.kind === 'image') {
+        images.set(layer.id, await loadImage(layer.base64));
+        if (layer.maskBase64) masks.set(layer.id, await loadAlphaMask(layer.maskBase64));
+      } else if (layer.kind === 'text') {
+        await loadOverlayFonts(layer.overlays);
+      }
+    }),
+  ]);
+  return { base, images, masks };
+};
+
+const STICKER_ASPECT: Record<StickerShape, number> = { arrow: 0.45, circle: 1, box: 0.6, emoji: 1 }; // Height over width
+
+/**
+ * Measures the box a sticker covers on a canvas, including its rotation, in canvas pixels.
+ */
+export const getStickerBounds = (canvas: { width: number; height: number }, sticker: StickerLayer): { x: number; y: number; width: number; height: number } => {
+  const size = sticker.size * (canvas.height / REFERENCE_HEIGHT);
+  const angle = (sticker.rotation * Math.PI) / 180;
+  const w = size;
+  const h = size * STICKER_ASPECT[sticker.shape];
+  const width = Math.abs(w * Math.cos(angle)) + Math.abs(h * Math.sin(angle));
+  const height = Math.abs(w * Math.sin(angle)) + Math.abs(h * Math.cos(angle));
+  return { x: sticker.x * canvas.width - width / 2, y: sticker.y * canvas.height - height / 2, width, height };
+};
+
+const drawSticker = (ctx: CanvasRenderingContext2D, sticker: StickerLayer) => {
+  const size = sticker.size * (ctx.canvas.height / REFERENCE_HEIGHT);
+  const half = size / 2;
+  ctx.save();
+  ctx.translate(sticker.x * ctx.canvas.width, sticker.y * ctx.canvas.height);
+  ctx.rotate((sticker.rotation * Math.PI) / 180);
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  if (sticker.shape === 'emoji') {
+    ctx.font = `${size}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(sticker.emoji || DEFAULT_EMOJI, 0, 0);
+  } else if (sticker.shape === 'arrow') {
+    const shaft = size * 0.16;
+    const headLength = size * 0.38;
+    const headHalf = (size * STICKER_ASPECT.arrow) / 2;
+    ctx.beginPath();
+    ctx.moveTo(-half, -shaft / 2);
+    ctx.lineTo(half - headLength, -shaft / 2);
+    ctx.lineTo(half - headLength, -headHalf);
+    ctx.lineTo(half, 0);
+    ctx.lineTo(half - headLength, headHalf);
+    ctx.lineTo(half - headLength, shaft / 2);
+    ctx.lineTo(-half, shaft / 2);
+    ctx.closePath();
+    ctx.strokeStyle = sticker.outlineColor;
+    ctx.lineWidth = size * 0.06;
+    ctx.stroke();
+    ctx.fillStyle = sticker.color;
+    ctx.fill();
+  } else {
+    // Rings: a wider outline pass under the colored line keeps them visible on any background.
+    const lineWidth = size * 0.07;
+    const traceShape = () => {
+      ctx.beginPath();
+      if (sticker.shape === 'circle') {
+        ctx.arc(0, 0, half - lineWidth, 0, Math.PI * 2);
+      } else {
+        const boxHalf = (size * STICKER_ASPECT.box) / 2;
+        ctx.rect(-half + lineWidth, -boxHalf + lineWidth, size - lineWidth * 2, boxHalf * 2 - lineWidth * 2);
+      }
+    };
+    traceShape();
+    ctx.strokeStyle = sticker.outlineColor;
+    ctx.lineWidth = lineWidth * 1.6;
+    ctx.stroke();
+    ctx.strokeStyle = sticker.color;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+const drawColor = (ctx: CanvasRenderingContext2D, layer: ColorLayer) => {
+  const { width, height } = ctx.canvas;
+  // Gradients fade to the same color at zero alpha, so the edge doesn't go grey.
+  const transparent = `${layer.color}00`;
+  let style: string | CanvasGradient = layer.color;
+  if (layer.fill === 'vignette') {
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.3, width / 2, height / 2, Math.hypot(width, height) / 2);
+    gradient.addColorStop(0, transparent);
+    gradient.addColorStop(1, layer.color);
+    style = gradient;
+  } else if (layer.fill === 'top-fade' || layer.fill === 'bottom-fade') {
+    const gradient = layer.fill === 'top-fade' ? ctx.createLinearGradient(0, 0, 0, height * 0.6) : ctx.createLinearGradient(0, height, 0, height * 0.4);
+    gradient.addColorStop(0, layer.color);
+    gradient.addColorStop(1, transparent);
+    style = gradient;
+  }
+  ctx.fillStyle = style;
+  ctx.fillRect(0, 0, width, height);
+};
+
+/**
+ * Composites a layer stack onto a canvas that's already sized to the base image.
+ * @param ctx The canvas to draw on; it's cleared first.
+ * @param layers The stack, bottom to top.
+ * @param assets The decoded images from loadLayerAssets.
+ * @param skipLayerId A layer to leave out, e.g. one that's being edited in its own overlay.
+ */
+export const renderLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], assets: LayerAssets, skipLayerId: string | null = null) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+
+  // Each layer is drawn on its own scratch canvas first, so opacity and blending apply to it as a whole.
+  const scratch = document.createElement('canvas');
+  scratch.width = width;
+  scratch.height = height;
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) return;
+
+  layers.forEach(layer => {
+    if (!layer.visible || layer.id === skipLayerId) return;
+    scratchCtx.clearRect(0, 0, width, height);
+
+    switch (layer.kind) {
+      case 'base':
+        scratchCtx.drawImage(assets.base, 0, 0, width, height);
+        break;
+      case 'image': {
+        const img = assets.images.get(layer.id);
+        if (!img) return;
+        scratchCtx.drawImage(img, 0, 0, width, height);
+        const mask = assets.masks.get(layer.id);
+        if (mask) {
+          scratchCtx.globalCompositeOperation = 'destination-in';
+          scratchCtx.drawImage(mask, 0, 0, width, height);
+          scratchCtx.globalCompositeOperation = 'source-over';
+        }
+        break;
+      }
+      case 'text':
+        renderTextOverlays(scratchCtx, layer.overlays);
+        break;
+      case 'sticker':
+        drawSticker(scratchCtx, layer);
+        break;
+      case 'color':
+        drawColor(scratchCtx, layer);
+        break;
+    }
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    ctx.drawImage(scratch, 0, 0);
+    ctx.restore();
+  });
+};
+
+/**
+ * Flattens layers of a version into a single image at the base image's resolution.
+ * @param {ImageVersion} version The version whose base image the layers sit on.
+ * @param {Layer[]} [layers] The layers to flatten, bottom to top; all of the version's by default.
+ * @returns {Promise<string>} The flattened image as a PNG data URL.
+ */
+export const flattenLayers = async (version: ImageVersion, layers: Layer[] = getLayers(version)): Promise<string> => {
+  const assets = await loadLayerAssets(version.base64, layers);
+  const canvas = document.createElement('canvas');
+  canvas.width = assets.base.naturalWidth;
+  canvas.height = assets.base.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a canvas to flatten the layers.");
+
+  renderLayers(ctx, layers, assets);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Gets a version as a single image: the version itself when it has no layers, flattened otherwise.
+ */
+export const getFlattenedImage = async (version: ImageVersion): Promise<{ base64: string; mimeType: string }> =>
+  hasVisibleLayers(version)
+    ? { base64: await flattenLayers(version), mimeType: 'image/png' }
+    : { base64: version.base64, mimeType: version.mimeType };
+
+/**
+ * Gets the image the model should see when editing a layer: the version's own image when the
+ * edit only involves the base, the flattened image layers otherwise.
+ */
+export const getEditInput = async (version: ImageVersion, targetId: string): Promise<{ base64: string; mimeType: string }> => {
+  const inputLayers = getEditInputLayers(getLayers(version), targetId);
+  if (inputLayers.length === 1 && inputLayers[0].kind === 'base') {
+    return { base64: version.base64, mimeType: version.mimeType };
+  }
+  return { base64: await flattenLayers(version, inputLayers), mimeType: 'image/png' };
+};
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { featherMask, findAlignmentOffset } from './maskCompositing';
+
+// A width x height mask with a filled rectangle from (x0, y0) up to, not including, (x1, y1).
+const rectMask = (width: number, height: number, x0: number, y0: number, x1: number, y1: number) => {
+  const mask = new Uint8ClampedArray(width * height);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) mask[y * width + x] = 255;
+  }
+  return mask;
+};
+
+// A grayscale image with enough structure that any shift shows up.
+const pattern = (width: number, height: number, shiftX = 0, shiftY = 0) => {
+  const image = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = x - shiftX;
+      const sy = y - shiftY;
+      image[y * width + x] = ((sx * 37 + sy * 91 + ((sx * sy) % 13) * 17) % 256 + 256) % 256;
+    }
+  }
+  return image;
+};
+
+describe('featherMask', () => {
+  it('never lets the feather reach outside the mask', () => {
+    const mask = rectMask(40, 30, 10, 5, 30, 25);
+    const alpha = featherMask(mask, 40, 30, 6);
+
+    mask.forEach((value, i) => {
+      if (value === 0) expect(alpha[i]).toBe(0);
+    });
+  });
+
+  it('fades in from the edge and reaches full strength at the radius', () => {
+    const alpha = featherMask(rectMask(40, 40, 0, 0, 40, 40).fill(0, 20 * 40, 21 * 40), 40, 40, 8);
+    const column = (y: number) => alpha[y * 40 + 20];
+
+    expect(column(20)).toBe(0);
+    expect(column(21)).toBeGreaterThan(0);
+    expect(column(21)).toBeLessThan(column(24));
+    expect(column(24)).toBeLessThan(column(28));
+    expect(column(29)).toBe(255);
+    expect(column(10)).toBe(255);
+  });
+
+  it('keeps a hard edge with no radius and treats an all-masked image as fully edited', () => {
+    const mask = rectMask(10, 10, 2, 2, 8, 8);
+    expect(featherMask(mask, 10, 10, 0)).toEqual(mask);
+    expect(featherMask(rectMask(10, 10, 0, 0, 10, 10), 10, 10, 4).every(value => value === 255)).toBe(true);
+  });
+});
+
+describe('findAlignmentOffset', () => {
+  const width = 48;
+  const height = 32;
+  const mask = rectMask(width, height, 16, 8, 32, 24);
+
+  it('stays put when the edit only changed the masked area', () => {
+    const original = pattern(width, height);
+    const edited = original.slice();
+    edited.fill(255, 10 * width + 18, 10 * width + 30);
+
+    expect(findAlignmentOffset(original, edited, mask, width, height, 4)).toEqual({ dx: 0, dy: 0 });
+  });
+
+  it('finds how far the model shifted the picture', () => {
+    const original = pattern(width, height);
+    const edited = pattern(width, height, 3, -2); // Content moved right 3 and up 2
+
+    expect(findAlignmentOffset(original, edited, mask, width, height, 4)).toEqual({ dx: 3, dy: -2 });
+  });
+
+  it('ignores what happens inside the mask', () => {
+    const original = pattern(width, height);
+    const edited = original.slice();
+    for (let y = 8; y < 24; y++) {
+      for (let x = 16; x < 32; x++) edited[y * width + x] = original[y * width + x - 1]; // A shifted-looking patch
+    }
+
+    expect(findAlignmentOffset(original, edited, mask, width, height, 4)).toEqual({ dx: 0, dy: 0 });
+  });
+});
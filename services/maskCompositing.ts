@@ -0,0 +1,184 @@
+// Constrains a masked edit to its mask after the model returns. The model is asked to leave black areas
+// alone, but it often retouches faces outside the mask or shifts the whole frame, so its output is
+// re-aligned to the original and only ever shown through the mask. Masks are feathered towards the
+// inside of each region, never outwards, so pixels outside the mask stay exactly the original's.
+import { MaskCompositingOptions } from '../types';
+
+export const DEFAULT_MASK_COMPOSITING: MaskCompositingOptions = { autoAlign: true };
+
+const ALIGN_WIDTH = 160; // Alignment is estimated on a small copy; plenty for the few-pixel shifts models make
+const MAX_ALIGN_SHIFT = 6; // In pixels of the small copy, i.e. about 4% of the width
+const MIN_ALIGN_IMPROVEMENT = 0.9; // A shift must cut the difference by 10% to beat staying put
+
+/**
+ * Fades a mask in from its edge: every pixel inside the mask gets an alpha that grows with its distance
+ * to the nearest pixel outside, reaching full strength at `radius` pixels in. Pixels outside stay 0.
+ * @param {Uint8ClampedArray} mask One value per pixel; 128 and above is inside the mask.
+ * @param {number} width The mask width.
+ * @param {number} height The mask height.
+ * @param {number} radius The feather width in pixels; 0 for a hard edge.
+ * @returns {Uint8ClampedArray} The feathered alpha, one value per pixel.
+ */
+export const featherMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const alpha = new Uint8ClampedArray(width * height);
+  if (radius <= 0) {
+    for (let i = 0; i < alpha.length; i++) alpha[i] = mask[i] >= 128 ? 255 : 0;
+    return alpha;
+  }
+
+  // Chamfer distance (3 per straight step, 4 per diagonal) to the nearest outside pixel, in two passes.
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < distance.length; i++) distance[i] = mask[i] >= 128 ? Infinity : 0;
+  const relax = (i: number, neighbor: number, cost: number) => {
+    if (distance[neighbor] + cost < distance[i]) distance[i] = distance[neighbor] + cost;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - width, 3);
+        if (x > 0) relax(i, i - width - 1, 4);
+        if (x < width - 1) relax(i, i - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 3);
+      if (y < height - 1) {
+        relax(i, i + width, 3);
+        if (x < width - 1) relax(i, i + width + 1, 4);
+        if (x > 0) relax(i, i + width - 1, 4);
+      }
+    }
+  }
+
+  for (let i = 0; i < alpha.length; i++) {
+    if (distance[i] === 0) continue;
+    const t = Math.min(1, distance[i] / 3 / radius);
+    alpha[i] = Math.round(255 * t * t * (3 - 2 * t)); // Smoothstep, so the fade has no visible start or end
+  }
+  return alpha;
+};
+
+/**
+ * Finds how far an edited image has drifted from the original, by trying small shifts and comparing
+ * only the pixels entirely outside the mask, where the two should match.
+ * @param {Uint8ClampedArray} original Grayscale original, one value per pixel.
+ * @param {Uint8ClampedArray} edited Grayscale edit at the same size.
+ * @param {Uint8ClampedArray} mask One value per pixel; only pixels at 0 are compared.
+ * @param {number} width The image width.
+ * @param {number} height The image height.
+ * @param {number} maxShift The largest shift to try, in pixels, in each direction.
+ * @returns The shift such that edited(x + dx, y + dy) best matches original(x, y).
+ */
+export const findAlignmentOffset = (
+  original: Uint8ClampedArray,
+  edited: Uint8ClampedArray,
+  mask: Uint8ClampedArray,
+  width: number,
+  height: number,
+  maxShift: number
+): { dx: number; dy: number } => {
+  const meanDifference = (dx: number, dy: number) => {
+    let total = 0;
+    let count = 0;
+    for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+      for (let x = Math.max(0, -dx); x < Math.min(width, width - dx); x++) {
+        const i = y * width + x;
+        if (mask[i] > 0) continue;
+        total += Math.abs(original[i] - edited[i + dy * width + dx]);
+        count++;
+      }
+    }
+    return count > 0 ? total / count : Infinity;
+  };
+
+  let best = { dx: 0, dy: 0 };
+  let bestDifference = meanDifference(0, 0) * MIN_ALIGN_IMPROVEMENT;
+  for (let dy = -maxShift; dy <= maxShift; dy++) {
+    for (let dx = -maxShift; dx <= maxShift; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const difference = meanDifference(dx, dy);
+      if (difference < bestDifference) {
+        best = { dx, dy };
+        bestDifference = difference;
+      }
+    }
+  }
+  return best;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load an image to composite the masked edit."));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a canvas to composite the masked edit.");
+  return { canvas, ctx };
+};
+
+// Draws an image at a size and reads back one channel (the average of RGB) per pixel.
+const readGrayscale = (img: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+  }
+  return gray;
+};
+
+/**
+ * Turns a masked edit's raw model output into a layer that can only change pixels inside the mask:
+ * the output and the mask are resized to the original's dimensions and the output is, optionally,
+ * shifted back into alignment. The mask's gray levels become the layer's opacity.
+ * @param {string} originalSrc The image the model was given.
+ * @param {string} editedSrc The model's output.
+ * @param {string} maskSrc The white-on-black, already feathered mask that was sent with the edit.
+ * @param {MaskCompositingOptions} options Whether to auto-align.
+ * @returns The aligned edit and the mask, both as PNG data URLs at the original's size.
+ */
+export const constrainMaskedEdit = async (
+  originalSrc: string,
+  editedSrc: string,
+  maskSrc: string,
+  options: MaskCompositingOptions
+): Promise<{ base64: string; maskBase64: string }> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalSrc), loadImage(editedSrc), loadImage(maskSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  let offset = { dx: 0, dy: 0 };
+  if (options.autoAlign) {
+    const smallWidth = Math.min(width, ALIGN_WIDTH);
+    const smallHeight = Math.max(1, Math.round(height * (smallWidth / width)));
+    const small = findAlignmentOffset(
+      readGrayscale(original, smallWidth, smallHeight),
+      readGrayscale(edited, smallWidth, smallHeight),
+      readGrayscale(mask, smallWidth, smallHeight),
+      smallWidth,
+      smallHeight,
+      MAX_ALIGN_SHIFT
+    );
+    offset = { dx: small.dx * (width / smallWidth), dy: small.dy * (height / smallHeight) };
+  }
+
+  const { canvas: editCanvas, ctx: editCtx } = createCanvas(width, height);
+  editCtx.drawImage(edited, -offset.dx, -offset.dy, width, height);
+
+  const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.drawImage(mask, 0, 0, width, height);
+
+  return { base64: editCanvas.toDataURL('image/png'), maskBase64: maskCanvas.toDataURL('image/png') };
+};
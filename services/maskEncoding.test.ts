@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { getMaskBounds, describeMaskRegions, getRegionIndexColor, REGION_INDEX_COLORS } from './maskEncoding';
+import type { EncodedMask } from './imageProvider';
+
+describe('getMaskBounds', () => {
+  it('finds the box around every pixel inside the mask', () => {
+    const mask = new Uint8ClampedArray(10 * 8);
+    mask[2 * 10 + 3] = 255;
+    mask[5 * 10 + 7] = 200;
+    mask[6 * 10 + 1] = 100; // Below half, so outside
+
+    expect(getMaskBounds(mask, 10, 8)).toEqual({ x: 3, y: 2, width: 5, height: 4 });
+  });
+
+  it('returns null for an empty mask', () => {
+    expect(getMaskBounds(new Uint8ClampedArray(16), 4, 4)).toBeNull();
+  });
+});
+
+describe('getRegionIndexColor', () => {
+  it('gives each region its own color and wraps around after the last', () => {
+    expect(getRegionIndexColor(1)).toEqual(REGION_INDEX_COLORS[0]);
+    expect(getRegionIndexColor(2)).not.toEqual(getRegionIndexColor(1));
+    expect(getRegionIndexColor(REGION_INDEX_COLORS.length + 1)).toEqual(REGION_INDEX_COLORS[0]);
+  });
+});
+
+describe('describeMaskRegions', () => {
+  const mask = (encoding: EncodedMask['encoding']): EncodedMask => ({
+    encoding,
+    mask: { base64: 'MASK', mimeType: 'image/png' },
+    guides: [],
+    width: 100,
+    height: 50,
+    regions: [
+      { id: 1, bbox: { x: 0, y: 0, width: 10, height: 10 }, color: 'red #FF0000' },
+      { id: 3, bbox: { x: 20, y: 5, width: 30, height: 40 }, maskIndex: 2 },
+    ],
+  });
+
+  it('lists the image size and each region with its bounding box', () => {
+    const description = JSON.parse(describeMaskRegions(mask('index-map')));
+
+    expect(description.imageSize).toEqual({ width: 100, height: 50 });
+    expect(description.regions[0]).toEqual({ region: 1, boundingBox: { x: 0, y: 0, width: 10, height: 10 }, mapColor: 'red #FF0000' });
+    expect(description.regions[1].region).toBe(3);
+  });
+
+  it('only points at mask images when each region has its own', () => {
+    expect(JSON.parse(describeMaskRegions(mask('index-map'))).regions[1].maskImage).toBeUndefined();
+    expect(JSON.parse(describeMaskRegions(mask('per-region'))).regions[1].maskImage).toBe(2);
+  });
+});
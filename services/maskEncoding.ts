@@ -0,0 +1,153 @@
+// Prepares a masked edit's mask for the model. The model always gets one pure black and white mask of
+// every region together, and then, depending on the encoding, either a color-coded map telling the
+// regions apart or one black and white mask per region. Nothing is ever written onto a mask, as
+// numbers painted on it read as part of the editable area.
+import { MaskEncoding, RegionMask } from '../types';
+import type { EncodedMask, MaskBounds, MaskRegionInfo } from './imageProvider';
+
+export const DEFAULT_MASK_ENCODING: MaskEncoding = 'index-map';
+
+export const MASK_ENCODINGS: { value: MaskEncoding; label: string }[] = [
+  { value: 'index-map', label: 'Mask + color map' },
+  { value: 'per-region', label: 'One mask per region' },
+];
+
+// Easy to tell apart and to name; region N gets color N, wrapping around after the last.
+export const REGION_INDEX_COLORS: { name: string; hex: string }[] = [
+  { name: 'red', hex: '#FF0000' },
+  { name: 'green', hex: '#00FF00' },
+  { name: 'blue', hex: '#0000FF' },
+  { name: 'yellow', hex: '#FFFF00' },
+  { name: 'magenta', hex: '#FF00FF' },
+  { name: 'cyan', hex: '#00FFFF' },
+  { name: 'orange', hex: '#FF8000' },
+  { name: 'purple', hex: '#8000FF' },
+];
+
+export const getRegionIndexColor = (regionId: number) =>
+  REGION_INDEX_COLORS[(regionId - 1) % REGION_INDEX_COLORS.length];
+
+/**
+ * Finds the smallest rectangle holding every pixel inside a mask.
+ * @param {Uint8ClampedArray} mask One value per pixel; 128 and above is inside the mask.
+ * @param {number} width The mask width.
+ * @param {number} height The mask height.
+ * @returns {MaskBounds | null} The rectangle in pixels, or null if the mask is empty.
+ */
+export const getMaskBounds = (mask: Uint8ClampedArray, width: number, height: number): MaskBounds | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] < 128) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Describes an encoded mask's regions as JSON for the prompt, so the model can locate each region
+ * without any marks on the images.
+ * @param {EncodedMask} mask The encoded mask.
+ * @returns {string} The image size and, for each region, its id, bounding box and map color if any.
+ */
+export const describeMaskRegions = (mask: EncodedMask): string => JSON.stringify({
+  imageSize: { width: mask.width, height: mask.height },
+  regions: mask.regions.map(region => ({
+    region: region.id,
+    boundingBox: region.bbox,
+    ...(region.color && { mapColor: region.color }),
+    ...(mask.encoding === 'per-region' && { maskImage: region.maskIndex }),
+  })),
+}, null, 2);
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load the mask to prepare it for the edit."));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a canvas to prepare the mask.");
+  return { canvas, ctx };
+};
+
+// Reads an image at a size as one 0-or-255 value per pixel, dropping any feathering.
+const readBinary = (img: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const mask = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3 >= 128 ? 255 : 0;
+  }
+  return mask;
+};
+
+const toPng = (width: number, height: number, paint: (data: Uint8ClampedArray, pixel: number) => void): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const pixels = ctx.createImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    pixels.data[i * 4 + 3] = 255;
+    paint(pixels.data, i);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const binaryToPng = (mask: Uint8ClampedArray, width: number, height: number) =>
+  toPng(width, height, (data, i) => data.fill(mask[i], i * 4, i * 4 + 3));
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * Encodes a masked edit's mask for the model.
+ * @param {string} maskBase64 Every region together, white on black; may be feathered.
+ * @param {RegionMask[]} regionMasks Each region's own mask. Without them only the combined mask is sent.
+ * @param {MaskEncoding} encoding How the regions are told apart.
+ * @returns {Promise<EncodedMask>} The pure black and white mask, the guide images and each region's box.
+ */
+export const encodeMask = async (maskBase64: string, regionMasks: RegionMask[], encoding: MaskEncoding): Promise<EncodedMask> => {
+  const combined = await loadImage(maskBase64);
+  const width = combined.naturalWidth;
+  const height = combined.naturalHeight;
+
+  const regions: MaskRegionInfo[] = [];
+  const guides: string[] = [];
+  const indexMap = new Uint8ClampedArray(width * height * 3);
+  for (const regionMask of [...regionMasks].sort((a, b) => a.id - b.id)) {
+    const mask = readBinary(await loadImage(regionMask.maskBase64), width, height);
+    const bbox = getMaskBounds(mask, width, height);
+    if (!bbox) continue; // Erased away entirely
+
+    if (encoding === 'index-map') {
+      const color = getRegionIndexColor(regionMask.id);
+      const rgb = hexToRgb(color.hex);
+      mask.forEach((value, i) => { if (value) indexMap.set(rgb, i * 3); });
+      regions.push({ id: regionMask.id, bbox, color: `${color.name} ${color.hex}` });
+    } else {
+      guides.push(binaryToPng(mask, width, height));
+      regions.push({ id: regionMask.id, bbox, maskIndex: guides.length });
+    }
+  }
+  if (encoding === 'index-map' && regions.length > 0) {
+    guides.push(toPng(width, height, (data, i) => data.set(indexMap.subarray(i * 3, i * 3 + 3), i * 4)));
+  }
+
+  return {
+    encoding,
+    mask: { base64: binaryToPng(readBinary(combined, width, height), width, height), mimeType: 'image/png' },
+    guides: guides.map(base64 => ({ base64, mimeType: 'image/png' })),
+    width,
+    height,
+    regions,
+  };
+};
@@ -0,0 +1,171 @@
+// An offline stand-in provider. It returns deterministic placeholder images and text
+// derived from the prompt, so the app can be developed and tested without API keys.
+import type { ImageProvider, ImagePart, ImageResult, EncodedMask } from './imageProvider';
+import type { AspectRatio, OverlayFont, StyleProfile, TextAnchor, TextSuggestion } from '../types';
+import { getRatioValue } from './targetFormats';
+
+const MOCK_LATENCY_MS = 400; // Long enough to exercise loading states
+const OUTPUT_LONG_SIDE = 1280;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A small, stable string hash (FNV-1a) used to derive colors from prompts.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not load the source image."));
+    img.src = src;
+  });
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, label: string, prompt: string) => {
+  const { width, height } = ctx.canvas;
+  const bandHeight = Math.round(height * 0.18);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${Math.round(bandHeight * 0.3)}px sans-serif`;
+  ctx.fillText(label, bandHeight * 0.3, height - bandHeight * 0.68);
+  ctx.font = `${Math.round(bandHeight * 0.2)}px sans-serif`;
+  const snippet = prompt.length > 90 ? `${prompt.slice(0, 87)}...` : prompt;
+  ctx.fillText(snippet, bandHeight * 0.3, height - bandHeight * 0.3);
+};
+
+const toResult = (canvas: HTMLCanvasElement, finalPrompt: string, model: string): ImageResult => ({
+  newBase64: canvas.toDataURL('image/png'),
+  newMimeType: 'image/png',
+  finalPrompt,
+  model,
+});
+
+const generateImage = async (prompt: string, model: string, aspectRatio: AspectRatio): Promise<ImageResult> => {
+  await wait(MOCK_LATENCY_MS);
+  const hue = hashString(prompt) % 360;
+
+  const ratio = getRatioValue(aspectRatio);
+  const width = ratio >= 1 ? OUTPUT_LONG_SIDE : Math.round(OUTPUT_LONG_SIDE * ratio);
+  const height = ratio >= 1 ? Math.round(OUTPUT_LONG_SIDE / ratio) : OUTPUT_LONG_SIDE;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Mock provider could not create a canvas.");
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  drawLabel(ctx, `MOCK GENERATION #${hashString(prompt).toString(16).slice(0, 6)}`, prompt);
+  return toResult(canvas, prompt, model);
+};
+
+const editImage = async (
+  imageToEdit: ImagePart,
+  prompt: string,
+  characterImages: ImagePart[],
+  mask: EncodedMask | null,
+  model: string
+): Promise<ImageResult> => {
+  await wait(MOCK_LATENCY_MS);
+  const source = await loadImage(imageToEdit.base64);
+  const hue = hashString(prompt) % 360;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Mock provider could not create a canvas.");
+  ctx.drawImage(source, 0, 0);
+
+  // Tint the edited area: the masked region for masked edits, otherwise the whole frame.
+  const tint = document.createElement('canvas');
+  tint.width = canvas.width;
+  tint.height = canvas.height;
+  const tintCtx = tint.getContext('2d');
+  if (tintCtx) {
+    tintCtx.fillStyle = `hsla(${hue}, 90%, 50%, 0.35)`;
+    tintCtx.fillRect(0, 0, tint.width, tint.height);
+    if (mask) {
+      const maskSource = await loadImage(mask.mask.base64);
+      const maskCanvas = document.createElement('canvas');
+      maskCanvas.width = tint.width;
+      maskCanvas.height = tint.height;
+      const maskCtx = maskCanvas.getContext('2d');
+      if (maskCtx) {
+        maskCtx.drawImage(maskSource, 0, 0, tint.width, tint.height);
+        // The mask is white-on-black, so turn its brightness into alpha before clipping the tint.
+        const pixels = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+        for (let i = 0; i < pixels.data.length; i += 4) {
+          pixels.data[i + 3] = pixels.data[i];
+        }
+        maskCtx.putImageData(pixels, 0, 0);
+        tintCtx.globalCompositeOperation = 'destination-in';
+        tintCtx.drawImage(maskCanvas, 0, 0);
+      }
+    }
+    ctx.drawImage(tint, 0, 0);
+  }
+
+  const refs = characterImages.length > 0 ? ` + ${characterImages.length} ref(s)` : '';
+  drawLabel(ctx, `MOCK ${mask ? 'MASKED ' : ''}EDIT${refs}`, prompt);
+  return toResult(canvas, prompt, model);
+};
+
+const describeCharacter = async (characterImage: ImagePart, model: string): Promise<string> => {
+  await wait(MOCK_LATENCY_MS);
+  const ages = ['about 25', 'about 35', 'about 45', 'about 60'];
+  const hair = ['short brown hair', 'long blonde hair', 'curly black hair', 'grey receding hairline'];
+  const hash = hashString(characterImage.base64.slice(-256));
+  return `Mock definition: ${ages[hash % ages.length]}, oval face, medium skin tone, brown eyes, straight nose, ${hair[(hash >> 4) % hair.length]}, average build.`;
+};
+
+const suggestText = async (source: ImagePart | string, model: string, style: StyleProfile): Promise<TextSuggestion[]> => {
+  await wait(MOCK_LATENCY_MS);
+  const headlines = ['YOU WON\'T BELIEVE THIS!', 'IT\'S OVER!', 'CAUGHT RED-HANDED', 'THE BIG MISTAKE', 'SHE LOST EVERYTHING!'];
+  const anchors: TextAnchor[] = ['top-left', 'top-right', 'bottom', 'left', 'bottom-right'];
+  const fonts: OverlayFont[] = ['Impact', 'Bebas Neue', 'Anton', 'Impact', 'Bebas Neue'];
+  const fills = style.palette.length > 0 ? style.palette : ['#FFFF00', '#FFFFFF', '#FF0000', '#FFFF00', '#FFFFFF'];
+  return headlines.map((headline, i) => ({
+    headline,
+    anchor: anchors[i],
+    fontFamily: fonts[i],
+    fill: fills[i % fills.length],
+    strokeColor: '#000000',
+    strokeWidth: 10,
+    shadow: i % 2 === 0,
+    rationale: 'Mock rationale: short, high-contrast text that reads at a glance.',
+  }));
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  requiresApiKey: false,
+  models: {
+    generate: ['mock-image'],
+    edit: ['mock-image-edit'],
+    describe: ['mock-text'],
+    suggest: ['mock-text'],
+  },
+  generateImage,
+  editImage,
+  describeCharacter,
+  suggestText,
+};
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { planExtend, getPaddedSize, hasPadding, describePadding, NO_PADDING } from './outpaint';
+
+describe('planExtend', () => {
+  it('grows only the picked edges, by a share of the matching side', () => {
+    expect(planExtend(1280, 720, ['top', 'left'], 25)).toEqual({ top: 180, right: 0, bottom: 0, left: 320 });
+  });
+
+  it('grows nothing without edges or amount', () => {
+    expect(hasPadding(planExtend(1280, 720, [], 25))).toBe(false);
+    expect(planExtend(1280, 720, ['right'], 0)).toEqual(NO_PADDING);
+  });
+});
+
+describe('getPaddedSize', () => {
+  it('adds the padding to each side', () => {
+    expect(getPaddedSize(1280, 720, { top: 10, right: 20, bottom: 30, left: 40 })).toEqual({ width: 1340, height: 760 });
+  });
+});
+
+describe('describePadding', () => {
+  it('lists only the sides that grow', () => {
+    expect(describePadding({ top: 120, right: 0, bottom: 0, left: 64 })).toBe('top 120px, left 64px');
+  });
+});
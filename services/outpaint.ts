@@ -0,0 +1,111 @@
+// Prepares an image for outpainting: it's padded on the sides that grow, the new area is pre-filled with
+// a blurred stretch of the image so the model starts from the right colors, and a mask marks what to fill.
+import { Padding } from '../types';
+
+const SEAM_BLEND = 16; // Pixels of the original the mask fades into, so the new area joins without a hard seam
+const FILL_BLUR = 48;
+
+export const NO_PADDING: Padding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/**
+ * Whether a padding adds anything.
+ */
+export const hasPadding = (padding: Padding): boolean =>
+  padding.top > 0 || padding.right > 0 || padding.bottom > 0 || padding.left > 0;
+
+export type Edge = keyof Padding;
+
+export const EDGES: Edge[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Works out the padding for growing some edges of an image by a share of its size.
+ * @param {number} width The image width.
+ * @param {number} height The image height.
+ * @param {Edge[]} edges The edges to grow.
+ * @param {number} percent How much each edge grows, as a percentage of the image's width for left and right and of its height for top and bottom.
+ * @returns {Padding} The pixels to add on each side.
+ */
+export const planExtend = (width: number, height: number, edges: Edge[], percent: number): Padding => {
+  const amount = (size: number) => Math.max(0, Math.round(size * percent / 100));
+  return {
+    top: edges.includes('top') ? amount(height) : 0,
+    right: edges.includes('right') ? amount(width) : 0,
+    bottom: edges.includes('bottom') ? amount(height) : 0,
+    left: edges.includes('left') ? amount(width) : 0,
+  };
+};
+
+/**
+ * Gets an image's size after padding.
+ */
+export const getPaddedSize = (width: number, height: number, padding: Padding) => ({
+  width: width + padding.left + padding.right,
+  height: height + padding.top + padding.bottom,
+});
+
+/**
+ * Describes a padding for the version history, e.g. "top 120px, left 64px".
+ */
+export const describePadding = (padding: Padding): string =>
+  EDGES
+    .filter(side => padding[side] > 0)
+    .map(side => `${side} ${padding[side]}px`)
+    .join(', ');
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load the image to extend."));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a canvas to extend the image.");
+  return { canvas, ctx };
+};
+
+/**
+ * Pads an image for outpainting.
+ * @param {string} src The image to extend.
+ * @param {Padding} padding The pixels to add on each side.
+ * @returns The padded image and its mask, white where the model should paint, as PNG data URLs.
+ */
+export const padImage = async (src: string, padding: Padding): Promise<{ base64: string; maskBase64: string; width: number; height: number }> => {
+  const img = await loadImage(src);
+  const { width, height } = getPaddedSize(img.naturalWidth, img.naturalHeight, padding);
+  const inner = { x: padding.left, y: padding.top, width: img.naturalWidth, height: img.naturalHeight };
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.filter = `blur(${FILL_BLUR}px)`;
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.filter = 'none';
+  ctx.drawImage(img, inner.x, inner.y);
+
+  const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.fillStyle = '#FFFFFF';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(inner.x, inner.y, inner.width, inner.height);
+
+  // Fade the mask a little into the original along each side that grew.
+  const blend = Math.min(SEAM_BLEND, Math.floor(Math.min(inner.width, inner.height) / 4));
+  const fades: { active: boolean; x0: number; y0: number; x1: number; y1: number; rect: [number, number, number, number] }[] = [
+    { active: padding.top > 0, x0: 0, y0: inner.y, x1: 0, y1: inner.y + blend, rect: [inner.x, inner.y, inner.width, blend] },
+    { active: padding.bottom > 0, x0: 0, y0: inner.y + inner.height, x1: 0, y1: inner.y + inner.height - blend, rect: [inner.x, inner.y + inner.height - blend, inner.width, blend] },
+    { active: padding.left > 0, x0: inner.x, y0: 0, x1: inner.x + blend, y1: 0, rect: [inner.x, inner.y, blend, inner.height] },
+    { active: padding.right > 0, x0: inner.x + inner.width, y0: 0, x1: inner.x + inner.width - blend, y1: 0, rect: [inner.x + inner.width - blend, inner.y, blend, inner.height] },
+  ];
+  fades.filter(fade => fade.active && blend > 0).forEach(fade => {
+    const gradient = maskCtx.createLinearGradient(fade.x0, fade.y0, fade.x1, fade.y1);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    maskCtx.fillStyle = gradient;
+    maskCtx.fillRect(...fade.rect);
+  });
+
+  return { base64: canvas.toDataURL('image/png'), maskBase64: maskCanvas.toDataURL('image/png'), width, height };
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, zipSync, strToU8, strFromU8 } from 'fflate';
+import { buildProjectArchive, readProjectArchive, ProjectManifest } from './projectArchive';
+import type { ProjectData } from './projectStorage';
+import { createCharacter } from './characters';
+import { TINY_PNG_DATA_URL } from '../test/fixtures';
+
+const JPEG_DATA_URL = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ==';
+
+const project: ProjectData = {
+  activeSetId: 'set-1',
+  activeVersionId: 'v2',
+  styleProfileId: 'calm-explainer',
+  imageSets: [
+    {
+      id: 'set-1',
+      name: 'HOA Showdown!',
+      versions: [
+        { id: 'v1', parentId: null, base64: TINY_PNG_DATA_URL, mimeType: 'image/png' },
+        {
+          id: 'v2',
+          parentId: 'v1',
+          base64: JPEG_DATA_URL,
+          mimeType: 'image/jpeg',
+          provenance: {
+            operation: 'masked-edit',
+            userPrompt: '',
+            regionPrompts: [{ id: 1, prompt: 'Add a hat' }],
+            submissionPrompt: '- **Region 1:** Add a hat',
+            maskBase64: TINY_PNG_DATA_URL,
+            characterIds: [],
+            model: 'mock-image-edit',
+            createdAt: 1,
+            durationMs: 400,
+            passes: [{ regionId: 1, prompt: 'Add a hat', maskBase64: TINY_PNG_DATA_URL, layerId: 'patch', submissionPrompt: '- **Region 1:** Add a hat', durationMs: 400 }],
+            maskEncoding: 'index-map',
+            regionMasks: [{ id: 1, maskBase64: TINY_PNG_DATA_URL }],
+          },
+          layers: [
+            { kind: 'base', id: 'base', name: 'Base image', visible: true, opacity: 1, blendMode: 'normal' },
+            { kind: 'image', id: 'patch', name: 'Add a hat', visible: true, opacity: 0.8, blendMode: 'normal', base64: TINY_PNG_DATA_URL, mimeType: 'image/png', maskBase64: TINY_PNG_DATA_URL },
+            { kind: 'color', id: 'tint', name: 'Color overlay', visible: false, opacity: 0.6, blendMode: 'multiply', color: '#000000', fill: 'vignette' },
+          ],
+        },
+      ],
+    },
+  ],
+  characters: [
+    {
+      ...createCharacter(1),
+      base64: TINY_PNG_DATA_URL,
+      mimeType: 'image/png',
+      definition: 'about 35',
+      isAnalyzed: true,
+      extraPhotos: [{ base64: JPEG_DATA_URL, mimeType: 'image/jpeg' }],
+    },
+    createCharacter(2),
+  ],
+};
+
+const readManifest = (archive: Uint8Array): ProjectManifest => JSON.parse(strFromU8(unzipSync(archive)['manifest.json']));
+
+describe('buildProjectArchive', () => {
+  it('stores each version as a file with the right extension, in set order', () => {
+    const files = Object.keys(unzipSync(buildProjectArchive('My Project', project)));
+
+    expect(files).toEqual(expect.arrayContaining([
+      'sets/01-hoa-showdown/v01.png',
+      'sets/01-hoa-showdown/v02.jpg',
+      'sets/01-hoa-showdown/v02-mask.png',
+      'sets/01-hoa-showdown/v02-layer02.png',
+      'sets/01-hoa-showdown/v02-layer02-mask.png',
+      'sets/01-hoa-showdown/v02-pass01-mask.png',
+      'sets/01-hoa-showdown/v02-region01-mask.png',
+      'characters/c1.png',
+      'characters/c1-2.jpg',
+      'manifest.json',
+    ]));
+  });
+
+  it('records names, order, lineage and metadata in the manifest', () => {
+    const manifest = readManifest(buildProjectArchive('My Project', project));
+
+    expect(manifest.name).toBe('My Project');
+    expect(manifest.imageSets[0].versions.map(v => [v.label, v.id, v.parentId])).toEqual([['V1', 'v1', null], ['V2', 'v2', 'v1']]);
+    expect(manifest.imageSets[0].versions[1].provenance).toMatchObject({ model: 'mock-image-edit', maskFile: 'sets/01-hoa-showdown/v02-mask.png' });
+    expect(manifest.characters[1].photo).toBeNull();
+  });
+});
+
+describe('readProjectArchive', () => {
+  it('reconstructs the project it was built from', () => {
+    const { name, data } = readProjectArchive(buildProjectArchive('My Project', project));
+
+    expect(name).toBe('My Project');
+    expect(data).toEqual({
+      ...project,
+      characters: project.characters.map(c => ({ ...c, extraPhotos: c.extraPhotos ?? [] })),
+    });
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readProjectArchive(strToU8('not a zip'))).toThrow(/not a valid ZIP/);
+  });
+
+  it('rejects archives without a manifest', () => {
+    expect(() => readProjectArchive(zipSync({ 'image.png': new Uint8Array([1]) }))).toThrow(/no manifest/);
+  });
+
+  it('names the image a damaged archive is missing', () => {
+    const files = unzipSync(buildProjectArchive('My Project', project));
+    delete files['sets/01-hoa-showdown/v02.jpg'];
+
+    expect(() => readProjectArchive(zipSync(files))).toThrow('The archive is missing sets/01-hoa-showdown/v02.jpg.');
+  });
+
+  it.each([
+    ['a set without versions', (manifest: ProjectManifest) => { delete (manifest.imageSets[0] as Partial<ProjectManifest['imageSets'][number]>).versions; }],
+    ['a version without a file', (manifest: ProjectManifest) => { delete (manifest.imageSets[0].versions[1] as { file?: string }).file; }],
+    ['a region pass without a mask file', (manifest: ProjectManifest) => { manifest.imageSets[0].versions[1].provenance!.passes = [{} as never]; }],
+    ['a character whose photo is not an object', (manifest: ProjectManifest) => { (manifest.characters[0] as { photo: unknown }).photo = 'c1.png'; }],
+  ])('rejects a hand-edited manifest with %s', (_, edit) => {
+    const files = unzipSync(buildProjectArchive('My Project', project));
+    const manifest: ProjectManifest = JSON.parse(strFromU8(files['manifest.json']));
+    edit(manifest);
+    files['manifest.json'] = strToU8(JSON.stringify(manifest));
+
+    expect(() => readProjectArchive(zipSync(files))).toThrow('This archive is not a Thumbnail AI Editor project.');
+  });
+});
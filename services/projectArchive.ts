@@ -0,0 +1,319 @@
+// Packs a project into a ZIP of image files plus a JSON manifest, and reads such an archive back.
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { Character, GenerationProvenance, ImageSet, ImageLayer, Layer, RegionMask, RegionPass } from '../types';
+import type { ProjectData } from './projectStorage';
+import { getFileExtension } from './imageExport';
+
+const MANIFEST_FILE = 'manifest.json';
+const ARCHIVE_FORMAT = 'thumbnail-ai-editor-project';
+const ARCHIVE_VERSION = 5; // 2 added version layers, 3 added region passes, 4 added region masks, 5 added the style profile
+
+interface ManifestPhoto {
+  file: string;
+  mimeType: string;
+}
+
+interface ManifestImageLayer extends Omit<ImageLayer, 'base64' | 'maskBase64'> {
+  file: string;
+  maskFile: string | null;
+}
+
+type ManifestLayer = Exclude<Layer, ImageLayer> | ManifestImageLayer;
+
+interface ManifestRegionPass extends Omit<RegionPass, 'maskBase64'> {
+  maskFile: string;
+}
+
+interface ManifestRegionMask extends Omit<RegionMask, 'maskBase64'> {
+  maskFile: string;
+}
+
+interface ManifestVersion extends ManifestPhoto {
+  id: string;
+  label: string; // e.g. "V2", as shown in the version history
+  parentId: string | null;
+  provenance?: Omit<GenerationProvenance, 'maskBase64' | 'passes' | 'regionMasks'> & {
+    maskFile: string | null;
+    passes?: ManifestRegionPass[];
+    regionMasks?: ManifestRegionMask[];
+  };
+  layers?: ManifestLayer[];
+}
+
+interface ManifestCharacter extends Omit<Character, 'base64' | 'mimeType' | 'isLoading' | 'extraPhotos'> {
+  photo: ManifestPhoto | null;
+  extraPhotos: ManifestPhoto[];
+}
+
+export interface ProjectManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: number;
+  activeSetId: string | null;
+  activeVersionId: string | null;
+  styleProfileId?: string | null;
+  imageSets: { id: string; name: string; folder: string; versions: ManifestVersion[] }[];
+  characters: ManifestCharacter[];
+}
+
+const NOT_A_PROJECT_MESSAGE = "This archive is not a Thumbnail AI Editor project.";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringOrNull = (value: unknown): value is string | null | undefined =>
+  value == null || typeof value === 'string';
+
+const isArrayOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+
+const isManifestPhoto = (value: unknown): value is ManifestPhoto =>
+  isRecord(value) && typeof value.file === 'string' && typeof value.mimeType === 'string';
+
+const hasMaskFile = (value: unknown): value is { maskFile: string } =>
+  isRecord(value) && typeof value.maskFile === 'string';
+
+// Only the fields the importer reads files through, or maps over, are checked; the rest is kept as it was saved.
+const isManifestLayer = (value: unknown): value is ManifestLayer =>
+  isRecord(value) && typeof value.kind === 'string' &&
+  (value.kind !== 'image' || (isManifestPhoto(value) && isStringOrNull(value.maskFile)));
+
+const isManifestProvenance = (value: unknown): value is ManifestVersion['provenance'] =>
+  isRecord(value) && isStringOrNull(value.maskFile) &&
+  (value.passes === undefined || isArrayOf(value.passes, hasMaskFile)) &&
+  (value.regionMasks === undefined || isArrayOf(value.regionMasks, hasMaskFile));
+
+const isManifestVersion = (value: unknown): value is ManifestVersion =>
+  isRecord(value) && isManifestPhoto(value) && typeof value.id === 'string' && isStringOrNull(value.parentId) &&
+  (value.provenance === undefined || isManifestProvenance(value.provenance)) &&
+  (value.layers === undefined || isArrayOf(value.layers, isManifestLayer));
+
+const isManifestImageSet = (value: unknown): value is ProjectManifest['imageSets'][number] =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && isArrayOf(value.versions, isManifestVersion);
+
+const isManifestCharacter = (value: unknown): value is ManifestCharacter =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.slot === 'number' && typeof value.name === 'string' &&
+  (value.photo === null || isManifestPhoto(value.photo)) &&
+  (value.extraPhotos === undefined || isArrayOf(value.extraPhotos, isManifestPhoto));
+
+const isProjectManifest = (value: Record<string, unknown>): value is Record<string, unknown> & ProjectManifest =>
+  value.format === ARCHIVE_FORMAT && typeof value.version === 'number' && typeof value.name === 'string' &&
+  isStringOrNull(value.activeSetId) && isStringOrNull(value.activeVersionId) && isStringOrNull(value.styleProfileId) &&
+  isArrayOf(value.imageSets, isManifestImageSet) &&
+  (value.characters === undefined || isArrayOf(value.characters, isManifestCharacter));
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Keeps folder names readable in a file manager while staying safe on every OS.
+const toSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'set';
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1] ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunkSize = 0x8000; // Stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/**
+ * Packs every image set, version and character of a project into a ZIP archive.
+ * Images are stored uncompressed since PNG/JPEG data doesn't shrink further.
+ * @param {string} name The project name, recorded in the manifest.
+ * @param {ProjectData} data The project to export.
+ * @returns {Uint8Array} The ZIP file's bytes.
+ */
+export const buildProjectArchive = (name: string, data: ProjectData): Uint8Array => {
+  const files: Zippable = {};
+  const addFile = (path: string, dataUrl: string) => {
+    files[path] = [dataUrlToBytes(dataUrl), { level: 0 }];
+  };
+
+  const imageSets = data.imageSets.map((set, setIndex) => {
+    const folder = `sets/${pad(setIndex + 1)}-${toSlug(set.name)}`;
+    const versions = set.versions.map((version, versionIndex): ManifestVersion => {
+      const baseName = `${folder}/v${pad(versionIndex + 1)}`;
+      const file = `${baseName}.${getFileExtension(version.mimeType)}`;
+      addFile(file, version.base64);
+
+      let provenance: ManifestVersion['provenance'];
+      if (version.provenance) {
+        const { maskBase64, passes, regionMasks, ...rest } = version.provenance;
+        const maskFile = maskBase64 ? `${baseName}-mask.png` : null;
+        if (maskBase64 && maskFile) addFile(maskFile, maskBase64);
+        provenance = { ...rest, maskFile };
+        if (passes) {
+          provenance.passes = passes.map(({ maskBase64: passMask, ...pass }, passIndex) => {
+            const passMaskFile = `${baseName}-pass${pad(passIndex + 1)}-mask.png`;
+            addFile(passMaskFile, passMask);
+            return { ...pass, maskFile: passMaskFile };
+          });
+        }
+        if (regionMasks) {
+          provenance.regionMasks = regionMasks.map(({ maskBase64: regionMask, ...region }) => {
+            const regionMaskFile = `${baseName}-region${pad(region.id)}-mask.png`;
+            addFile(regionMaskFile, regionMask);
+            return { ...region, maskFile: regionMaskFile };
+          });
+        }
+      }
+      const layers = version.layers?.map((layer, layerIndex): ManifestLayer => {
+        if (layer.kind !== 'image') return layer;
+        const { base64, maskBase64, ...rest } = layer;
+        const layerName = `${baseName}-layer${pad(layerIndex + 1)}`;
+        const layerFile = `${layerName}.${getFileExtension(layer.mimeType)}`;
+        addFile(layerFile, base64);
+        const maskFile = maskBase64 ? `${layerName}-mask.png` : null;
+        if (maskBase64 && maskFile) addFile(maskFile, maskBase64);
+        return { ...rest, file: layerFile, maskFile };
+      });
+      return { id: version.id, label: `V${versionIndex + 1}`, parentId: version.parentId, file, mimeType: version.mimeType, provenance, layers };
+    });
+    return { id: set.id, name: set.name, folder, versions };
+  });
+
+  const characters = data.characters.map(({ base64, mimeType, isLoading, extraPhotos, ...rest }): ManifestCharacter => {
+    const baseName = `characters/c${rest.slot}`;
+    let photo: ManifestPhoto | null = null;
+    if (base64 && mimeType) {
+      photo = { file: `${baseName}.${getFileExtension(mimeType)}`, mimeType };
+      addFile(photo.file, base64);
+    }
+    const extras = (extraPhotos ?? []).map((extra, index) => {
+      const file = `${baseName}-${index + 2}.${getFileExtension(extra.mimeType)}`;
+      addFile(file, extra.base64);
+      return { file, mimeType: extra.mimeType };
+    });
+    return { ...rest, photo, extraPhotos: extras };
+  });
+
+  const manifest: ProjectManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    name,
+    exportedAt: Date.now(),
+    activeSetId: data.activeSetId,
+    activeVersionId: data.activeVersionId,
+    styleProfileId: data.styleProfileId,
+    imageSets,
+    characters,
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(files);
+};
+
+/**
+ * Reads a project archive made by buildProjectArchive.
+ * @param {Uint8Array} bytes The ZIP file's bytes.
+ * @returns The project name from the manifest and the reconstructed project data.
+ * @throws {Error} If the file is not a project archive or references missing files.
+ */
+export const readProjectArchive = (bytes: Uint8Array): { name: string; data: ProjectData } => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error("This file is not a valid ZIP archive.");
+  }
+
+  const manifestBytes = files[MANIFEST_FILE];
+  if (!manifestBytes) {
+    throw new Error("This archive has no manifest.json, so it wasn't exported from this app.");
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(manifestBytes));
+  } catch {
+    throw new Error("The archive's manifest.json is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== ARCHIVE_FORMAT) {
+    throw new Error(NOT_A_PROJECT_MESSAGE);
+  }
+  // Checked before the shape, which a newer version may have changed.
+  if (typeof parsed.version === 'number' && parsed.version > ARCHIVE_VERSION) {
+    throw new Error("This project was exported by a newer version of the app.");
+  }
+  if (!isProjectManifest(parsed)) {
+    throw new Error(NOT_A_PROJECT_MESSAGE);
+  }
+  const manifest = parsed;
+
+  const readFile = ({ file, mimeType }: ManifestPhoto): string => {
+    const fileBytes = files[file];
+    if (!fileBytes) {
+      throw new Error(`The archive is missing ${file}.`);
+    }
+    return bytesToDataUrl(fileBytes, mimeType);
+  };
+
+  const imageSets: ImageSet[] = manifest.imageSets.map(set => ({
+    id: set.id,
+    name: set.name,
+    versions: set.versions.map(version => {
+      let provenance: GenerationProvenance | undefined;
+      if (version.provenance) {
+        const { maskFile, passes, regionMasks, ...rest } = version.provenance;
+        provenance = { ...rest, maskBase64: maskFile ? readFile({ file: maskFile, mimeType: 'image/png' }) : null };
+        if (passes) {
+          provenance.passes = passes.map(({ maskFile: passMaskFile, ...pass }) => ({
+            ...pass,
+            maskBase64: readFile({ file: passMaskFile, mimeType: 'image/png' }),
+          }));
+        }
+        if (regionMasks) {
+          provenance.regionMasks = regionMasks.map(({ maskFile: regionMaskFile, ...region }) => ({
+            ...region,
+            maskBase64: readFile({ file: regionMaskFile, mimeType: 'image/png' }),
+          }));
+        }
+      }
+      return {
+        id: version.id,
+        parentId: version.parentId ?? null,
+        base64: readFile(version),
+        mimeType: version.mimeType,
+        provenance,
+        layers: version.layers?.map((layer): Layer => {
+          if (layer.kind !== 'image') return layer;
+          const { file, maskFile, ...rest } = layer;
+          return {
+            ...rest,
+            base64: readFile({ file, mimeType: layer.mimeType }),
+            maskBase64: maskFile ? readFile({ file: maskFile, mimeType: 'image/png' }) : null,
+          };
+        }),
+      };
+    }),
+  }));
+
+  const characters: Character[] = (manifest.characters ?? []).map(({ photo, extraPhotos, ...rest }) => ({
+    ...rest,
+    base64: photo ? readFile(photo) : null,
+    mimeType: photo?.mimeType ?? null,
+    isLoading: false,
+    extraPhotos: (extraPhotos ?? []).map(extra => ({ base64: readFile(extra), mimeType: extra.mimeType })),
+  }));
+
+  const hasActiveSet = imageSets.some(set => set.id === manifest.activeSetId);
+  return {
+    name: manifest.name || 'Imported Project',
+    data: {
+      imageSets,
+      characters,
+      activeSetId: hasActiveSet ? manifest.activeSetId : null,
+      activeVersionId: hasActiveSet ? manifest.activeVersionId : null,
+      styleProfileId: manifest.styleProfileId ?? null,
+    },
+  };
+};
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TINY_PNG_DATA_URL } from '../test/fixtures';
+import type { GenerationProvenance, ImageSet } from '../types';
+
+// An in-memory object store in place of IndexedDB, which jsdom doesn't have.
+const records = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('./database', async (importOriginal) => {
+  const store = {
+    get: (id: string) => ({ result: records.get(id) }),
+    getAll: () => ({ result: [...records.values()] }),
+    put: (record: { id: string }) => {
+      records.set(record.id, record);
+      return { result: record.id };
+    },
+    delete: (id: string) => ({ result: records.delete(id) }),
+  };
+  return {
+    ...(await importOriginal<typeof import('./database')>()),
+    runRequest: async <T>(_storeName: string, _mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>) =>
+      makeRequest(store as unknown as IDBObjectStore).result,
+  };
+});
+
+import { createProject, saveProject, loadProject } from './projectStorage';
+
+const MASK_DATA_URL = TINY_PNG_DATA_URL;
+
+const provenance: GenerationProvenance = {
+  operation: 'masked-edit',
+  userPrompt: 'edit both regions',
+  regionPrompts: [{ id: 1, prompt: 'a hat' }, { id: 2, prompt: 'a scarf' }],
+  submissionPrompt: 'full prompt',
+  maskBase64: MASK_DATA_URL,
+  characterIds: [],
+  model: 'test-model',
+  createdAt: 1,
+  durationMs: 2,
+  passes: [
+    { regionId: 1, prompt: 'a hat', maskBase64: MASK_DATA_URL, layerId: 'layer-1', submissionPrompt: 'hat prompt', durationMs: 1 },
+    { regionId: 2, prompt: 'a scarf', maskBase64: MASK_DATA_URL, layerId: null, submissionPrompt: 'scarf prompt', error: 'failed', durationMs: 1 },
+  ],
+  maskEncoding: 'per-region',
+  regionMasks: [{ id: 1, maskBase64: MASK_DATA_URL }, { id: 2, maskBase64: MASK_DATA_URL }],
+};
+
+const imageSets: ImageSet[] = [{
+  id: 'set-1',
+  name: 'Set',
+  versions: [{ id: 'v1', parentId: null, base64: TINY_PNG_DATA_URL, mimeType: 'image/png', provenance }],
+}];
+
+const findDataUrls = (value: unknown, path: string = 'record'): string[] => {
+  if (typeof value === 'string') return value.startsWith('data:') ? [path] : [];
+  if (typeof value !== 'object' || value === null || value instanceof Blob) return [];
+  return Object.entries(value).flatMap(([key, child]) => findDataUrls(child, `${path}.${key}`));
+};
+
+beforeEach(() => {
+  records.clear();
+});
+
+describe('saveProject and loadProject', () => {
+  it('stores every mask as a Blob and restores the same data URLs', async () => {
+    const { id } = await createProject('Masks');
+    await saveProject(id, { imageSets, characters: [], activeSetId: 'set-1', activeVersionId: 'v1', styleProfileId: null });
+
+    expect(findDataUrls(records.get(id))).toEqual([]);
+
+    const loaded = await loadProject(id);
+    expect(loaded?.imageSets[0].versions[0].provenance).toEqual(provenance);
+  });
+});
@@ -0,0 +1,276 @@
+// This service persists projects (image sets, versions and characters) in the browser's IndexedDB.
+import { ImageSet, Character, ProjectSummary, GenerationProvenance, Layer, ImageLayer, RegionPass, RegionMask } from '../types';
+import { PROJECTS_STORE, runRequest as runStoreRequest, dataUrlToBlob, blobToDataUrl, StoredPhoto, toStoredPhoto, fromStoredPhoto } from './database';
+
+const LAST_PROJECT_STORAGE_KEY = 'last-project-id';
+
+interface StoredRegionPass extends Omit<RegionPass, 'maskBase64'> {
+  maskBlob: Blob;
+}
+
+interface StoredRegionMask {
+  id: RegionMask['id'];
+  maskBlob: Blob;
+}
+
+interface StoredProvenance extends Omit<GenerationProvenance, 'maskBase64' | 'passes' | 'regionMasks'> {
+  maskBlob: Blob | null;
+  passes?: StoredRegionPass[];
+  regionMasks?: StoredRegionMask[];
+}
+
+interface StoredImageLayer extends Omit<ImageLayer, 'base64' | 'maskBase64'> {
+  blob: Blob;
+  maskBlob: Blob | null;
+}
+
+type StoredLayer = Exclude<Layer, ImageLayer> | StoredImageLayer;
+
+interface StoredImageVersion {
+  id: string;
+  parentId?: string | null; // Absent on versions saved before lineage was tracked
+  blob: Blob;
+  mimeType: string;
+  provenance?: StoredProvenance;
+  layers?: StoredLayer[];
+}
+
+interface StoredImageSet {
+  id: string;
+  name: string;
+  versions: StoredImageVersion[];
+}
+
+interface StoredCharacter {
+  id: Character['id'];
+  slot?: number; // Absent on characters saved when there were only two fixed slots
+  name: string;
+  roleName?: string;
+  blob: Blob | null;
+  mimeType: string | null;
+  definition: string | null;
+  isAnalyzed: boolean;
+  libraryId?: string;
+  extraPhotos?: StoredPhoto[];
+}
+
+interface StoredProject extends ProjectSummary {
+  styleProfileId?: string | null; // Absent on projects saved before style profiles
+  activeSetId: string | null;
+  activeVersionId: string | null;
+  imageSets: StoredImageSet[];
+  characters: StoredCharacter[];
+}
+
+export interface ProjectData {
+  imageSets: ImageSet[];
+  characters: Character[];
+  activeSetId: string | null;
+  activeVersionId: string | null;
+  styleProfileId: string | null; // null to use the first style profile
+}
+
+export interface Project extends ProjectSummary, ProjectData {}
+
+const runRequest = <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runStoreRequest(PROJECTS_STORE, mode, makeRequest);
+
+const toStoredRegionPass = ({ maskBase64, ...rest }: RegionPass): StoredRegionPass => ({
+  ...rest,
+  maskBlob: dataUrlToBlob(maskBase64),
+});
+
+const fromStoredRegionPass = async ({ maskBlob, ...rest }: StoredRegionPass): Promise<RegionPass> => ({
+  ...rest,
+  maskBase64: await blobToDataUrl(maskBlob),
+});
+
+const toStoredProvenance = ({ maskBase64, passes, regionMasks, ...rest }: GenerationProvenance): StoredProvenance => ({
+  ...rest,
+  maskBlob: maskBase64 ? dataUrlToBlob(maskBase64) : null,
+  passes: passes?.map(toStoredRegionPass),
+  regionMasks: regionMasks?.map(({ id, maskBase64 }) => ({ id, maskBlob: dataUrlToBlob(maskBase64) })),
+});
+
+const fromStoredProvenance = async ({ maskBlob, passes, regionMasks, ...rest }: StoredProvenance): Promise<GenerationProvenance> => ({
+  ...rest,
+  maskBase64: maskBlob ? await blobToDataUrl(maskBlob) : null,
+  passes: passes ? await Promise.all(passes.map(fromStoredRegionPass)) : undefined,
+  regionMasks: regionMasks
+    ? await Promise.all(regionMasks.map(async ({ id, maskBlob }) => ({ id, maskBase64: await blobToDataUrl(maskBlob) })))
+    : undefined,
+});
+
+const toStoredLayer = (layer: Layer): StoredLayer => {
+  if (layer.kind !== 'image') return layer;
+  const { base64, maskBase64, ...rest } = layer;
+  return { ...rest, blob: dataUrlToBlob(base64), maskBlob: maskBase64 ? dataUrlToBlob(maskBase64) : null };
+};
+
+const fromStoredLayer = async (layer: StoredLayer): Promise<Layer> => {
+  if (layer.kind !== 'image') return layer;
+  const { blob, maskBlob, ...rest } = layer;
+  return { ...rest, base64: await blobToDataUrl(blob), maskBase64: maskBlob ? await blobToDataUrl(maskBlob) : null };
+};
+
+const toSummary = ({ id, name, createdAt, updatedAt }: ProjectSummary): ProjectSummary => ({ id, name, createdAt, updatedAt });
+
+/**
+ * Lists all saved projects, most recently updated first.
+ * @returns {Promise<ProjectSummary[]>} The project summaries, without image data.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<StoredProject[]>('readonly', store => store.getAll());
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Creates and saves a new, empty project.
+ * @param {string} name The display name of the project.
+ * @returns {Promise<ProjectSummary>} The summary of the created project.
+ */
+export const createProject = async (name: string): Promise<ProjectSummary> => {
+  const now = Date.now();
+  const project: StoredProject = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    activeSetId: null,
+    activeVersionId: null,
+    imageSets: [],
+    characters: [],
+  };
+  await runRequest('readwrite', store => store.put(project));
+  return toSummary(project);
+};
+
+/**
+ * Loads a project and converts its stored Blobs back into data URLs.
+ * @param {string} id The project id.
+ * @returns {Promise<Project | null>} The project, or null if it does not exist.
+ */
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const stored = await runRequest<StoredProject | undefined>('readonly', store => store.get(id));
+  if (!stored) return null;
+
+  const imageSets: ImageSet[] = await Promise.all(stored.imageSets.map(async set => ({
+    id: set.id,
+    name: set.name,
+    versions: await Promise.all(set.versions.map(async version => ({
+      id: version.id,
+      parentId: version.parentId ?? null,
+      base64: await blobToDataUrl(version.blob),
+      mimeType: version.mimeType,
+      provenance: version.provenance ? await fromStoredProvenance(version.provenance) : undefined,
+      layers: version.layers ? await Promise.all(version.layers.map(fromStoredLayer)) : undefined,
+    }))),
+  })));
+
+  const characters: Character[] = await Promise.all(stored.characters.map(async (char, index) => ({
+    id: char.id,
+    slot: char.slot ?? (parseInt(char.id.replace(/\D/g, ''), 10) || index + 1),
+    name: char.name,
+    roleName: char.roleName,
+    base64: char.blob ? await blobToDataUrl(char.blob) : null,
+    mimeType: char.mimeType,
+    definition: char.definition,
+    isLoading: false,
+    isAnalyzed: char.isAnalyzed,
+    libraryId: char.libraryId,
+    extraPhotos: await Promise.all((char.extraPhotos ?? []).map(fromStoredPhoto)),
+  })));
+
+  return {
+    ...toSummary(stored),
+    activeSetId: stored.activeSetId,
+    activeVersionId: stored.activeVersionId,
+    styleProfileId: stored.styleProfileId ?? null,
+    imageSets,
+    characters,
+  };
+};
+
+/**
+ * Saves the working state of an existing project, replacing what was stored before.
+ * @param {string} id The project id.
+ * @param {ProjectData} data The image sets, characters and selection to save.
+ * @throws {Error} If the project does not exist.
+ */
+export const saveProject = async (id: string, data: ProjectData): Promise<void> => {
+  const existing = await runRequest<StoredProject | undefined>('readonly', store => store.get(id));
+  if (!existing) {
+    throw new Error("The project you are trying to save no longer exists.");
+  }
+
+  const project: StoredProject = {
+    ...toSummary(existing),
+    updatedAt: Date.now(),
+    styleProfileId: data.styleProfileId,
+    activeSetId: data.activeSetId,
+    activeVersionId: data.activeVersionId,
+    imageSets: data.imageSets.map(set => ({
+      id: set.id,
+      name: set.name,
+      versions: set.versions.map(version => ({
+        id: version.id,
+        parentId: version.parentId,
+        blob: dataUrlToBlob(version.base64),
+        mimeType: version.mimeType,
+        provenance: version.provenance ? toStoredProvenance(version.provenance) : undefined,
+        layers: version.layers?.map(toStoredLayer),
+      })),
+    })),
+    characters: data.characters.map(char => ({
+      id: char.id,
+      slot: char.slot,
+      name: char.name,
+      roleName: char.roleName,
+      blob: char.base64 ? dataUrlToBlob(char.base64) : null,
+      mimeType: char.mimeType,
+      definition: char.definition,
+      isAnalyzed: char.isAnalyzed,
+      libraryId: char.libraryId,
+      extraPhotos: (char.extraPhotos ?? []).map(toStoredPhoto),
+    })),
+  };
+  await runRequest('readwrite', store => store.put(project));
+};
+
+/**
+ * Renames a project.
+ * @param {string} id The project id.
+ * @param {string} name The new display name.
+ */
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const existing = await runRequest<StoredProject | undefined>('readonly', store => store.get(id));
+  if (!existing || !name.trim()) return;
+  await runRequest('readwrite', store => store.put({ ...existing, name: name.trim(), updatedAt: Date.now() }));
+};
+
+/**
+ * Deletes a project and all of its stored images.
+ * @param {string} id The project id.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) {
+    localStorage.removeItem(LAST_PROJECT_STORAGE_KEY);
+  }
+};
+
+/**
+ * Retrieves the id of the project that was open in the last session.
+ * @returns {string | null} The project id, if one was recorded.
+ */
+export const getLastProjectId = (): string | null => {
+  return localStorage.getItem(LAST_PROJECT_STORAGE_KEY);
+};
+
+/**
+ * Records the currently open project so it can be restored on the next load.
+ * @param {string} id The project id.
+ */
+export const setLastProjectId = (id: string): void => {
+  localStorage.setItem(LAST_PROJECT_STORAGE_KEY, id);
+};
@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SYSTEM_TEMPLATES,
+  DEFAULT_PROMPT_PRESETS,
+  getTemplateVariables,
+  renderTemplate,
+  getPromptLibrary,
+  savePromptLibrary,
+  exportPromptLibrary,
+  parsePromptLibrary,
+  buildGeneratePrompt,
+  buildMaskedEditPrompt,
+  getRoleNotes,
+} from './promptTemplates';
+import type { EncodedMask } from './imageProvider';
+import { DEFAULT_STYLE_PROFILE } from './styleProfiles';
+import { getTargetFormat } from './targetFormats';
+
+beforeEach(() => localStorage.clear());
+
+describe('getTemplateVariables and renderTemplate', () => {
+  it('lists each variable once, in order', () => {
+    expect(getTemplateVariables('{{a}} and {{ b }} then {{a}}')).toEqual(['a', 'b']);
+  });
+
+  it('fills in the variables and leaves unknown ones as they are', () => {
+    expect(renderTemplate('Point at {{ target }} in {{color}}', { target: 'the car' })).toBe('Point at the car in {{color}}');
+  });
+
+  it('fills a variable with text that looks like another variable only once', () => {
+    expect(renderTemplate('{{a}}', { a: '{{b}}', b: 'no' })).toBe('{{b}}');
+  });
+});
+
+describe('prompt library storage', () => {
+  it('starts from the built-in templates and presets', () => {
+    const library = getPromptLibrary();
+
+    expect(library.templates.generate).toBe(SYSTEM_TEMPLATES.generate.text);
+    expect(library.presets).toEqual(DEFAULT_PROMPT_PRESETS);
+  });
+
+  it("fills in the channel's style", () => {
+    const prompt = buildGeneratePrompt('a cat', { ...DEFAULT_STYLE_PROFILE, visualStyle: 'Flat pastel illustration.', palette: ['#FFC0CB'], forbiddenWords: ['shocking'] }, getTargetFormat('youtube-thumbnail'));
+
+    expect(prompt).toContain('in this style: Flat pastel illustration. Favor this color palette: #FFC0CB. Any text in the image must not use these words: shocking.');
+    expect(prompt).toContain('"a cat"');
+  });
+
+  it('asks for the picked format', () => {
+    expect(buildGeneratePrompt('a cat', DEFAULT_STYLE_PROFILE, getTargetFormat('shorts-cover')))
+      .toMatch(/"a cat"\. Make it a shorts cover in 9:16 aspect ratio\. Keep faces/);
+  });
+
+  it('uses an edited template for the prompts it builds', () => {
+    savePromptLibrary({ ...getPromptLibrary(), templates: { ...getPromptLibrary().templates, generate: 'Comic style: {{prompt}}' } });
+
+    expect(buildGeneratePrompt('a cat', DEFAULT_STYLE_PROFILE, getTargetFormat('youtube-thumbnail'))).toBe('Comic style: a cat');
+  });
+
+  it('round-trips through export and import', () => {
+    const library = { ...getPromptLibrary(), presets: [{ id: 'p1', name: 'Mine', text: 'Do {{thing}}' }] };
+
+    expect(parsePromptLibrary(exportPromptLibrary(library))).toEqual(library);
+  });
+
+  it('fills templates missing from an import with the built-ins and drops broken presets', () => {
+    const imported = parsePromptLibrary(JSON.stringify({
+      format: 'thumbnail-ai-editor-prompts',
+      templates: { generate: 'Just {{prompt}}', unknown: 'x' },
+      presets: [{ name: 'Ok', text: 'Fine' }, { name: 3 }],
+    }));
+
+    expect(imported.templates.generate).toBe('Just {{prompt}}');
+    expect(imported.templates['masked-edit']).toBe(SYSTEM_TEMPLATES['masked-edit'].text);
+    expect(imported.templates).not.toHaveProperty('unknown');
+    expect(imported.presets).toHaveLength(1);
+    expect(imported.presets[0]).toMatchObject({ name: 'Ok', text: 'Fine' });
+  });
+
+  it('rejects files that are not an exported library', () => {
+    expect(() => parsePromptLibrary('not json')).toThrow("This file isn't valid JSON.");
+    expect(() => parsePromptLibrary('{"templates": {}}')).toThrow("This file isn't an exported prompt library.");
+  });
+});
+
+describe('buildMaskedEditPrompt', () => {
+  const mask = (encoding: EncodedMask['encoding'], withRegions = true): EncodedMask => ({
+    encoding,
+    mask: { base64: 'MASK', mimeType: 'image/png' },
+    guides: [],
+    width: 64,
+    height: 48,
+    regions: withRegions
+      ? [{ id: 1, bbox: { x: 4, y: 6, width: 20, height: 10 }, ...(encoding === 'index-map' ? { color: 'red #FF0000' } : { maskIndex: 1 }) }]
+      : [],
+  });
+
+  it('wraps the tasks in the masking rules with the region map and bounding boxes', () => {
+    const prompt = buildMaskedEditPrompt('- **Region 1:** Make it red', mask('index-map'));
+
+    expect(prompt).toContain('**--- EDITING TASKS ---**\n- **Region 1:** Make it red');
+    expect(prompt).toContain('a region map that paints each numbered region in its own color');
+    expect(prompt).toContain('"mapColor": "red #FF0000"');
+    expect(prompt).toContain('"boundingBox": {\n        "x": 4');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('points each region at its own mask when sending one mask per region', () => {
+    const prompt = buildMaskedEditPrompt('- **Region 1:** Make it red', mask('per-region'));
+
+    expect(prompt).toContain('one black and white mask per numbered region');
+    expect(prompt).toContain('"maskImage": 1');
+    expect(prompt).not.toContain('mapColor');
+  });
+
+  it('leaves out the regions block when the regions are unknown', () => {
+    const prompt = buildMaskedEditPrompt('- **Region 1:** Make it red', mask('index-map', false));
+
+    expect(prompt).not.toContain('REGIONS');
+    expect(prompt).toContain('Every task applies to the white areas of the mask.');
+  });
+});
+
+describe('getRoleNotes', () => {
+  it("adds the built-in note to roles containing its keyword", () => {
+    expect(getRoleNotes('HOA woman')).toEqual([SYSTEM_TEMPLATES['role-notes'].text.split(': ')[1]]);
+    expect(getRoleNotes('Homeowner')).toEqual([]);
+  });
+
+  it('reads one "keyword: note" rule per line and skips lines without one', () => {
+    savePromptLibrary({ ...getPromptLibrary(), templates: { ...getPromptLibrary().templates, 'role-notes': 'boss: Wears a suit.\nnot a rule\nBOSS: Looks angry.' } });
+
+    expect(getRoleNotes('The Boss')).toEqual(['Wears a suit.', 'Looks angry.']);
+  });
+});
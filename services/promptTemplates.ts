@@ -0,0 +1,284 @@
+// The prompt text the app wraps around what the user writes, as editable templates with {{variables}},
+// plus the user's own reusable prompt presets. Both live in localStorage and are shared by every project.
+import type { EncodedMask } from './imageProvider';
+import type { StyleProfile } from '../types';
+import { describeMaskRegions } from './maskEncoding';
+import { describeImageStyle } from './styleProfiles';
+import { TargetFormat, describeTargetFormat } from './targetFormats';
+
+const PROMPT_LIBRARY_STORAGE_KEY = 'prompt-library';
+const PROMPT_LIBRARY_FORMAT = 'thumbnail-ai-editor-prompts';
+
+export type SystemTemplateId =
+  | 'generate'
+  | 'next-scene'
+  | 'masked-edit'
+  | 'edit-style'
+  | 'outpaint'
+  | 'text-overlay-generate'
+  | 'text-overlay-edit'
+  | 'role-notes';
+
+export interface SystemTemplate {
+  name: string;
+  description: string;
+  variables: string[]; // The {{variables}} the app fills in
+  text: string; // The built-in text
+}
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  text: string; // May contain {{variables}} the user fills in when inserting it
+}
+
+export interface PromptLibrary {
+  templates: Record<SystemTemplateId, string>;
+  presets: PromptPreset[];
+}
+
+export const SYSTEM_TEMPLATES: Record<SystemTemplateId, SystemTemplate> = {
+  'generate': {
+    name: 'Image generation',
+    description: "Wraps every prompt used to generate a new image. {{style}} is the project's channel style and {{format}} the picked format and aspect ratio.",
+    variables: ['style', 'prompt', 'format'],
+    text: `Generate an image in this style: {{style}} The user's creative request is: "{{prompt}}". {{format}}`,
+  },
+  'next-scene': {
+    name: 'Next scene',
+    description: 'Used for the next scene when characters have definitions; the result then goes through image generation.',
+    variables: ['definitions', 'prompt'],
+    text: `{{definitions}} The setting and background should be consistent with the previous scene unless otherwise specified. \n\nUser request: "{{prompt}}"`,
+  },
+  'masked-edit': {
+    name: 'Masked edit rules',
+    description: 'Wraps the numbered region tasks of a masked edit.',
+    variables: ['maskImages', 'regionRule', 'regions', 'tasks'],
+    text: `You are an expert AI photo editor. You have been provided with an original image, {{maskImages}}, and a list of numbered tasks. Your job is to perform the edits described in the numbered list below. Apply each edit ONLY to its own region of the mask when applied to the original image.
+
+**RULES:**
+1.  **Strictly Adhere to Mask:** Modify ONLY the areas of the original image that correspond to the white areas on the black and white mask image. All black areas must remain untouched.
+2.  {{regionRule}}
+3.  **Seamless Integration:** Your edits must be photorealistic and blend perfectly with the original image's lighting, shadows, and style.
+4.  **Execute All Tasks:** You must complete every task in the list.
+5.  **Final Output:** The final image you generate must be the fully edited original image. It must NOT contain the mask, the region colors, outlines or any numbers.
+{{regions}}
+**--- EDITING TASKS ---**
+{{tasks}}
+**--- END OF TASKS ---**
+
+Now, generate the final, edited image by following all rules precisely.`,
+  },
+  'edit-style': {
+    name: 'Channel style for edits',
+    description: "Added to every edit so new content matches the project's channel style.",
+    variables: ['style'],
+    text: `Anything you add or change must match the channel's style: {{style}}`,
+  },
+  'outpaint': {
+    name: 'Reframe and extend',
+    description: 'The task for the area added around an image when it is reframed or its canvas is extended; sent with the masked edit rules.',
+    variables: [],
+    text: `- **Extend the image:** Fill the white areas of the mask by continuing the scene outward, as if the camera had captured a wider frame. Match the existing background, lighting, perspective and grain so the result looks like one uncropped photo. Do not add new people, text or logos.`,
+  },
+  'text-overlay-generate': {
+    name: 'Text in a generated image',
+    description: 'Added to a generation prompt when a text suggestion is picked.',
+    variables: ['suggestion'],
+    text: `{{suggestion}}
+
+IMPORTANT INSTRUCTION: When generating the image, you MUST include the requested text. Ensure the text does not cover or obscure the faces or bodies of any people. Intelligently adjust the composition, slightly shifting subjects or extending the background, to create a clean, non-obtrusive space for the text while preserving the scene's core elements, characters, and poses.`,
+  },
+  'text-overlay-edit': {
+    name: 'Text added by an edit',
+    description: 'Added to an unmasked edit that asks to add text.',
+    variables: [],
+    text: `IMPORTANT INSTRUCTION: When adding the text as requested, you MUST ensure it does not cover or obscure the faces or bodies of any people in the image. If necessary, intelligently adjust the image composition, for example by slightly shifting or scaling the subjects or extending the background, to create a clean, non-obtrusive space for the text. The overall scene, characters' expressions, and poses must be preserved.`,
+  },
+  'role-notes': {
+    name: 'Character role notes',
+    description: 'One note per line as "keyword: note". When definitions are injected into a prompt, a character whose role contains the keyword gets the note added.',
+    variables: [],
+    text: `hoa: The woman MUST be wearing a prominent, stylish red outfit, like a red blazer or dress suit.`,
+  },
+};
+
+export const DEFAULT_PROMPT_PRESETS: PromptPreset[] = [
+  {
+    id: 'reaction-face-swap',
+    name: 'Reaction face swap',
+    text: 'Replace the face of {{person}} with [C1], keeping their pose, and give them a {{emotion}} expression.',
+  },
+  {
+    id: 'add-red-arrow',
+    name: 'Add red arrow',
+    text: 'Add a thick, bright red arrow with a white outline pointing at {{target}}.',
+  },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Lists the variables a template uses, each once, in the order they first appear.
+ * @param {string} text The template text.
+ * @returns {string[]} The variable names.
+ */
+export const getTemplateVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+/**
+ * Fills a template's {{variables}}. Variables without a value are left as they are, so a preview shows what's missing.
+ * @param {string} text The template text.
+ * @param {Record<string, string>} values The value for each variable.
+ * @returns {string} The filled-in text.
+ */
+export const renderTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (match, name: string) => values[name] ?? match);
+
+const getDefaultLibrary = (): PromptLibrary => ({
+  templates: Object.fromEntries(
+    Object.entries(SYSTEM_TEMPLATES).map(([id, template]) => [id, template.text])
+  ) as Record<SystemTemplateId, string>,
+  presets: DEFAULT_PROMPT_PRESETS,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPresetData = (value: unknown): value is { id?: unknown; name: string; text: string } =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.text === 'string';
+
+// Keeps what's valid from stored or imported data and fills the rest from the built-ins.
+const normalizeLibrary = (data: unknown): PromptLibrary => {
+  const defaults = getDefaultLibrary();
+  const templates = { ...defaults.templates };
+  const storedTemplates = isRecord(data) && isRecord(data.templates) ? data.templates : {};
+  (Object.keys(SYSTEM_TEMPLATES) as SystemTemplateId[]).forEach(id => {
+    const text = storedTemplates[id];
+    if (typeof text === 'string') templates[id] = text;
+  });
+  const presets = isRecord(data) && Array.isArray(data.presets)
+    ? data.presets
+        .filter(isPresetData)
+        .map((p): PromptPreset => ({ id: typeof p.id === 'string' ? p.id : crypto.randomUUID(), name: p.name, text: p.text }))
+    : defaults.presets;
+  return { templates, presets };
+};
+
+/**
+ * Retrieves the prompt library, with the built-in text for any template that was never edited.
+ * @returns {PromptLibrary} The templates and presets.
+ */
+export const getPromptLibrary = (): PromptLibrary => {
+  try {
+    const raw = localStorage.getItem(PROMPT_LIBRARY_STORAGE_KEY);
+    return raw ? normalizeLibrary(JSON.parse(raw)) : getDefaultLibrary();
+  } catch (error) {
+    console.error("Failed to parse the prompt library from localStorage:", error);
+    return getDefaultLibrary();
+  }
+};
+
+/**
+ * Saves the prompt library.
+ * @param {PromptLibrary} library The templates and presets.
+ */
+export const savePromptLibrary = (library: PromptLibrary): void => {
+  localStorage.setItem(PROMPT_LIBRARY_STORAGE_KEY, JSON.stringify(library));
+};
+
+/**
+ * Serializes the prompt library for sharing.
+ * @param {PromptLibrary} library The templates and presets.
+ * @returns {string} The JSON to save as a file.
+ */
+export const exportPromptLibrary = (library: PromptLibrary): string =>
+  JSON.stringify({ format: PROMPT_LIBRARY_FORMAT, version: 1, ...library }, null, 2);
+
+/**
+ * Reads an exported prompt library. Templates it doesn't have keep their built-in text.
+ * @param {string} json The file's contents.
+ * @returns {PromptLibrary} The templates and presets.
+ * @throws {Error} If the file isn't an exported prompt library.
+ */
+export const parsePromptLibrary = (json: string): PromptLibrary => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PROMPT_LIBRARY_FORMAT) {
+    throw new Error("This file isn't an exported prompt library.");
+  }
+  return normalizeLibrary(data);
+};
+
+const getTemplate = (id: SystemTemplateId) => getPromptLibrary().templates[id];
+
+/** Wraps a prompt in the image generation template, in the channel's style and the picked format. */
+export const buildGeneratePrompt = (prompt: string, style: StyleProfile, format: TargetFormat): string =>
+  renderTemplate(getTemplate('generate'), { prompt, style: describeImageStyle(style), format: describeTargetFormat(format) });
+
+/** Gets the task sent for the area added around an image when outpainting. */
+export const buildOutpaintTask = (): string => getTemplate('outpaint');
+
+/** Adds the channel's style to an edit's prompt. */
+export const addStyleToEditPrompt = (prompt: string, style: StyleProfile): string =>
+  `${prompt}\n\n${renderTemplate(getTemplate('edit-style'), { style: describeImageStyle(style) })}`;
+
+/** Wraps a next scene request with the characters' definitions. */
+export const buildNextScenePrompt = (definitions: string, prompt: string): string =>
+  renderTemplate(getTemplate('next-scene'), { definitions, prompt });
+
+/** Adds a picked text suggestion, with its placement instruction, to a generation prompt. */
+export const addTextOverlayToGeneratePrompt = (prompt: string, suggestion: string): string =>
+  `${prompt}\n\n${renderTemplate(getTemplate('text-overlay-generate'), { suggestion })}`;
+
+/** Adds the text placement instruction to an edit that asks for text. */
+export const addTextOverlayToEditPrompt = (prompt: string): string =>
+  `${prompt}\n\n${getTemplate('text-overlay-edit')}`;
+
+/**
+ * Finds the role notes that apply to a character.
+ * @param {string} roleName The character's role, e.g. "HOA woman".
+ * @returns {string[]} The notes whose keyword appears in the role, case-insensitively.
+ */
+export const getRoleNotes = (roleName: string): string[] =>
+  getTemplate('role-notes').split('\n').flatMap(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return [];
+    const keyword = line.slice(0, separator).trim().toLowerCase();
+    const note = line.slice(separator + 1).trim();
+    return keyword && note && roleName.toLowerCase().includes(keyword) ? [note] : [];
+  });
+
+// What the images after the original one are, for each way of encoding the regions.
+const MASK_IMAGE_DESCRIPTIONS: Record<EncodedMask['encoding'], string> = {
+  'index-map': 'a black and white mask image of every area to edit, and a region map that paints each numbered region in its own color on black',
+  'per-region': 'a black and white mask image of every area to edit, and then one black and white mask per numbered region',
+};
+
+const MASK_REGION_RULES: Record<EncodedMask['encoding'], string> = {
+  'index-map': "**Match Regions to Tasks:** Each task's region is the area painted in its map color on the region map, within the bounding box given below.",
+  'per-region': "**Match Regions to Tasks:** Each task's region is the white area of its own mask image (maskImage below, counting the per-region masks from 1), within the bounding box given below.",
+};
+
+/**
+ * Wraps the numbered region tasks of a masked edit in the masked edit template, describing the mask
+ * images in the order they're sent and listing each region's bounding box as JSON.
+ * @param {string} tasks The numbered region tasks.
+ * @param {EncodedMask} mask The mask as it will be sent.
+ * @returns {string} The prompt to send.
+ */
+export const buildMaskedEditPrompt = (tasks: string, mask: EncodedMask): string => {
+  const hasRegions = mask.regions.length > 0;
+  return renderTemplate(getTemplate('masked-edit'), {
+    maskImages: hasRegions ? MASK_IMAGE_DESCRIPTIONS[mask.encoding] : 'a black and white mask image',
+    regionRule: hasRegions ? MASK_REGION_RULES[mask.encoding] : '**Apply Tasks to the Mask:** Every task applies to the white areas of the mask.',
+    regions: hasRegions
+      ? `\n**--- REGIONS (bounding boxes in pixels of the original image) ---**\n${describeMaskRegions(mask)}\n**--- END OF REGIONS ---**\n`
+      : '',
+    tasks,
+  });
+};
@@ -0,0 +1,128 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_STYLE_PROFILE,
+  listStyleProfiles,
+  saveStyleProfile,
+  deleteStyleProfile,
+  createStyleProfile,
+  findStyleProfile,
+  describeImageStyle,
+  applyTextCase,
+  findForbiddenWords,
+  applyStyleToSuggestions,
+} from './styleProfiles';
+import { StyleProfile, TextSuggestion } from '../types';
+
+const calm: StyleProfile = {
+  id: 'calm',
+  name: 'Calm explainer',
+  visualStyle: 'Soft daylight photo, relaxed mood.',
+  palette: ['#2E86AB', '#FFFFFF'],
+  fonts: ['Anton'],
+  headlineTone: 'Friendly and curious.',
+  textCase: 'title',
+  forbiddenWords: ['insane', 'gone wrong'],
+};
+
+const suggestion = (overrides: Partial<TextSuggestion> = {}): TextSuggestion => ({
+  headline: 'WHY IT WORKS',
+  anchor: 'top',
+  fontFamily: 'Impact',
+  fill: '#FFFFFF',
+  strokeColor: '#000000',
+  strokeWidth: 8,
+  shadow: false,
+  rationale: '',
+  ...overrides,
+});
+
+beforeEach(() => localStorage.clear());
+
+describe('style profile storage', () => {
+  it('offers the built-in profile until one is saved', () => {
+    expect(listStyleProfiles()).toEqual([DEFAULT_STYLE_PROFILE]);
+  });
+
+  it('adds new profiles and replaces saved ones by id', () => {
+    saveStyleProfile(DEFAULT_STYLE_PROFILE);
+    saveStyleProfile(calm);
+    const profiles = saveStyleProfile({ ...calm, name: 'Renamed' });
+
+    expect(profiles.map(p => p.name)).toEqual(['Cinematic drama', 'Renamed']);
+    expect(listStyleProfiles()).toEqual(profiles);
+  });
+
+  it('falls back to the built-in profile when the last one is deleted', () => {
+    saveStyleProfile(calm);
+
+    expect(deleteStyleProfile('cinematic-drama')).toEqual([calm]);
+    expect(deleteStyleProfile('calm')).toEqual([DEFAULT_STYLE_PROFILE]);
+  });
+
+  it('drops invalid colors and fonts from stored profiles', () => {
+    localStorage.setItem('style-profiles', JSON.stringify([{ ...calm, palette: ['#abc', 'blue'], fonts: ['Anton', 'Comic Sans'], textCase: 'shouting' }, { name: 'No id' }]));
+
+    expect(listStyleProfiles()).toEqual([{ ...calm, palette: ['#ABC'], fonts: ['Anton'], textCase: 'any' }]);
+  });
+
+  it('creates new profiles from the default look with their own id', () => {
+    const profile = createStyleProfile('Gaming');
+
+    expect(profile).toMatchObject({ name: 'Gaming', visualStyle: DEFAULT_STYLE_PROFILE.visualStyle });
+    expect(profile.id).not.toBe(DEFAULT_STYLE_PROFILE.id);
+  });
+
+  it("uses the first profile for projects whose profile is missing", () => {
+    expect(findStyleProfile([calm, DEFAULT_STYLE_PROFILE], 'cinematic-drama')).toBe(DEFAULT_STYLE_PROFILE);
+    expect(findStyleProfile([calm, DEFAULT_STYLE_PROFILE], 'deleted')).toBe(calm);
+    expect(findStyleProfile([calm], null)).toBe(calm);
+  });
+});
+
+describe('describeImageStyle', () => {
+  it('combines the visual style, palette and forbidden words', () => {
+    expect(describeImageStyle(calm)).toBe('Soft daylight photo, relaxed mood. Favor this color palette: #2E86AB, #FFFFFF. Any text in the image must not use these words: insane, gone wrong.');
+  });
+
+  it('leaves out what the profile does not set', () => {
+    expect(describeImageStyle({ ...calm, palette: [], forbiddenWords: [] })).toBe('Soft daylight photo, relaxed mood.');
+  });
+});
+
+describe('applyTextCase', () => {
+  it.each([
+    ['upper', "you're done", "YOU'RE DONE"],
+    ['title', 'SHE LOST "EVERYTHING" (AGAIN)', 'She Lost "Everything" (Again)'],
+    ['title', "YOU'RE DONE", "You're Done"],
+    ['sentence', 'SHE LOST EVERYTHING!', 'She lost everything!'],
+    ['any', 'Keep It', 'Keep It'],
+  ] as const)('writes %s case', (textCase, text, expected) => {
+    expect(applyTextCase(text, textCase)).toBe(expected);
+  });
+});
+
+describe('findForbiddenWords', () => {
+  it('matches whole words and phrases, ignoring case', () => {
+    expect(findForbiddenWords('PRANK GONE WRONG!', calm)).toEqual(['gone wrong']);
+    expect(findForbiddenWords('Insanely good', calm)).toEqual([]);
+  });
+});
+
+describe('applyStyleToSuggestions', () => {
+  it("drops forbidden headlines and fits the rest to the channel's case and fonts", () => {
+    const result = applyStyleToSuggestions([
+      suggestion({ headline: 'THIS IS INSANE' }),
+      suggestion({ headline: 'WHY IT WORKS', fontFamily: 'Impact' }),
+      suggestion({ headline: 'the fix', fontFamily: 'Anton' }),
+    ], calm);
+
+    expect(result.map(s => [s.headline, s.fontFamily])).toEqual([['Why It Works', 'Anton'], ['The Fix', 'Anton']]);
+  });
+
+  it('keeps any font when the profile has none', () => {
+    const [result] = applyStyleToSuggestions([suggestion({ fontFamily: 'Bebas Neue' })], { ...calm, fonts: [] });
+
+    expect(result.fontFamily).toBe('Bebas Neue');
+  });
+});
@@ -0,0 +1,167 @@
+// Channel style profiles, shared by every project and kept in localStorage. A project picks one, and it
+// is written into generation and edit prompts and steers and filters the text suggestions.
+import { OverlayFont, StyleProfile, TextCase, TextSuggestion } from '../types';
+import { OVERLAY_FONTS } from './textOverlay';
+
+const STYLE_PROFILES_STORAGE_KEY = 'style-profiles';
+
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+  id: 'cinematic-drama',
+  name: 'Cinematic drama',
+  visualStyle: 'A photo, hyper-realistic cinematic still. The scene must feel like a dramatic, captured moment from a video, NOT a posed photograph. Characters must have exaggerated, theatrical expressions that immediately grab audience attention.',
+  palette: ['#FFFF00', '#FF0000', '#FFFFFF', '#000000'],
+  fonts: ['Impact', 'Bebas Neue', 'Anton'],
+  headlineTone: `Short, dramatic and clickbaity, e.g. "SHE LOST EVERYTHING!" or "YOU'RE DONE, KAREN".`,
+  textCase: 'upper',
+  forbiddenWords: [],
+};
+
+export const TEXT_CASES: { value: TextCase; label: string; rule: string }[] = [
+  { value: 'upper', label: 'ALL CAPS', rule: 'Write it in all caps.' },
+  { value: 'title', label: 'Title Case', rule: 'Write it in title case.' },
+  { value: 'sentence', label: 'Sentence case', rule: 'Write it in sentence case.' },
+  { value: 'any', label: 'As written', rule: '' },
+];
+
+const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#(?:[0-9a-f]{6}|[0-9a-f]{3})$/i.test(value.trim());
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTextCase = (value: unknown): value is TextCase => TEXT_CASES.some(c => c.value === value);
+
+// Keeps what's valid from a stored profile and fills the rest from the default.
+const normalizeProfile = (data: unknown): StyleProfile | null => {
+  if (!isRecord(data) || typeof data.id !== 'string' || typeof data.name !== 'string') return null;
+  return {
+    id: data.id,
+    name: data.name,
+    visualStyle: typeof data.visualStyle === 'string' ? data.visualStyle : '',
+    palette: toStringList(data.palette).filter(isHexColor).map(color => color.toUpperCase()),
+    fonts: toStringList(data.fonts).filter((font): font is OverlayFont => OVERLAY_FONTS.includes(font as OverlayFont)),
+    headlineTone: typeof data.headlineTone === 'string' ? data.headlineTone : '',
+    textCase: isTextCase(data.textCase) ? data.textCase : 'any',
+    forbiddenWords: toStringList(data.forbiddenWords),
+  };
+};
+
+/**
+ * Lists the saved style profiles. There is always at least one: the built-in look until the user saves their own.
+ * @returns {StyleProfile[]} The profiles, in the order they were created.
+ */
+export const listStyleProfiles = (): StyleProfile[] => {
+  try {
+    const raw = localStorage.getItem(STYLE_PROFILES_STORAGE_KEY);
+    const profiles = raw ? (JSON.parse(raw) as unknown[]).map(normalizeProfile).filter((p): p is StyleProfile => p !== null) : [];
+    return profiles.length > 0 ? profiles : [DEFAULT_STYLE_PROFILE];
+  } catch (error) {
+    console.error("Failed to parse style profiles from localStorage:", error);
+    return [DEFAULT_STYLE_PROFILE];
+  }
+};
+
+const storeProfiles = (profiles: StyleProfile[]) => {
+  localStorage.setItem(STYLE_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Adds a style profile, or replaces the one with the same id.
+ * @param {StyleProfile} profile The profile to save.
+ * @returns {StyleProfile[]} The profiles after saving.
+ */
+export const saveStyleProfile = (profile: StyleProfile): StyleProfile[] => {
+  const profiles = listStyleProfiles();
+  const next = profiles.some(p => p.id === profile.id)
+    ? profiles.map(p => p.id === profile.id ? profile : p)
+    : [...profiles, profile];
+  storeProfiles(next);
+  return next;
+};
+
+/**
+ * Deletes a style profile. Projects that used it fall back to the first remaining profile.
+ * @param {string} id The profile id.
+ * @returns {StyleProfile[]} The profiles after deleting.
+ */
+export const deleteStyleProfile = (id: string): StyleProfile[] => {
+  const next = listStyleProfiles().filter(p => p.id !== id);
+  storeProfiles(next);
+  return next.length > 0 ? next : [DEFAULT_STYLE_PROFILE];
+};
+
+/**
+ * Creates a new profile, starting from the default look so it's usable straight away.
+ * @param {string} name The profile's name.
+ * @returns {StyleProfile} The new, unsaved profile.
+ */
+export const createStyleProfile = (name: string): StyleProfile => ({ ...DEFAULT_STYLE_PROFILE, id: crypto.randomUUID(), name });
+
+/**
+ * Finds the profile a project uses.
+ * @param {StyleProfile[]} profiles The saved profiles.
+ * @param {string | null} id The project's profile id, null when it never picked one.
+ * @returns {StyleProfile} The profile, or the first one when the id is unknown.
+ */
+export const findStyleProfile = (profiles: StyleProfile[], id: string | null): StyleProfile =>
+  profiles.find(p => p.id === id) ?? profiles[0] ?? DEFAULT_STYLE_PROFILE;
+
+/**
+ * Describes a profile's look for an image model: its visual style, palette and the words to keep out of the image.
+ * @param {StyleProfile} profile The channel's profile.
+ * @returns {string} One paragraph of style instructions.
+ */
+export const describeImageStyle = (profile: StyleProfile): string => [
+  profile.visualStyle.trim(),
+  profile.palette.length > 0 ? `Favor this color palette: ${profile.palette.join(', ')}.` : '',
+  profile.forbiddenWords.length > 0 ? `Any text in the image must not use these words: ${profile.forbiddenWords.join(', ')}.` : '',
+].filter(Boolean).join(' ');
+
+/**
+ * Applies a text case to a headline.
+ * @param {string} text The headline.
+ * @param {TextCase} textCase The case to use.
+ * @returns {string} The headline in that case.
+ */
+export const applyTextCase = (text: string, textCase: TextCase): string => {
+  switch (textCase) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'title':
+      return text.toLowerCase().replace(/(^|[\s"(-])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+    case 'sentence':
+      return text.toLowerCase().replace(/\p{L}/u, letter => letter.toUpperCase());
+    default:
+      return text;
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the forbidden words a text uses, as whole words and ignoring case.
+ * @param {string} text The text to check.
+ * @param {StyleProfile} profile The channel's profile.
+ * @returns {string[]} The forbidden words found.
+ */
+export const findForbiddenWords = (text: string, profile: StyleProfile): string[] =>
+  profile.forbiddenWords.filter(word => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}($|[^\\p{L}\\p{N}])`, 'iu').test(text));
+
+/**
+ * Makes suggestions follow a profile whatever the model returned: drops those using a forbidden word,
+ * applies the text case and swaps fonts the channel doesn't use for its first font.
+ * @param {TextSuggestion[]} suggestions The suggestions from the model.
+ * @param {StyleProfile} profile The channel's profile.
+ * @returns {TextSuggestion[]} The suggestions that fit the profile.
+ */
+export const applyStyleToSuggestions = (suggestions: TextSuggestion[], profile: StyleProfile): TextSuggestion[] =>
+  suggestions
+    .filter(suggestion => findForbiddenWords(suggestion.headline, profile).length === 0)
+    .map(suggestion => ({
+      ...suggestion,
+      headline: applyTextCase(suggestion.headline, profile.textCase),
+      fontFamily: profile.fonts.length === 0 || profile.fonts.includes(suggestion.fontFamily) ? suggestion.fontFamily : profile.fonts[0],
+    }));
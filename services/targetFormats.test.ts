@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getTargetFormat, getRatioValue, findClosestFormat, describeTargetFormat, planReframe } from './targetFormats';
+import { getPaddedSize, hasPadding } from './outpaint';
+
+describe('getTargetFormat', () => {
+  it('falls back to the YouTube thumbnail for unknown ids', () => {
+    expect(getTargetFormat(undefined).id).toBe('youtube-thumbnail');
+    expect(getTargetFormat('gone').id).toBe('youtube-thumbnail');
+    expect(getTargetFormat('shorts-cover').aspectRatio).toBe('9:16');
+  });
+});
+
+describe('findClosestFormat', () => {
+  it('matches an image to the nearest ratio', () => {
+    expect(findClosestFormat(1280, 720).id).toBe('youtube-thumbnail');
+    expect(findClosestFormat(1080, 1920).id).toBe('shorts-cover');
+    expect(findClosestFormat(1000, 1010).id).toBe('community-post');
+    expect(findClosestFormat(1400, 1000).id).toBe('landscape-4-3');
+  });
+});
+
+describe('describeTargetFormat', () => {
+  it('names the format and ratio, with its composition note', () => {
+    expect(describeTargetFormat(getTargetFormat('community-post'))).toBe('Make it a community post in 1:1 aspect ratio.');
+    expect(describeTargetFormat(getTargetFormat('shorts-cover'))).toMatch(/^Make it a shorts cover in 9:16 aspect ratio\. Keep faces/);
+  });
+});
+
+describe('planReframe', () => {
+  it('grows the height to turn a landscape image into a portrait one', () => {
+    const padding = planReframe(1280, 720, '9:16');
+    expect(padding.left + padding.right).toBe(0);
+    const size = getPaddedSize(1280, 720, padding);
+    expect(size.width / size.height).toBeCloseTo(getRatioValue('9:16'), 2);
+    expect(padding.top).toBe(Math.floor((size.height - 720) / 2));
+  });
+
+  it('grows the width to turn a portrait image into a square one, centered', () => {
+    expect(planReframe(1080, 1920, '1:1')).toEqual({ top: 0, right: 420, bottom: 0, left: 420 });
+  });
+
+  it('adds nothing when the image already has the ratio, give or take a pixel', () => {
+    expect(hasPadding(planReframe(1280, 720, '16:9'))).toBe(false);
+    expect(hasPadding(planReframe(1279, 720, '16:9'))).toBe(false);
+  });
+});
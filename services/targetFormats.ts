@@ -0,0 +1,79 @@
+// The formats images are made for, each with the aspect ratio the image models are asked for, and the
+// padding that reframes an image into another ratio without cropping any of it.
+import { AspectRatio, Padding } from '../types';
+
+export interface TargetFormat {
+  id: string;
+  label: string;
+  aspectRatio: AspectRatio;
+  width: number; // The size it's published at
+  height: number;
+  note?: string; // Extra composition advice for the image model
+}
+
+export const TARGET_FORMATS: TargetFormat[] = [
+  { id: 'youtube-thumbnail', label: 'YouTube thumbnail', aspectRatio: '16:9', width: 1280, height: 720 },
+  { id: 'shorts-cover', label: 'Shorts cover', aspectRatio: '9:16', width: 1080, height: 1920, note: 'Keep faces and the main subject in the middle, away from the top and bottom where the app overlays its buttons.' },
+  { id: 'community-post', label: 'Community post', aspectRatio: '1:1', width: 1080, height: 1080 },
+  { id: 'channel-banner', label: 'Channel banner', aspectRatio: '16:9', width: 2560, height: 1440, note: 'Keep everything important inside the central horizontal strip, as phones and desktops crop the top, bottom and sides.' },
+  { id: 'landscape-4-3', label: 'Landscape 4:3', aspectRatio: '4:3', width: 1440, height: 1080 },
+  { id: 'portrait-3-4', label: 'Portrait 3:4', aspectRatio: '3:4', width: 1080, height: 1440 },
+];
+
+export const DEFAULT_TARGET_FORMAT_ID = 'youtube-thumbnail';
+
+/**
+ * Finds a format by id.
+ * @param {string | undefined} id The format id.
+ * @returns {TargetFormat} The format, or the YouTube thumbnail for unknown ids.
+ */
+export const getTargetFormat = (id: string | undefined): TargetFormat =>
+  TARGET_FORMATS.find(f => f.id === id) ?? TARGET_FORMATS[0];
+
+/**
+ * Converts an aspect ratio to width divided by height, e.g. 16:9 to 1.78.
+ */
+export const getRatioValue = (aspectRatio: AspectRatio): number => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+/**
+ * Finds the format whose ratio is closest to an image's, preferring the first listed on a tie.
+ * @param {number} width The image width.
+ * @param {number} height The image height.
+ * @returns {TargetFormat} The closest format.
+ */
+export const findClosestFormat = (width: number, height: number): TargetFormat => {
+  const ratio = Math.log(width / height);
+  return TARGET_FORMATS.reduce((best, format) =>
+    Math.abs(Math.log(getRatioValue(format.aspectRatio)) - ratio) < Math.abs(Math.log(getRatioValue(best.aspectRatio)) - ratio) ? format : best);
+};
+
+/**
+ * Describes a format for an image model, e.g. "Make it a YouTube thumbnail in 16:9 aspect ratio."
+ */
+export const describeTargetFormat = (format: TargetFormat): string =>
+  [`Make it a ${format.label.toLowerCase()} in ${format.aspectRatio} aspect ratio.`, format.note ?? ''].filter(Boolean).join(' ');
+
+/**
+ * Works out how much to add around an image to give it another aspect ratio while keeping all of it,
+ * centered. Only the sides that are too short grow.
+ * @param {number} width The image width.
+ * @param {number} height The image height.
+ * @param {AspectRatio} aspectRatio The ratio to reach.
+ * @returns {Padding} The pixels to add on each side; all zero if the image already has that ratio.
+ */
+export const planReframe = (width: number, height: number, aspectRatio: AspectRatio): Padding => {
+  const target = getRatioValue(aspectRatio);
+  const newWidth = Math.max(width, Math.round(height * target));
+  const newHeight = Math.max(height, Math.round(width / target));
+  const extraWidth = newWidth > width && newWidth - width > 1 ? newWidth - width : 0;
+  const extraHeight = newHeight > height && newHeight - height > 1 ? newHeight - height : 0;
+  return {
+    top: Math.floor(extraHeight / 2),
+    bottom: Math.ceil(extraHeight / 2),
+    left: Math.floor(extraWidth / 2),
+    right: Math.ceil(extraWidth / 2),
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseTextOverlaySuggestion, describeTextOverlays, createTextOverlay } from './textOverlay';
+
+describe('parseTextOverlaySuggestion', () => {
+  it('parses the styling of a typical suggestion', () => {
+    const overlay = parseTextOverlaySuggestion(
+      "Add the text 'CAUGHT RED-HANDED' in the top left corner, using a thick Impact font in bright yellow #FFFF00 with a heavy 10px black stroke and a subtle drop shadow."
+    );
+
+    expect(overlay).toMatchObject({
+      text: 'CAUGHT RED-HANDED',
+      fontFamily: 'Impact',
+      fill: '#FFFF00',
+      strokeColor: '#000000',
+      strokeWidth: 10,
+      shadow: true,
+    });
+    expect(overlay.x).toBeLessThan(0.5);
+    expect(overlay.y).toBeLessThan(0.5);
+  });
+
+  it('keeps apostrophes inside single-quoted headlines', () => {
+    expect(parseTextOverlaySuggestion("Add the text 'YOU WON'T BELIEVE THIS!' centered at the bottom").text).toBe("YOU WON'T BELIEVE THIS!");
+  });
+
+  it('does not read position words from the headline itself', () => {
+    const overlay = parseTextOverlaySuggestion('Add the text "TOP 10 FAILS" in the bottom right corner');
+
+    expect(overlay.text).toBe('TOP 10 FAILS');
+    expect(overlay.x).toBeGreaterThan(0.5);
+    expect(overlay.y).toBeGreaterThan(0.5);
+  });
+
+  it('recognizes the bundled fonts and named colors', () => {
+    const overlay = parseTextOverlaySuggestion("Add the text 'IT'S OVER!' in white Bebas Neue with a thin red outline");
+
+    expect(overlay).toMatchObject({ fontFamily: 'Bebas Neue', fill: '#FFFFFF', strokeColor: '#FF0000', shadow: false });
+  });
+
+  it('leaves out the outline when none is mentioned', () => {
+    expect(parseTextOverlaySuggestion("Add the text 'WOW' in yellow Anton").strokeWidth).toBe(0);
+  });
+
+  it('uses the whole suggestion as the text when nothing is quoted', () => {
+    expect(parseTextOverlaySuggestion('SHE LOST EVERYTHING').text).toBe('SHE LOST EVERYTHING');
+  });
+});
+
+describe('describeTextOverlays', () => {
+  it('summarizes each overlay on its own line', () => {
+    const overlays = [
+      createTextOverlay('ONE', { fontFamily: 'Anton', fontSize: 80, fill: '#FFFFFF', strokeWidth: 0, shadow: false }),
+      createTextOverlay('TWO', { fontSize: 96, fill: '#FFFF00', strokeColor: '#000000', strokeWidth: 8, shadow: true }),
+    ];
+
+    expect(describeTextOverlays(overlays)).toBe(
+      '"ONE" in Anton 80px, #FFFFFF\n"TWO" in Impact 96px, #FFFF00 with a 8px #000000 outline and a drop shadow'
+    );
+  });
+});
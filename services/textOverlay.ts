@@ -0,0 +1,219 @@
+// Renders headline text onto thumbnails locally with canvas, so the words are always spelled and styled
+// exactly as written instead of being redrawn by the image model.
+import { OverlayFont, TextAnchor, TextOverlay } from '../types';
+
+export const REFERENCE_HEIGHT = 720; // Overlay sizes are authored for a 1280x720 thumbnail
+
+export const OVERLAY_FONTS: OverlayFont[] = ['Impact', 'Bebas Neue', 'Anton'];
+
+// Impact can't be redistributed, so it comes from the system when installed; Anton is
+// bundled as a close stand-in. Bebas Neue and Anton are bundled via @fontsource.
+const FONT_STACKS: Record<OverlayFont, string> = {
+  'Impact': 'Impact, "Anton", sans-serif',
+  'Bebas Neue': '"Bebas Neue", sans-serif',
+  'Anton': '"Anton", sans-serif',
+};
+
+// Where each anchor puts the center of the text, as fractions of the image size.
+export const ANCHOR_POSITIONS: Record<TextAnchor, { x: number; y: number }> = {
+  'top-left': { x: 0.28, y: 0.18 },
+  'top': { x: 0.5, y: 0.18 },
+  'top-right': { x: 0.72, y: 0.18 },
+  'left': { x: 0.28, y: 0.5 },
+  'center': { x: 0.5, y: 0.5 },
+  'right': { x: 0.72, y: 0.5 },
+  'bottom-left': { x: 0.28, y: 0.82 },
+  'bottom': { x: 0.5, y: 0.82 },
+  'bottom-right': { x: 0.72, y: 0.82 },
+};
+
+/**
+ * Gets the CSS font-family list used to render an overlay font.
+ */
+export const getFontStack = (font: OverlayFont): string => FONT_STACKS[font];
+
+const NAMED_COLORS: Record<string, string> = {
+  yellow: '#FFFF00',
+  white: '#FFFFFF',
+  black: '#000000',
+  red: '#FF0000',
+  orange: '#FF8C00',
+  green: '#00FF00',
+  blue: '#1E90FF',
+  cyan: '#00FFFF',
+  pink: '#FF69B4',
+  purple: '#8A2BE2',
+  gold: '#FFD700',
+};
+
+const SHADOW_COLOR = 'rgba(0, 0, 0, 0.65)';
+const SHADOW_BLUR = 12;
+const SHADOW_OFFSET = 4;
+const LINE_HEIGHT = 1.1;
+
+export const DEFAULT_OVERLAY: Omit<TextOverlay, 'id' | 'text'> = {
+  x: 0.5,
+  y: 0.5,
+  fontFamily: 'Impact',
+  fontSize: 96,
+  fill: '#FFFF00',
+  strokeColor: '#000000',
+  strokeWidth: 8,
+  shadow: true,
+};
+
+/**
+ * Creates a new overlay with the default style, centered on the image.
+ */
+export const createTextOverlay = (text: string, overrides: Partial<TextOverlay> = {}): TextOverlay => ({
+  id: crypto.randomUUID(),
+  text,
+  ...DEFAULT_OVERLAY,
+  ...overrides,
+});
+
+/**
+ * Finds the first color in a piece of text, preferring hex codes over color names.
+ */
+const findColor = (text: string): string | null => {
+  const hex = text.match(/#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/i);
+  if (hex) return hex[0].toUpperCase();
+
+  let first: { index: number; color: string } | null = null;
+  for (const [name, color] of Object.entries(NAMED_COLORS)) {
+    const index = text.search(new RegExp(`\\b${name}\\b`, 'i'));
+    if (index !== -1 && (!first || index < first.index)) {
+      first = { index, color };
+    }
+  }
+  return first?.color ?? null;
+};
+
+const parseAnchor = (text: string): TextAnchor => {
+  const lower = text.toLowerCase();
+  const vertical = /\b(top|above|upper)\b/.test(lower) ? 'top' : /\b(bottom|below|under|lower)\b/.test(lower) ? 'bottom' : '';
+  const horizontal = /\bleft\b/.test(lower) ? 'left' : /\bright\b/.test(lower) ? 'right' : '';
+  return ([vertical, horizontal].filter(Boolean).join('-') || 'center') as TextAnchor;
+};
+
+/**
+ * Turns a prose text overlay suggestion, such as "Add the text 'IT'S OVER!' in the top left corner,
+ * using a thick Impact font in bright yellow #FFFF00 with a heavy 10px black stroke", into an overlay.
+ * Anything the suggestion doesn't mention falls back to the default style.
+ * @param {string} suggestion The suggestion text.
+ * @returns {TextOverlay} The overlay, ready to be placed and restyled.
+ */
+export const parseTextOverlaySuggestion = (suggestion: string): TextOverlay => {
+  // The headline is the first quoted span. A quote followed by a letter is an apostrophe (WON'T), not the end.
+  const quoted = suggestion.match(/(["'])(.+?)\1(?![a-z])/i) ?? suggestion.match(/[“‘](.+?)[”’](?![a-z])/i);
+  const text = quoted ? quoted[quoted.length - 1].trim() : suggestion.trim();
+  const details = quoted ? suggestion.slice((quoted.index ?? 0) + quoted[0].length) : '';
+
+  // The outline is described by the few words around "stroke", e.g. "a heavy 10px black stroke".
+  const strokeClause = details.match(/(?:[#\w.-]+\s+){0,4}(?:stroke|outline|border)\b(?:\s+(?:of|in|color)?\s*[#\w.-]+){0,2}/i)?.[0] ?? '';
+  const fillClause = strokeClause ? details.replace(strokeClause, '') : details;
+  const strokeWidth = strokeClause.match(/(\d+(?:\.\d+)?)\s*px/i);
+
+  const fontFamily: OverlayFont = /bebas/i.test(details) ? 'Bebas Neue' : /anton/i.test(details) ? 'Anton' : 'Impact';
+  const fontSize = /\b(huge|massive|giant|enormous)\b/i.test(details) ? 120 : /\bsmall\b/i.test(details) ? 64 : DEFAULT_OVERLAY.fontSize;
+
+  return createTextOverlay(text, {
+    ...ANCHOR_POSITIONS[parseAnchor(details)],
+    fontFamily,
+    fontSize,
+    fill: findColor(fillClause) ?? DEFAULT_OVERLAY.fill,
+    strokeColor: findColor(strokeClause) ?? DEFAULT_OVERLAY.strokeColor,
+    strokeWidth: strokeClause ? (strokeWidth ? parseFloat(strokeWidth[1]) : DEFAULT_OVERLAY.strokeWidth) : 0,
+    shadow: /shadow/i.test(details),
+  });
+};
+
+const getScale = (canvasHeight: number) => canvasHeight / REFERENCE_HEIGHT;
+
+const getLines = (overlay: TextOverlay) => overlay.text.split('\n');
+
+const applyFont = (ctx: CanvasRenderingContext2D, overlay: TextOverlay) => {
+  ctx.font = `${overlay.fontSize * getScale(ctx.canvas.height)}px ${FONT_STACKS[overlay.fontFamily]}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+};
+
+/**
+ * Measures the box an overlay covers on a canvas, including its outline, in canvas pixels.
+ */
+export const getOverlayBounds = (ctx: CanvasRenderingContext2D, overlay: TextOverlay): { x: number; y: number; width: number; height: number } => {
+  const scale = getScale(ctx.canvas.height);
+  ctx.save();
+  applyFont(ctx, overlay);
+  const lines = getLines(overlay);
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  ctx.restore();
+
+  const padding = overlay.strokeWidth * scale;
+  const width = textWidth + padding * 2;
+  const height = lines.length * overlay.fontSize * scale * LINE_HEIGHT + padding * 2;
+  return {
+    x: overlay.x * ctx.canvas.width - width / 2,
+    y: overlay.y * ctx.canvas.height - height / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Draws overlays onto a canvas, in order, scaled to the canvas height.
+ */
+export const renderTextOverlays = (ctx: CanvasRenderingContext2D, overlays: TextOverlay[]) => {
+  const scale = getScale(ctx.canvas.height);
+
+  overlays.forEach(overlay => {
+    const lines = getLines(overlay);
+    const lineHeight = overlay.fontSize * scale * LINE_HEIGHT;
+    const centerX = overlay.x * ctx.canvas.width;
+    const firstLineY = overlay.y * ctx.canvas.height - ((lines.length - 1) * lineHeight) / 2;
+
+    const drawText = (withShadow: boolean) => {
+      ctx.save();
+      applyFont(ctx, overlay);
+      ctx.lineJoin = 'round';
+      ctx.miterLimit = 2;
+      if (withShadow) {
+        ctx.shadowColor = SHADOW_COLOR;
+        ctx.shadowBlur = SHADOW_BLUR * scale;
+        ctx.shadowOffsetX = SHADOW_OFFSET * scale;
+        ctx.shadowOffsetY = SHADOW_OFFSET * scale;
+      }
+      lines.forEach((line, i) => {
+        const y = firstLineY + i * lineHeight;
+        if (overlay.strokeWidth > 0) {
+          // The stroke is centered on the glyph edge, so double it to get the visible outline width.
+          ctx.strokeStyle = overlay.strokeColor;
+          ctx.lineWidth = overlay.strokeWidth * scale * 2;
+          ctx.strokeText(line, centerX, y);
+        }
+        ctx.fillStyle = overlay.fill;
+        ctx.fillText(line, centerX, y);
+      });
+      ctx.restore();
+    };
+
+    // Cast the shadow in a separate pass so it falls behind the outline instead of between stroke and fill.
+    if (overlay.shadow) drawText(true);
+    drawText(false);
+  });
+};
+
+/**
+ * Waits until the fonts the overlays use are ready, so the first render isn't in a fallback font.
+ */
+export const loadOverlayFonts = async (overlays: TextOverlay[]): Promise<void> => {
+  if (!('fonts' in document)) return;
+  const families = [...new Set(overlays.map(o => o.fontFamily))];
+  await Promise.all(families.map(family => document.fonts.load(`48px ${FONT_STACKS[family]}`).catch(() => [])));
+};
+
+/**
+ * Describes overlays in words, e.g. for a text layer's tooltip.
+ */
+export const describeTextOverlays = (overlays: TextOverlay[]): string =>
+  overlays.map(o => `"${o.text}" in ${o.fontFamily} ${o.fontSize}px, ${o.fill}${o.strokeWidth > 0 ? ` with a ${o.strokeWidth}px ${o.strokeColor} outline` : ''}${o.shadow ? ' and a drop shadow' : ''}`).join('\n');
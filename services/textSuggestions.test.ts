@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { TextSuggestion } from '../types';
+import { suggestionToPrompt, suggestionToOverlay, normalizeTextSuggestion } from './textSuggestions';
+import { parseTextOverlaySuggestion } from './textOverlay';
+
+const suggestion: TextSuggestion = {
+  headline: "YOU WON'T BELIEVE THIS!",
+  anchor: 'top-left',
+  fontFamily: 'Bebas Neue',
+  fill: '#FFFF00',
+  strokeColor: '#000000',
+  strokeWidth: 10,
+  shadow: true,
+  rationale: 'Curiosity gap.',
+};
+
+describe('suggestionToPrompt', () => {
+  it('writes the suggestion as an edit instruction', () => {
+    expect(suggestionToPrompt(suggestion)).toBe(
+      'Add the text "YOU WON\'T BELIEVE THIS!" in the top left corner, using the Bebas Neue font in #FFFF00 with a 10px #000000 stroke and a drop shadow.'
+    );
+  });
+
+  it('leaves out the outline and shadow when the suggestion has none', () => {
+    expect(suggestionToPrompt({ ...suggestion, anchor: 'bottom', strokeWidth: 0, shadow: false }))
+      .toBe('Add the text "YOU WON\'T BELIEVE THIS!" centered at the bottom, using the Bebas Neue font in #FFFF00.');
+  });
+
+  it('produces prompts that parse back to the same overlay style', () => {
+    const variants: TextSuggestion[] = [
+      suggestion,
+      { ...suggestion, anchor: 'right', fontFamily: 'Anton', fill: '#FFFFFF', strokeColor: '#FF0000', strokeWidth: 4, shadow: false },
+      { ...suggestion, anchor: 'bottom-right', strokeWidth: 0 },
+    ];
+
+    for (const variant of variants) {
+      const { text, x, y, fontFamily, fill, strokeColor, strokeWidth, shadow } = suggestionToOverlay(variant);
+      expect(parseTextOverlaySuggestion(suggestionToPrompt(variant))).toMatchObject({
+        text, x, y, fontFamily, fill, strokeWidth, shadow,
+        ...(strokeWidth ? { strokeColor } : {}),
+      });
+    }
+  });
+});
+
+describe('suggestionToOverlay', () => {
+  it('places the overlay at the suggestion anchor with its style', () => {
+    expect(suggestionToOverlay(suggestion)).toMatchObject({
+      text: "YOU WON'T BELIEVE THIS!",
+      x: 0.28,
+      y: 0.18,
+      fontFamily: 'Bebas Neue',
+      fill: '#FFFF00',
+      strokeWidth: 10,
+      shadow: true,
+    });
+  });
+});
+
+describe('normalizeTextSuggestion', () => {
+  it('rejects entries that are not suggestions', () => {
+    expect(normalizeTextSuggestion(null)).toBeNull();
+    expect(normalizeTextSuggestion(42)).toBeNull();
+    expect(normalizeTextSuggestion({ anchor: 'top' })).toBeNull();
+    expect(normalizeTextSuggestion('')).toBeNull();
+  });
+
+  it('uppercases hex colors and rounds the outline width', () => {
+    expect(normalizeTextSuggestion({ ...suggestion, fill: '#ff0', strokeColor: '#ffffff', strokeWidth: 7.6 }))
+      .toMatchObject({ fill: '#FF0', strokeColor: '#FFFFFF', strokeWidth: 8 });
+  });
+});
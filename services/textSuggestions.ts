@@ -0,0 +1,118 @@
+// Structured text overlay suggestions: validating what the model returns, and turning a suggestion
+// into either an edit prompt for the image model or an overlay for the local compositor.
+import { OverlayFont, TextAnchor, TextOverlay, TextSuggestion } from '../types';
+import { ANCHOR_POSITIONS, DEFAULT_OVERLAY, OVERLAY_FONTS, createTextOverlay, parseTextOverlaySuggestion } from './textOverlay';
+
+export const TEXT_ANCHORS = Object.keys(ANCHOR_POSITIONS) as TextAnchor[];
+
+const MAX_STROKE_WIDTH = 30;
+
+const ANCHOR_PHRASES: Record<TextAnchor, string> = {
+  'top-left': 'in the top left corner',
+  'top': 'centered at the top',
+  'top-right': 'in the top right corner',
+  'left': 'on the left side',
+  'center': 'in the center',
+  'right': 'on the right side',
+  'bottom-left': 'in the bottom left corner',
+  'bottom': 'centered at the bottom',
+  'bottom-right': 'in the bottom right corner',
+};
+
+const ANCHOR_LABELS: Record<TextAnchor, string> = {
+  'top-left': 'Top left',
+  'top': 'Top',
+  'top-right': 'Top right',
+  'left': 'Left',
+  'center': 'Center',
+  'right': 'Right',
+  'bottom-left': 'Bottom left',
+  'bottom': 'Bottom',
+  'bottom-right': 'Bottom right',
+};
+
+/**
+ * Gets a short, human-readable name for an anchor, e.g. "Top left".
+ */
+export const getAnchorLabel = (anchor: TextAnchor): string => ANCHOR_LABELS[anchor];
+
+const normalizeColor = (value: unknown, fallback: string): string => {
+  if (typeof value !== 'string') return fallback;
+  const color = value.trim();
+  return /^#(?:[0-9a-f]{6}|[0-9a-f]{3})$/i.test(color) ? color.toUpperCase() : fallback;
+};
+
+const nearestAnchor = (x: number, y: number): TextAnchor =>
+  TEXT_ANCHORS.reduce((best, anchor) => {
+    const distance = Math.hypot(ANCHOR_POSITIONS[anchor].x - x, ANCHOR_POSITIONS[anchor].y - y);
+    const bestDistance = Math.hypot(ANCHOR_POSITIONS[best].x - x, ANCHOR_POSITIONS[best].y - y);
+    return distance < bestDistance ? anchor : best;
+  });
+
+/**
+ * Validates one suggestion from a model response. Missing or invalid style fields fall back to the
+ * default overlay style; a suggestion without a headline is dropped. Plain strings in the older prose
+ * format are still accepted and parsed.
+ * @param {unknown} raw One entry of the response's `suggestions` array.
+ * @returns {TextSuggestion | null} The suggestion, or null when it can't be used.
+ */
+export const normalizeTextSuggestion = (raw: unknown): TextSuggestion | null => {
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return null;
+    const overlay = parseTextOverlaySuggestion(raw);
+    return {
+      headline: overlay.text,
+      anchor: nearestAnchor(overlay.x, overlay.y),
+      fontFamily: overlay.fontFamily,
+      fill: overlay.fill,
+      strokeColor: overlay.strokeColor,
+      strokeWidth: overlay.strokeWidth,
+      shadow: overlay.shadow,
+      rationale: '',
+    };
+  }
+
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Record<string, unknown>;
+  const headline = typeof entry.headline === 'string' ? entry.headline.trim() : '';
+  if (!headline) return null;
+
+  const strokeWidth = typeof entry.strokeWidth === 'number' && Number.isFinite(entry.strokeWidth)
+    ? Math.min(MAX_STROKE_WIDTH, Math.max(0, Math.round(entry.strokeWidth)))
+    : DEFAULT_OVERLAY.strokeWidth;
+
+  return {
+    headline,
+    anchor: TEXT_ANCHORS.includes(entry.anchor as TextAnchor) ? entry.anchor as TextAnchor : 'center',
+    fontFamily: OVERLAY_FONTS.includes(entry.fontFamily as OverlayFont) ? entry.fontFamily as OverlayFont : DEFAULT_OVERLAY.fontFamily,
+    fill: normalizeColor(entry.fill, DEFAULT_OVERLAY.fill),
+    strokeColor: normalizeColor(entry.strokeColor, DEFAULT_OVERLAY.strokeColor),
+    strokeWidth,
+    shadow: entry.shadow === true,
+    rationale: typeof entry.rationale === 'string' ? entry.rationale.trim() : '',
+  };
+};
+
+/**
+ * Writes a suggestion out as a prose instruction for the image model, e.g. "Add the text "IT'S OVER!"
+ * in the top left corner, using the Impact font in #FFFF00 with a 10px #000000 stroke and a drop shadow."
+ * The wording is kept parseable by parseTextOverlaySuggestion.
+ */
+export const suggestionToPrompt = (suggestion: TextSuggestion): string => {
+  const stroke = suggestion.strokeWidth > 0 ? ` with a ${suggestion.strokeWidth}px ${suggestion.strokeColor} stroke` : '';
+  const shadow = suggestion.shadow ? `${stroke ? ' and' : ', with'} a drop shadow` : '';
+  return `Add the text "${suggestion.headline}" ${ANCHOR_PHRASES[suggestion.anchor]}, using the ${suggestion.fontFamily} font in ${suggestion.fill}${stroke}${shadow}.`;
+};
+
+/**
+ * Turns a suggestion into a text overlay at its anchor, ready for the local compositor.
+ */
+export const suggestionToOverlay = (suggestion: TextSuggestion): TextOverlay =>
+  createTextOverlay(suggestion.headline, {
+    ...ANCHOR_POSITIONS[suggestion.anchor],
+    fontFamily: suggestion.fontFamily,
+    fill: suggestion.fill,
+    strokeColor: suggestion.strokeColor,
+    strokeWidth: suggestion.strokeWidth,
+    shadow: suggestion.shadow,
+  });
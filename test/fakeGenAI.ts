@@ -0,0 +1,56 @@
+// A local stand-in for the @google/genai client, used with vi.mock so the services can be
+// exercised without network access or real API keys.
+import type { GenerateContentParameters, GenerateImagesParameters, GetModelParameters } from '@google/genai';
+
+export type FakeCall =
+  | { apiKey: string; method: 'generateContent'; params: GenerateContentParameters }
+  | { apiKey: string; method: 'generateImages'; params: GenerateImagesParameters }
+  | { apiKey: string; method: 'get'; params: GetModelParameters };
+
+export type FakeMethod = FakeCall['method'];
+
+/** Decides what a fake request returns; throw from it to simulate an API error. */
+export type FakeResponder = (call: FakeCall) => unknown;
+
+let responder: FakeResponder = () => {
+  throw new Error("No fake response configured for this test.");
+};
+
+export const fakeCalls: FakeCall[] = [];
+
+/** Finds the first recorded call of a method, typed with that method's parameters. */
+export const findFakeCall = <M extends FakeMethod>(method: M): Extract<FakeCall, { method: M }> => {
+  const call = fakeCalls.find((c): c is Extract<FakeCall, { method: M }> => c.method === method);
+  if (!call) throw new Error(`No ${method} call was made.`);
+  return call;
+};
+
+export const setFakeResponder = (next: FakeResponder): void => {
+  responder = next;
+};
+
+export const resetFakeGenAI = (): void => {
+  fakeCalls.length = 0;
+  setFakeResponder(() => {
+    throw new Error("No fake response configured for this test.");
+  });
+};
+
+export class FakeGoogleGenAI {
+  private apiKey: string;
+
+  constructor({ apiKey }: { apiKey: string }) {
+    this.apiKey = apiKey;
+  }
+
+  private async record(call: FakeCall) {
+    fakeCalls.push(call);
+    return responder(call);
+  }
+
+  models = {
+    generateContent: (params: GenerateContentParameters) => this.record({ apiKey: this.apiKey, method: 'generateContent', params }),
+    generateImages: (params: GenerateImagesParameters) => this.record({ apiKey: this.apiKey, method: 'generateImages', params }),
+    get: (params: GetModelParameters) => this.record({ apiKey: this.apiKey, method: 'get', params }),
+  };
+}
@@ -0,0 +1,44 @@
+// Canned @google/genai responses and errors for the service tests.
+
+export const TINY_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+export const TINY_PNG_DATA_URL = `data:image/png;base64,${TINY_PNG_BASE64}`;
+
+export const imageResponse = (data: string = TINY_PNG_BASE64, mimeType: string = 'image/png') => ({
+  candidates: [{ content: { parts: [{ text: 'Here is your image.' }, { inlineData: { data, mimeType } }] } }],
+});
+
+export const textOnlyResponse = (text: string) => ({
+  candidates: [{ content: { parts: [{ text }] } }],
+  text,
+});
+
+export const imagenResponse = (imageBytes: string = TINY_PNG_BASE64, mimeType: string = 'image/png') => ({
+  generatedImages: [{ image: { imageBytes, mimeType } }],
+});
+
+export const textResponse = (text: string) => ({ text });
+
+export const suggestionsResponse = (suggestions: unknown[]) => textResponse(JSON.stringify({ suggestions }));
+
+export const textSuggestion = (overrides: Record<string, unknown> = {}) => ({
+  headline: 'WOW',
+  anchor: 'top-left',
+  fontFamily: 'Impact',
+  fill: '#FFFF00',
+  strokeColor: '#000000',
+  strokeWidth: 10,
+  shadow: true,
+  rationale: 'Short and loud.',
+  ...overrides,
+});
+
+export const MALFORMED_SUGGESTION_PAYLOADS = [
+  '{"suggestions": ["Add the text \'WOW\'", ', // Truncated JSON
+  '["Add the text \'WOW\'"]', // Array instead of an object
+  '{"ideas": ["Add the text \'WOW\'"]}', // Wrong key
+  'Sure! Here are some suggestions: ...', // Prose
+];
+
+export const quotaError = () => new Error('[429 Too Many Requests] RESOURCE_EXHAUSTED: You exceeded your current quota.');
+
+export const invalidKeyError = () => new Error('[400 Bad Request] API key not valid. Please pass a valid API key.');
@@ -1,7 +1,173 @@
 export interface ImageVersion {
   id: string;
+  parentId: string | null; // The version this one was edited from, null for a set's original image
   base64: string;
   mimeType: string;
+  provenance?: GenerationProvenance; // Absent for uploaded images
+  layers?: Layer[]; // Bottom to top; absent means the version is just its own image
+}
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'soft-light' | 'hard-light' | 'color-dodge' | 'difference' | 'color';
+
+export type StickerShape = 'arrow' | 'circle' | 'box' | 'emoji';
+
+export type ColorFill = 'solid' | 'vignette' | 'top-fade' | 'bottom-fade';
+
+interface LayerProperties {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number; // 0 to 1
+  blendMode: BlendMode;
+}
+
+// The version's own image. Its pixels are the version's base64, so it carries none itself.
+export interface BaseLayer extends LayerProperties {
+  kind: 'base';
+}
+
+// A full-size image, e.g. an AI edit, shown only where its mask is white.
+export interface ImageLayer extends LayerProperties {
+  kind: 'image';
+  base64: string;
+  mimeType: string;
+  maskBase64: string | null; // White where the layer shows, null to show all of it
+}
+
+export interface TextLayer extends LayerProperties {
+  kind: 'text';
+  overlays: TextOverlay[];
+}
+
+// Sizes are in pixels at a 720px-tall image and scale with the real height, like text overlays.
+export interface StickerLayer extends LayerProperties {
+  kind: 'sticker';
+  shape: StickerShape;
+  emoji?: string; // For 'emoji' stickers
+  x: number; // Center, as a fraction of the image width
+  y: number; // Center, as a fraction of the image height
+  size: number;
+  rotation: number; // Degrees clockwise; arrows point right at 0
+  color: string;
+  outlineColor: string;
+}
+
+export interface ColorLayer extends LayerProperties {
+  kind: 'color';
+  color: string;
+  fill: ColorFill;
+}
+
+export type Layer = BaseLayer | ImageLayer | TextLayer | StickerLayer | ColorLayer;
+
+export interface RegionPrompt {
+  id: number;
+  prompt: string;
+}
+
+export interface MaskCompositingOptions {
+  autoAlign: boolean; // Whether to shift the model's output back if it drifted from the original
+}
+
+/**
+ * One region of a masked edit run as its own pass, with just that region's mask and task.
+ */
+// How a masked edit's regions are told apart for the model, besides the mask of them all.
+export type MaskEncoding = 'index-map' | 'per-region';
+
+// One region's own white-on-black mask.
+export interface RegionMask {
+  id: number;
+  maskBase64: string;
+}
+
+export interface RegionPass {
+  regionId: number;
+  prompt: string;
+  maskBase64: string; // The region's own mask, without numbers
+  layerId: string | null; // The layer the pass added, null if it failed
+  submissionPrompt: string;
+  error?: string; // Why the pass failed
+  durationMs: number;
+}
+
+export type GenerationOperation = 'generate' | 'edit' | 'masked-edit' | 'next-scene' | 'text-overlay' | 'outpaint';
+
+export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:3' | '3:4';
+
+// Pixels added on each side of an image when it's extended outwards.
+export interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type OverlayFont = 'Impact' | 'Bebas Neue' | 'Anton';
+
+export type TextAnchor = 'top-left' | 'top' | 'top-right' | 'left' | 'center' | 'right' | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// A text overlay idea from the suggestion model, styled in the same terms as a TextOverlay.
+export interface TextSuggestion {
+  headline: string;
+  anchor: TextAnchor;
+  fontFamily: OverlayFont;
+  fill: string; // Hex color
+  strokeColor: string; // Hex color
+  strokeWidth: number; // Pixels at a 720px-tall image, 0 for no outline
+  shadow: boolean;
+  rationale: string; // Why this headline should get clicks
+}
+
+export type TextCase = 'upper' | 'title' | 'sentence' | 'any';
+
+// The look and voice of one channel. Each project picks a profile, and it shapes every generation,
+// edit and text suggestion made in that project.
+export interface StyleProfile {
+  id: string;
+  name: string;
+  visualStyle: string; // How images should look and feel, e.g. "Bright flat illustration, playful mood"
+  palette: string[]; // Hex colors
+  fonts: OverlayFont[]; // Preferred headline fonts; empty for any
+  headlineTone: string; // How headline copy should read
+  textCase: TextCase;
+  forbiddenWords: string[]; // Never used in headlines or text in the image
+}
+
+// A line (or lines) of headline text rendered locally on top of a version.
+// Sizes are in pixels at a 720px-tall image and scale with the real height.
+export interface TextOverlay {
+  id: string;
+  text: string;
+  x: number; // Center, as a fraction of the image width
+  y: number; // Center, as a fraction of the image height
+  fontFamily: OverlayFont;
+  fontSize: number;
+  fill: string;
+  strokeColor: string;
+  strokeWidth: number; // 0 for no outline
+  shadow: boolean;
+}
+
+// Everything needed to explain, and re-run, how a version was produced.
+export interface GenerationProvenance {
+  operation: GenerationOperation;
+  userPrompt: string; // The prompt as the user wrote it, before any assembly
+  regionPrompts: RegionPrompt[]; // Per-region tasks for masked edits, empty otherwise
+  submissionPrompt: string; // The exact prompt sent to the model
+  maskBase64: string | null;
+  characterIds: Character['id'][];
+  model: string;
+  createdAt: number;
+  durationMs: number;
+  textOverlays?: TextOverlay[]; // The overlays flattened into a 'text-overlay' version
+  layerId?: string; // The image layer an edit was made on, absent for edits made before layers
+  maskCompositing?: MaskCompositingOptions; // How a masked edit was fitted to its mask
+  passes?: RegionPass[]; // Set when a masked edit ran one region at a time, in the order they ran
+  maskEncoding?: MaskEncoding; // How the regions were shown to the model
+  regionMasks?: RegionMask[]; // Each region's own mask, so a rerun can encode them the same way
+  formatId?: string; // The target format a generation was made for, absent for those made before formats
+  padding?: Padding; // For outpaints: the pixels added on each side of the parent
 }
 
 export interface ImageSet {
@@ -11,7 +177,8 @@ export interface ImageSet {
 }
 
 export interface Character {
-  id: 'char1' | 'char2';
+  id: string;
+  slot: number; // The N in its [CN] tag and "(image N)" placeholder
   name: string;
   roleName?: string; // e.g., "HOA Woman", parsed from the prompt
   base64: string | null;
@@ -19,4 +186,30 @@ export interface Character {
   definition: string | null;
   isLoading: boolean; // For when analysis is in progress for this specific char
   isAnalyzed: boolean;
+  libraryId?: string; // The library entry this character was slotted from or saved to
+  extraPhotos?: ReferencePhoto[]; // More photos of the same person, sent after the main one
+}
+
+export interface ReferencePhoto {
+  base64: string;
+  mimeType: string;
+}
+
+// A character saved to the library so it can be reused across projects.
+export interface LibraryCharacter {
+  id: string;
+  name: string;
+  roleName?: string;
+  definition: string | null;
+  tags: string[];
+  photos: ReferencePhoto[]; // The first photo is the primary one
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
 }